@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { Clock, CheckCircle, AlertCircle, ChevronRight, History, Loader2, MessageSquare, Image, BarChart3, Download, Search, ChevronLeft } from 'lucide-react';
+import { Clock, CheckCircle, AlertCircle, ChevronRight, History, Loader2, MessageSquare, Image, BarChart3, Download, Search, ChevronLeft, Paperclip } from 'lucide-react';
 import GlassCard from './GlassCard';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
@@ -18,6 +18,10 @@ interface HistoryItem {
   encoding_time_ms: number | null;
   psnr_value: number | null;
   message: string | null;
+  payload_type: string;
+  payload_filename: string | null;
+  payload_size_bytes: number | null;
+  payload_url: string | null;
   cover_image_url: string | null;
   stego_image_url: string | null;
   ssim_score: number | null;
@@ -73,7 +77,7 @@ const HistorySidebar: React.FC = () => {
       setLoading(true);
       const { data, error } = await supabase
         .from('encryption_history')
-        .select('id, created_at, operation_type, status, filename, encoding_time_ms, psnr_value, message, cover_image_url, stego_image_url, ssim_score')
+        .select('id, created_at, operation_type, status, filename, encoding_time_ms, psnr_value, message, payload_type, payload_filename, payload_size_bytes, payload_url, cover_image_url, stego_image_url, ssim_score')
         .order('created_at', { ascending: false })
         .limit(10);
 
@@ -242,16 +246,45 @@ const HistorySidebar: React.FC = () => {
               
               <CollapsibleContent className="overflow-hidden data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0">
                 <div className="mt-2 p-2 sm:p-3 bg-muted/30 rounded-lg border border-border/50 space-y-3">
-                  {/* Secret Message */}
-                  <div>
-                    <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
-                      <MessageSquare className="w-3 h-3" />
-                      <span className="text-[10px] sm:text-xs font-medium uppercase">Secret Message</span>
+                  {/* Secret Message or File */}
+                  {item.payload_type === 'file' ? (
+                    <div>
+                      <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+                        <Paperclip className="w-3 h-3" />
+                        <span className="text-[10px] sm:text-xs font-medium uppercase">Hidden File</span>
+                      </div>
+                      <div className="flex items-center justify-between gap-2 text-xs sm:text-sm text-foreground bg-background/50 p-2 rounded border border-border/30">
+                        <span className="truncate">
+                          {item.payload_filename || 'Unnamed file'}
+                          {item.payload_size_bytes !== null && (
+                            <span className="text-muted-foreground"> ({item.payload_size_bytes} bytes)</span>
+                          )}
+                        </span>
+                        {item.payload_url && (
+                          <a
+                            href={item.payload_url}
+                            download={item.payload_filename || undefined}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="shrink-0 text-primary hover:underline flex items-center gap-1"
+                          >
+                            <Download className="w-3 h-3" />
+                            Download
+                          </a>
+                        )}
+                      </div>
                     </div>
-                    <p className="text-xs sm:text-sm text-foreground bg-background/50 p-2 rounded border border-border/30 break-words">
-                      {item.message || <span className="text-muted-foreground italic">No message recorded</span>}
-                    </p>
-                  </div>
+                  ) : (
+                    <div>
+                      <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+                        <MessageSquare className="w-3 h-3" />
+                        <span className="text-[10px] sm:text-xs font-medium uppercase">Secret Message</span>
+                      </div>
+                      <p className="text-xs sm:text-sm text-foreground bg-background/50 p-2 rounded border border-border/30 break-words">
+                        {item.message || <span className="text-muted-foreground italic">No message recorded</span>}
+                      </p>
+                    </div>
+                  )}
 
                   {/* Quality Metrics */}
                   {(item.psnr_value || item.ssim_score) && (
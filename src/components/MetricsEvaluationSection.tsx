@@ -2,10 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { BarChart3, Loader2, CheckCircle2, AlertCircle, RefreshCw } from 'lucide-react';
 import GlassCard from './GlassCard';
 import ImageUploader from './ImageUploader';
+import DwtRobustnessPanel from './DwtRobustnessPanel';
 import { Button } from './ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { computeImageMetrics } from '@shared/metrics';
 
 interface Props {
   metrics: { psnr: number; mse: number; ssim: number; maxError: number } | null;
@@ -32,35 +34,6 @@ const fileToImageData = async (file: File, size: number): Promise<ImageData> =>
   return ctx.getImageData(0, 0, size, size);
 };
 
-const computeImageMetrics = (a: Uint8ClampedArray, b: Uint8ClampedArray): Metrics => {
-  let sse = 0, count = 0, maxErr = 0, meanA = 0, meanB = 0;
-  for (let i = 0; i < a.length; i += 4) {
-    for (let c = 0; c < 3; c++) {
-      const va = a[i + c], vb = b[i + c];
-      const d = va - vb;
-      sse += d * d;
-      const ad = Math.abs(d);
-      if (ad > maxErr) maxErr = ad;
-      meanA += va; meanB += vb; count++;
-    }
-  }
-  const mse = sse / count;
-  const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
-  meanA /= count; meanB /= count;
-  let varA = 0, varB = 0, cov = 0;
-  for (let i = 0; i < a.length; i += 4) {
-    for (let c = 0; c < 3; c++) {
-      const da = a[i + c] - meanA, db = b[i + c] - meanB;
-      varA += da * da; varB += db * db; cov += da * db;
-    }
-  }
-  varA /= count; varB /= count; cov /= count;
-  const C1 = (0.01 * 255) ** 2, C2 = (0.03 * 255) ** 2;
-  const ssim = ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
-    ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
-  return { psnr, mse, ssim, maxError: maxErr };
-};
-
 const MetricsEvaluationSection: React.FC<Props> = ({ metrics, recoveredImageUrl }) => {
   const [imgA, setImgA] = useState<File | null>(null);
   const [imgB, setImgB] = useState<File | null>(null);
@@ -145,7 +118,7 @@ const MetricsEvaluationSection: React.FC<Props> = ({ metrics, recoveredImageUrl
     try {
       const a = await fileToImageData(imgA, 256);
       const b = await fileToImageData(imgB, 256);
-      const m = computeImageMetrics(a.data, b.data);
+      const m = computeImageMetrics(a.data, b.data, a.width, a.height);
       setStandalone(m);
       await saveMetrics(m, imgA.name, imgB.name);
     } catch (e) {
@@ -277,6 +250,8 @@ const MetricsEvaluationSection: React.FC<Props> = ({ metrics, recoveredImageUrl
         )}
         </>
       ) : null}
+
+      <DwtRobustnessPanel />
     </GlassCard>
   );
 };
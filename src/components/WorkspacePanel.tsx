@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Lock, Unlock, Loader2, Sparkles, Key, Eye, EyeOff, Download, ImageIcon, MessageSquare, Brain, Zap, BarChart3 } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Lock, Unlock, Loader2, Sparkles, Key, Eye, EyeOff, Download, ImageIcon, MessageSquare, Brain, Zap, BarChart3, Paperclip, ShieldCheck, Layers, SlidersHorizontal, FileImage } from 'lucide-react';
 import GlassCard from './GlassCard';
 import ImageUploader from './ImageUploader';
 import ModelUploader from './ModelUploader';
@@ -12,152 +12,37 @@ import {
   areModelsLoaded, 
   encodeWithNeuralNet, 
   decodeWithNeuralNet,
+  getNeuralPayloadCapacity,
   textToTensor,
   tensorToText
 } from '@/lib/onnxModel';
+import { renderChangeOverlay } from '@/lib/adaptiveStego';
+import { estimateClassicEncodePsnr } from '@/lib/classicStego';
+import {
+  codecOptions,
+  decodeWithCodecs,
+  encodeWithCodec,
+  extensionFor,
+  fromImageData,
+  getCodecCapacity,
+  readStegoCarrier,
+  STEGO_OUTPUTS,
+  type StegoOutput,
+  toCanvas,
+  writeStegoFile,
+} from '@/lib/codecStego';
 import { supabase } from '@/integrations/supabase/client';
-
-// LSB-based encoding (fallback when neural model not loaded)
-const encodeLSB = (
-  coverPixels: Uint8ClampedArray,
-  messageBits: number[],
-  width: number,
-  height: number,
-  strength: number = 3
-): Uint8ClampedArray => {
-  const result = new Uint8ClampedArray(coverPixels);
-  const pixelCount = width * height;
-  
-  for (let i = 0; i < Math.min(messageBits.length, pixelCount); i++) {
-    const pixelIdx = i * 4;
-    const bit = messageBits[i];
-    
-    for (let c = 0; c < 3; c++) {
-      const original = result[pixelIdx + c];
-      const cleared = original & ~((1 << strength) - 1);
-      const embedded = cleared | (bit * ((1 << strength) - 1));
-      result[pixelIdx + c] = Math.max(0, Math.min(255, embedded));
-    }
-  }
-  
-  return result;
-};
-
-// LSB-based decoding
-const decodeLSB = (
-  stegoPixels: Uint8ClampedArray,
-  width: number,
-  height: number,
-  strength: number = 3
-): number[] => {
-  const pixelCount = width * height;
-  const bits: number[] = [];
-  const threshold = (1 << strength) / 2;
-  
-  for (let i = 0; i < pixelCount; i++) {
-    const pixelIdx = i * 4;
-    let sum = 0;
-    for (let c = 0; c < 3; c++) {
-      const lsb = stegoPixels[pixelIdx + c] & ((1 << strength) - 1);
-      sum += lsb >= threshold ? 1 : 0;
-    }
-    bits.push(sum >= 2 ? 1 : 0);
-  }
-  
-  return bits;
-};
-
-// Text to bits for LSB
-const textToBits = (text: string, pixelCount: number): number[] => {
-  let bits = '';
-  for (const char of text) {
-    bits += char.charCodeAt(0).toString(2).padStart(8, '0');
-  }
-  bits += '00000000';
-  
-  const bitArray = bits.split('').map(b => parseInt(b));
-  const paddingNeeded = Math.max(0, pixelCount - bitArray.length);
-  const paddedBits = [...bitArray, ...new Array(paddingNeeded).fill(0)];
-  
-  return paddedBits.slice(0, pixelCount);
-};
-
-// Bits to text for LSB
-const bitsToText = (bits: number[]): string => {
-  const binaryBits = bits.map(v => v > 0.5 ? 1 : 0);
-  let chars = '';
-  
-  for (let i = 0; i < binaryBits.length; i += 8) {
-    const byte = binaryBits.slice(i, i + 8);
-    if (byte.length < 8) break;
-    
-    const charCode = parseInt(byte.join(''), 2);
-    if (charCode === 0) break;
-    if (charCode >= 32 && charCode <= 126) {
-      chars += String.fromCharCode(charCode);
-    }
-  }
-  
-  return chars;
-};
-
-// XOR encryption with key
-const encodeWithKey = (
-  coverPixels: Uint8ClampedArray,
-  message: string,
-  key: string,
-  width: number,
-  height: number
-): Uint8ClampedArray => {
-  const pixelCount = width * height;
-  let messageBits = textToBits(message, pixelCount);
-  
-  if (key) {
-    const keyHash = key.split('').reduce((a, c) => ((a << 5) - a) + c.charCodeAt(0), 0);
-    const seed = Math.abs(keyHash);
-    
-    let s = seed;
-    const random = () => {
-      s = (s * 1103515245 + 12345) & 0x7fffffff;
-      return s / 0x7fffffff;
-    };
-    
-    messageBits = messageBits.map((bit) => {
-      const keyBit = random() > 0.5 ? 1 : 0;
-      return bit ^ keyBit;
-    });
-  }
-  
-  return encodeLSB(coverPixels, messageBits, width, height);
-};
-
-// XOR decryption with key
-const decodeWithKey = (
-  stegoPixels: Uint8ClampedArray,
-  key: string,
-  width: number,
-  height: number
-): string => {
-  let bits = decodeLSB(stegoPixels, width, height);
-  
-  if (key) {
-    const keyHash = key.split('').reduce((a, c) => ((a << 5) - a) + c.charCodeAt(0), 0);
-    const seed = Math.abs(keyHash);
-    
-    let s = seed;
-    const random = () => {
-      s = (s * 1103515245 + 12345) & 0x7fffffff;
-      return s / 0x7fffffff;
-    };
-    
-    bits = bits.map((bit) => {
-      const keyBit = random() > 0.5 ? 1 : 0;
-      return bit ^ keyBit;
-    });
-  }
-  
-  return bitsToText(bits);
-};
+import { computeImageMetrics } from '@shared/metrics';
+import { type CoverImage, type StegoCarrier } from '@shared/codec';
+import { type HiddenFile, type PreparedPayload, preparePayload } from '@shared/payload';
+import { DEFAULT_ROBUSTNESS, ROBUSTNESS_LEVELS, type RobustnessLevel } from '@shared/ecc';
+import {
+  type ClassicLsbParams,
+  type ColorChannel,
+  COLOR_CHANNELS,
+  DEFAULT_CLASSIC_PARAMS,
+  MAX_BITS_PER_CHANNEL,
+} from '@shared/classicLsb';
 
 export interface DecodeMetricsPayload {
   metrics: { psnr: number; mse: number; ssim: number; maxError: number } | null;
@@ -169,19 +54,39 @@ interface WorkspacePanelProps {
   onDecodeMetricsChange?: (payload: DecodeMetricsPayload) => void;
 }
 
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// File codecs (chunk, frames) cannot measure PSNR; unknown is not perfect
+const formatPsnr = (psnr: number | null): string => (psnr === null ? 'n/a' : `${psnr.toFixed(2)} dB`);
+
 const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }) => {
   const [coverImage, setCoverImage] = useState<File | null>(null);
   const [stegoImage, setStegoImage] = useState<File | null>(null);
   const [originalRefImage, setOriginalRefImage] = useState<File | null>(null);
   const [secretMessage, setSecretMessage] = useState('');
+  const [payloadKind, setPayloadKind] = useState<'text' | 'file'>('text');
+  const [secretFile, setSecretFile] = useState<File | null>(null);
+  const [payloadSizes, setPayloadSizes] = useState<PreparedPayload | null>(null);
+  const [robustness, setRobustness] = useState<RobustnessLevel>(DEFAULT_ROBUSTNESS);
   const [encodeKey, setEncodeKey] = useState('');
   const [decodeKey, setDecodeKey] = useState('');
   const [showEncodeKey, setShowEncodeKey] = useState(false);
   const [showDecodeKey, setShowDecodeKey] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [encodedImageUrl, setEncodedImageUrl] = useState<string | null>(null);
+  const [encodedPreviewUrl, setEncodedPreviewUrl] = useState<string | null>(null);
+  const [encodedFileType, setEncodedFileType] = useState('image/png');
+  const [outputFormat, setOutputFormat] = useState<StegoOutput>('auto');
   const [generatedPassword, setGeneratedPassword] = useState<string | null>(null);
   const [decodedMessage, setDecodedMessage] = useState<string | null>(null);
+  const [decodedFile, setDecodedFile] = useState<{ name: string; size: number; url: string } | null>(null);
+  const [correctedErrors, setCorrectedErrors] = useState<number | null>(null);
   const [encodingTime, setEncodingTime] = useState<number | null>(null);
   const [decodingTime, setDecodingTime] = useState<number | null>(null);
   const [psnrValue, setPsnrValue] = useState<number | null>(null);
@@ -193,7 +98,12 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
     maxError: number;
   } | null>(null);
   const [useNeuralNet, setUseNeuralNet] = useState(false);
+  const [useAdaptive, setUseAdaptive] = useState(false);
   const [modelsReady, setModelsReady] = useState(areModelsLoaded());
+  const [classicParams, setClassicParams] = useState<ClassicLsbParams>(DEFAULT_CLASSIC_PARAMS);
+  const [coverCarrier, setCoverCarrier] = useState<StegoCarrier | null>(null);
+  const [changeOverlayUrl, setChangeOverlayUrl] = useState<string | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
 
   useEffect(() => {
     onDecodeMetricsChange?.({
@@ -232,51 +142,6 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
     return ctx.getImageData(0, 0, size, size);
   };
 
-  // Compute MSE, PSNR, max abs error and a lightweight global SSIM over RGB channels
-  const computeImageMetrics = (
-    a: Uint8ClampedArray,
-    b: Uint8ClampedArray
-  ): { psnr: number; mse: number; ssim: number; maxError: number } => {
-    let sse = 0;
-    let count = 0;
-    let maxErr = 0;
-    let meanA = 0, meanB = 0;
-    for (let i = 0; i < a.length; i += 4) {
-      for (let c = 0; c < 3; c++) {
-        const va = a[i + c];
-        const vb = b[i + c];
-        const d = va - vb;
-        sse += d * d;
-        const ad = Math.abs(d);
-        if (ad > maxErr) maxErr = ad;
-        meanA += va;
-        meanB += vb;
-        count++;
-      }
-    }
-    const mse = sse / count;
-    const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
-    meanA /= count;
-    meanB /= count;
-    let varA = 0, varB = 0, cov = 0;
-    for (let i = 0; i < a.length; i += 4) {
-      for (let c = 0; c < 3; c++) {
-        const da = a[i + c] - meanA;
-        const db = b[i + c] - meanB;
-        varA += da * da;
-        varB += db * db;
-        cov += da * db;
-      }
-    }
-    varA /= count; varB /= count; cov /= count;
-    const C1 = (0.01 * 255) ** 2;
-    const C2 = (0.03 * 255) ** 2;
-    const ssim =
-      ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
-      ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
-    return { psnr, mse, ssim, maxError: maxErr };
-  };
-
   const getPasswordStrength = (password: string): { score: number; label: string; color: string } => {
     if (!password) return { score: 0, label: '', color: '' };
     
@@ -297,9 +162,103 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
 
   const keyStrength = getPasswordStrength(encodeKey);
 
-  const getMaxCapacity = (width: number, height: number): number => {
-    return Math.floor((width * height) / 8) - 1;
-  };
+  // Classic and adaptive modes embed at the cover's own size, so their
+  // capacity (and the classic PSNR estimate) needs the decoded cover
+  useEffect(() => {
+    if (!coverImage) {
+      setCoverCarrier(null);
+      return;
+    }
+    let cancelled = false;
+    readStegoCarrier(coverImage)
+      .then((carrier) => {
+        if (!cancelled) setCoverCarrier(carrier);
+      })
+      .catch((e) => console.error('Cover decode failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [coverImage]);
+
+  const useClassic = !useNeuralNet && !useAdaptive;
+  const encrypted = encodeKey.length > 0;
+  const options = useMemo(
+    () => codecOptions({ robustness, key: encodeKey, classic: classicParams }),
+    [robustness, encodeKey, classicParams]
+  );
+  const classicCapacity = useMemo(
+    () => (coverCarrier ? getCodecCapacity('classic', coverCarrier, options) : 0),
+    [coverCarrier, options]
+  );
+  // Expected PSNR for the current message, and with the cover filled to capacity
+  const classicPsnr = useMemo(() => {
+    const cover = coverCarrier?.image;
+    if (!cover) return null;
+    return {
+      current: payloadSizes ? estimateClassicEncodePsnr(cover, classicParams, payloadSizes.bytes.length, robustness, encrypted) : null,
+      full: estimateClassicEncodePsnr(cover, classicParams, classicCapacity, robustness, encrypted),
+    };
+  }, [coverCarrier, classicParams, robustness, encrypted, payloadSizes, classicCapacity]);
+
+  const payloadCapacity = useClassic
+    ? classicCapacity
+    : useAdaptive
+    ? coverCarrier ? getCodecCapacity('adaptive', coverCarrier, options) : 0
+    : getNeuralPayloadCapacity(robustness);
+
+  const setBitsPerChannel = (bitsPerChannel: number) =>
+    setClassicParams((params) => ({ ...params, bitsPerChannel }));
+  const toggleChannel = (channel: ColorChannel) =>
+    setClassicParams((params) => {
+      const channels = COLOR_CHANNELS.filter((c) => (c === channel) !== params.channels.includes(c));
+      return channels.length > 0 ? { ...params, channels } : params;
+    });
+  const toggleLuminance = () =>
+    setClassicParams((params) => ({ ...params, luminance: !params.luminance }));
+  const methodLabel = useAdaptive ? 'Adaptive' : useNeuralNet && modelsReady ? 'Neural Network' : 'LSB';
+  const methodTag = useAdaptive ? 'Adaptive' : useNeuralNet && modelsReady ? 'Neural' : 'LSB';
+
+  // Release the Blob URL of a previously extracted file
+  useEffect(() => {
+    return () => {
+      if (decodedFile) URL.revokeObjectURL(decodedFile.url);
+    };
+  }, [decodedFile]);
+
+  const formatBytes = (bytes: number): string =>
+    bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+  const readSecret = useCallback(async (): Promise<string | HiddenFile> =>
+    payloadKind === 'file' && secretFile
+      ? {
+        name: secretFile.name,
+        mimeType: secretFile.type,
+        data: new Uint8Array(await secretFile.arrayBuffer()),
+      }
+      : secretMessage,
+  [payloadKind, secretFile, secretMessage]);
+
+  // Raw and compressed payload sizes, recomputed shortly after the input changes
+  useEffect(() => {
+    const empty = payloadKind === 'text' ? secretMessage.length === 0 : !secretFile;
+    if (empty) {
+      setPayloadSizes(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const prepared = await preparePayload(await readSecret());
+        if (!cancelled) setPayloadSizes(prepared);
+      } catch (e) {
+        console.error('Payload size estimate failed:', e);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [payloadKind, secretMessage, secretFile, readSecret]);
 
   const handleEncode = useCallback(async () => {
     if (!coverImage) {
@@ -311,10 +270,12 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
       return;
     }
 
-    if (!secretMessage.trim()) {
+    if (payloadKind === 'text' ? !secretMessage.trim() : !secretFile) {
       toast({
-        title: "Missing message",
-        description: "Please enter a secret message to hide.",
+        title: payloadKind === 'text' ? "Missing message" : "Missing file",
+        description: payloadKind === 'text'
+          ? "Please enter a secret message to hide."
+          : "Please choose a file to hide.",
         variant: "destructive"
       });
       return;
@@ -322,73 +283,99 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
 
     setIsProcessing(true);
     setEncodedImageUrl(null);
+    setEncodedPreviewUrl(null);
     setGeneratedPassword(null);
     setEncodingTime(null);
     setPsnrValue(null);
+    setChangeOverlayUrl(null);
+    setShowChanges(false);
 
     const startTime = performance.now();
 
     try {
-      const img = new Image();
-      const imageUrl = URL.createObjectURL(coverImage);
-      
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = reject;
-        img.src = imageUrl;
-      });
-
-      const maxCapacity = getMaxCapacity(img.width, img.height);
-      if (secretMessage.length > maxCapacity) {
+      const secret = await readSecret();
+      const prepared = await preparePayload(secret);
+      // Classic and adaptive modes run the shared codecs at the cover's full size
+      const codecId = useClassic ? 'classic' : useAdaptive ? 'adaptive' : null;
+      const cover = codecId ? await readStegoCarrier(coverImage) : null;
+      const maxCapacity = codecId && cover
+        ? getCodecCapacity(codecId, cover, options)
+        : getNeuralPayloadCapacity(robustness);
+      if (prepared.bytes.length > maxCapacity) {
         toast({
-          title: "Message too long",
-          description: `Maximum ${maxCapacity} characters. Your message has ${secretMessage.length}.`,
+          title: payloadKind === 'file' ? "File too large" : "Message too long",
+          description: `Maximum ${formatBytes(maxCapacity)}. Your ${payloadKind === 'file' ? 'file' : 'message'} needs ${formatBytes(prepared.bytes.length)}${prepared.compressed ? ` even after compression (${formatBytes(prepared.rawSize)} raw)` : ''}.`,
           variant: "destructive"
         });
         setIsProcessing(false);
-        URL.revokeObjectURL(imageUrl);
         return;
       }
 
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx.drawImage(img, 0, 0);
-
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const originalPixels = new Uint8ClampedArray(imageData.data);
+      let stegoFile: Blob;
+      let stegoSamples: CoverImage | null;
+      let psnr: number | null;
+
+      if (codecId && cover) {
+        // Written directly rather than through a canvas so alpha-channel bits survive
+        const result = await encodeWithCodec(codecId, cover, secret, options, outputFormat);
+        psnr = result.psnr;
+        stegoFile = result.file;
+        stegoSamples = result.image;
+
+        if (useAdaptive && cover.image && result.image) {
+          const overlay = renderChangeOverlay(cover.image.pixels, result.image.pixels, cover.image.width, cover.image.height);
+          const overlayCanvas = document.createElement('canvas');
+          overlayCanvas.width = overlay.width;
+          overlayCanvas.height = overlay.height;
+          overlayCanvas.getContext('2d')!.putImageData(overlay, 0, 0);
+          setChangeOverlayUrl(overlayCanvas.toDataURL('image/png'));
+        }
+      } else {
+        if (!modelsReady) {
+          throw new Error(
+            'Neural models are not loaded. Upload/load the EncryptionNet and DecryptionNet ONNX models before encoding.'
+          );
+        }
+        // The models work on the browser's rendering of the cover; the codecs
+        // above decode it themselves, so covers browsers cannot show (TIFF)
+        // still work there
+        const img = new Image();
+        const imageUrl = URL.createObjectURL(coverImage);
+        await new Promise<void>((resolve, reject) => {
+          img.onload = () => resolve();
+          img.onerror = reject;
+          img.src = imageUrl;
+        });
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d')!;
+        canvas.width = img.width;
+        canvas.height = img.height;
+        ctx.drawImage(img, 0, 0);
+        URL.revokeObjectURL(imageUrl);
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
-      let stegoImageData: ImageData;
-      let psnr: number;
+        // Model-based encryption only — auto-generates a password
+        const result = await encodeWithNeuralNet(imageData, secret, undefined, robustness);
+        const stegoImageData = result.stegoImageData;
+        psnr = result.psnr;
+        setGeneratedPassword(result.password);
 
-      if (!modelsReady) {
-        throw new Error(
-          'Neural models are not loaded. Upload/load the EncryptionNet and DecryptionNet ONNX models before encoding.'
-        );
+        stegoSamples = fromImageData(stegoImageData);
+        stegoFile = await writeStegoFile(stegoSamples, outputFormat, null);
       }
-      // Model-based encryption only — auto-generates a password
-      const result = await encodeWithNeuralNet(imageData, secretMessage);
-      stegoImageData = result.stegoImageData;
-      psnr = result.psnr;
-      setGeneratedPassword(result.password);
 
+      const encodedUrl = await readAsDataUrl(stegoFile);
       setPsnrValue(psnr);
-
-      const newCanvas = document.createElement('canvas');
-      const newCtx = newCanvas.getContext('2d')!;
-      newCanvas.width = stegoImageData.width;
-      newCanvas.height = stegoImageData.height;
-      newCtx.putImageData(stegoImageData, 0, 0);
-
-      const encodedUrl = newCanvas.toDataURL('image/png');
       setEncodedImageUrl(encodedUrl);
+      setEncodedFileType(stegoFile.type);
+      // Most browsers cannot show TIFFs, so those are previewed as PNG
+      setEncodedPreviewUrl(
+        stegoFile.type === 'image/tiff' && stegoSamples ? toCanvas(stegoSamples).toDataURL('image/png') : encodedUrl
+      );
 
       const endTime = performance.now();
       setEncodingTime(Math.round(endTime - startTime));
 
-      URL.revokeObjectURL(imageUrl);
-
       // Save to history
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
@@ -411,11 +398,10 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
 
         // Upload stego image to storage
         try {
-          const stegoBlob = await (await fetch(encodedUrl)).blob();
           const stegoPath = `${user.id}/${Date.now()}_stego_${coverImage.name}`;
           const { error: stegoUpErr } = await supabase.storage
             .from('stego-images')
-            .upload(stegoPath, stegoBlob, { contentType: 'image/png' });
+            .upload(stegoPath, stegoFile, { contentType: stegoFile.type });
           if (!stegoUpErr) {
             const { data: stegoUrlData } = supabase.storage
               .from('stego-images')
@@ -430,8 +416,12 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
           status: 'success',
           filename: coverImage.name,
           encoding_time_ms: Math.round(endTime - startTime),
-          psnr_value: psnr,
-          message: secretMessage,
+          psnr_value: psnr !== null && Number.isFinite(psnr) ? psnr : null,
+          message: typeof secret === 'string' ? secret : null,
+          payload_type: typeof secret === 'string' ? 'text' : 'file',
+          payload_filename: typeof secret === 'string' ? null : secret.name,
+          payload_mime_type: typeof secret === 'string' ? null : secret.mimeType || null,
+          payload_size_bytes: typeof secret === 'string' ? prepared.rawSize : secret.data.length,
           cover_image_url: coverImageUrl,
           stego_image_url: stegoImageUrl,
         });
@@ -439,7 +429,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
 
       toast({
         title: "Encoding Complete! 🎉",
-        description: `Message hidden using ${useNeuralNet && modelsReady ? 'Neural Network' : 'LSB'}. PSNR: ${psnr.toFixed(2)} dB`,
+        description: `${payloadKind === 'file' ? 'File' : 'Message'} hidden using ${methodLabel}. PSNR: ${formatPsnr(psnr)}`,
       });
     } catch (error) {
       console.error('Encode error:', error);
@@ -452,7 +442,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
           operation_type: 'encode',
           status: 'error',
           filename: coverImage.name,
-          encryption_method: useNeuralNet && modelsReady ? 'Neural' : 'LSB',
+          encryption_method: methodTag,
           key_used: !useNeuralNet && encodeKey.length > 0,
           file_size_bytes: coverImage.size,
           image_format: coverImage.name.split('.').pop()?.toUpperCase() || 'PNG'
@@ -467,7 +457,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
     } finally {
       setIsProcessing(false);
     }
-  }, [coverImage, secretMessage, encodeKey, useNeuralNet, modelsReady]);
+  }, [coverImage, secretMessage, payloadKind, secretFile, readSecret, robustness, encodeKey, useNeuralNet, useAdaptive, useClassic, options, modelsReady, methodLabel, methodTag, outputFormat]);
 
   const handleDecode = useCallback(async () => {
     if (!stegoImage) {
@@ -479,7 +469,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
       return;
     }
 
-    if (!decodeKey || decodeKey.trim().length === 0) {
+    if (useNeuralNet && !decodeKey) {
       toast({
         title: "Password required",
         description: "Enter the password generated during encoding. Decryption is only possible with the correct password.",
@@ -490,6 +480,8 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
 
     setIsProcessing(true);
     setDecodedMessage(null);
+    setDecodedFile(null);
+    setCorrectedErrors(null);
     setDecodingTime(null);
     setRecoveredImageUrl(null);
     setDecodeMetrics(null);
@@ -497,55 +489,49 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
     const startTime = performance.now();
 
     try {
-      const img = new Image();
-      const imageUrl = URL.createObjectURL(stegoImage);
-      
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve();
-        img.onerror = reject;
-        img.src = imageUrl;
-      });
-
-      // Auto-rasterize the uploaded image into a canvas (effectively
-      // re-encoding it as raw RGBA pixels). For neural mode we normalize
-      // to the required 256×256 working size so compressed/resized PNGs,
-      // JPEGs, WebP, etc. can still be attempted. Note: lossy formats may
-      // have destroyed the LSB payload — decode will fail gracefully if so.
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d')!;
-      const targetNeural = useNeuralNet && modelsReady;
-      if (targetNeural) {
-        canvas.width = 256;
-        canvas.height = 256;
-        ctx.drawImage(img, 0, 0, 256, 256);
-      } else {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-      }
-
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-      let message: string;
+      let message: string | null;
+      let hiddenFile: HiddenFile | null;
+      let repaired: number | null;
       let recoveredImageData: ImageData | null = null;
 
-      if (!modelsReady) {
-        throw new Error(
-          'Neural models are not loaded. Upload/load the EncryptionNet and DecryptionNet ONNX models before decoding.'
-        );
+      let method = methodLabel;
+
+      if (!useNeuralNet) {
+        // Every shared codec is tried, whichever mode is selected; PNGs are
+        // read exactly since the canvas would disturb translucent pixels' low bits
+        const result = await decodeWithCodecs(await readStegoCarrier(stegoImage), decodeKey);
+        message = result.message;
+        hiddenFile = result.file;
+        repaired = result.correctedErrors;
+        method = result.method;
+      } else {
+        if (!modelsReady) {
+          throw new Error(
+            'Neural models are not loaded. Upload/load the EncryptionNet and DecryptionNet ONNX models before decoding.'
+          );
+        }
+        // The models need the browser's rendering, normalised to their 256×256
+        // working size so compressed/resized PNGs, JPEGs, WebP, etc. can still
+        // be attempted. Lossy formats may have destroyed the LSB payload —
+        // decode will fail gracefully if so.
+        const imageData = await fileToImageData(stegoImage, 256);
+
+        // Password is generated and managed by the model backend during encode;
+        // pass it through if the user supplied one, otherwise let the backend
+        // handle verification automatically.
+        const result = await decodeWithNeuralNet(imageData, decodeKey);
+        message = result.message;
+        hiddenFile = result.file;
+        repaired = result.correctedErrors;
+        recoveredImageData = result.recoveredImageData;
       }
-      // Password is generated and managed by the model backend during encode;
-      // pass it through if the user supplied one, otherwise let the backend
-      // handle verification automatically.
-      const result = await decodeWithNeuralNet(imageData, decodeKey.trim());
-      message = result.message;
-      recoveredImageData = result.recoveredImageData;
+      setCorrectedErrors(repaired);
 
       // If the LSB payload was destroyed by compression, the model still
       // recovers the image but the embedded text is gone. Fall back to the
       // backend record (encryption_history) for the original message that
       // was stored at encode time.
-      if (!message) {
+      if (useNeuralNet && !message && !hiddenFile) {
         try {
           const { data: { user: u } } = await supabase.auth.getUser();
           if (u) {
@@ -569,9 +555,14 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
         }
       }
 
-      setDecodedMessage(
-        message || '(no embedded text recovered — image-only output)'
-      );
+      if (hiddenFile) {
+        const blob = new Blob([hiddenFile.data], { type: hiddenFile.mimeType || 'application/octet-stream' });
+        setDecodedFile({ name: hiddenFile.name, size: hiddenFile.data.length, url: URL.createObjectURL(blob) });
+      } else {
+        setDecodedMessage(
+          message || '(no embedded text recovered — image-only output)'
+        );
+      }
 
       // If neural mode produced a recovered image, render it and (optionally)
       // compute metrics against a user-supplied original reference.
@@ -588,7 +579,12 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
               originalRefImage,
               recoveredImageData.width
             );
-            const metrics = computeImageMetrics(refData.data, recoveredImageData.data);
+            const metrics = computeImageMetrics(
+              refData.data,
+              recoveredImageData.data,
+              recoveredImageData.width,
+              recoveredImageData.height
+            );
             setDecodeMetrics(metrics);
           } catch (e) {
             console.error('Metrics computation failed:', e);
@@ -599,8 +595,6 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
       const endTime = performance.now();
       setDecodingTime(Math.round(endTime - startTime));
 
-      URL.revokeObjectURL(imageUrl);
-
       // Save to history
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
@@ -620,6 +614,25 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
           }
         } catch (e) { console.error('Stego upload failed:', e); }
 
+        // Keep a copy of an extracted file so it can be downloaded from history
+        let payloadUrl: string | null = null;
+        if (hiddenFile) {
+          try {
+            const filePath = `${user.id}/${Date.now()}_extracted_${hiddenFile.name}`;
+            const { error: fileUpErr } = await supabase.storage
+              .from('stego-images')
+              .upload(filePath, hiddenFile.data, {
+                contentType: hiddenFile.mimeType || 'application/octet-stream',
+              });
+            if (!fileUpErr) {
+              const { data: fileUrlData } = supabase.storage
+                .from('stego-images')
+                .getPublicUrl(filePath);
+              payloadUrl = fileUrlData.publicUrl;
+            }
+          } catch (e) { console.error('Extracted file upload failed:', e); }
+        }
+
         await supabase.from('encryption_history').insert({
           user_id: user.id,
           operation_type: 'decode',
@@ -627,13 +640,21 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
           filename: stegoImage.name,
           encoding_time_ms: Math.round(endTime - startTime),
           message: message,
+          payload_type: hiddenFile ? 'file' : 'text',
+          payload_filename: hiddenFile?.name ?? null,
+          payload_mime_type: hiddenFile?.mimeType || null,
+          payload_size_bytes: hiddenFile
+            ? hiddenFile.data.length
+            : new TextEncoder().encode(message ?? '').length,
+          payload_url: payloadUrl,
           stego_image_url: stegoImageUrl,
         });
       }
 
       toast({
         title: "Decoding Complete! 🎉",
-        description: `Message extracted using ${useNeuralNet && modelsReady ? 'Neural Network' : 'LSB'}!`,
+        description: `${hiddenFile ? 'File' : 'Message'} extracted using ${method}!` +
+          (repaired ? ` Repaired ${repaired} damaged byte${repaired === 1 ? '' : 's'}.` : ''),
       });
     } catch (error) {
       console.error('Decode error:', error);
@@ -646,7 +667,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
           operation_type: 'decode',
           status: 'error',
           filename: stegoImage.name,
-          encryption_method: useNeuralNet && modelsReady ? 'Neural' : 'LSB',
+          encryption_method: methodTag,
           key_used: !useNeuralNet && decodeKey.length > 0,
           file_size_bytes: stegoImage.size,
           image_format: stegoImage.name.split('.').pop()?.toUpperCase() || 'PNG'
@@ -661,7 +682,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
     } finally {
       setIsProcessing(false);
     }
-  }, [stegoImage, decodeKey, useNeuralNet, modelsReady, originalRefImage]);
+  }, [stegoImage, decodeKey, useNeuralNet, modelsReady, originalRefImage, methodLabel, methodTag]);
 
   const handleDownload = (url: string, filename: string) => {
     const link = document.createElement('a');
@@ -680,18 +701,31 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
       {/* Method Toggle */}
       <div className="flex items-center justify-center gap-2 p-3 rounded-lg bg-muted/30 border border-border/50">
         <Button
-          variant={!useNeuralNet ? "cyber" : "outline"}
+          variant={!useNeuralNet && !useAdaptive ? "cyber" : "outline"}
           size="sm"
-          onClick={() => setUseNeuralNet(false)}
+          onClick={() => { setUseNeuralNet(false); setUseAdaptive(false); }}
           className="flex items-center gap-2"
         >
           <Zap className="w-4 h-4" />
           LSB Method
         </Button>
+        <Button
+          variant={useAdaptive ? "cyber" : "outline"}
+          size="sm"
+          onClick={() => { setUseNeuralNet(false); setUseAdaptive(true); }}
+          className="flex items-center gap-2"
+        >
+          <Layers className="w-4 h-4" />
+          Adaptive
+        </Button>
         <Button
           variant={useNeuralNet ? "cyber" : "outline"}
           size="sm"
-          onClick={() => setUseNeuralNet(true)}
+          onClick={() => {
+            setUseNeuralNet(true);
+            setUseAdaptive(false);
+            if (outputFormat === 'tiff') setOutputFormat('auto');
+          }}
           disabled={!modelsReady}
           className="flex items-center gap-2"
         >
@@ -722,7 +756,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
               <div>
                 <h2 className="font-mono font-bold text-lg sm:text-xl text-foreground">Hide Message</h2>
                 <p className="text-xs sm:text-sm text-muted-foreground">
-                  {useNeuralNet && modelsReady ? 'Using Neural Network (CNN)' : 'Using LSB Steganography'}
+                  {useAdaptive ? 'Using Adaptive LSB (HILL + STC)' : useNeuralNet && modelsReady ? 'Using Neural Network (CNN)' : 'Using LSB Steganography'}
                 </p>
               </div>
             </div>
@@ -733,22 +767,182 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
                 onImageSelect={setCoverImage}
               />
               
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Button
+                    variant={payloadKind === 'text' ? "cyber" : "outline"}
+                    size="sm"
+                    onClick={() => setPayloadKind('text')}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <MessageSquare className="w-3 h-3 sm:w-4 sm:h-4" />
+                    Text
+                  </Button>
+                  <Button
+                    variant={payloadKind === 'file' ? "cyber" : "outline"}
+                    size="sm"
+                    onClick={() => setPayloadKind('file')}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <Paperclip className="w-3 h-3 sm:w-4 sm:h-4" />
+                    File
+                  </Button>
+                </div>
+                {payloadKind === 'text' ? (
+                  <>
+                    <Textarea
+                      placeholder="Enter your secret message to hide..."
+                      value={secretMessage}
+                      onChange={(e) => setSecretMessage(e.target.value)}
+                      className="bg-muted/30 border-border/50 focus:border-primary/50 focus:ring-primary/20 font-mono text-xs sm:text-sm min-h-[80px]"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {secretMessage.length} characters
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <Input
+                      type="file"
+                      onChange={(e) => setSecretFile(e.target.files?.[0] ?? null)}
+                      className="bg-muted/30 border-border/50 focus:border-primary/50 focus:ring-primary/20 font-mono text-xs sm:text-sm"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {secretFile ? secretFile.name : 'No file selected'}
+                    </p>
+                  </>
+                )}
+                {payloadSizes && (
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">
+                    Raw {formatBytes(payloadSizes.rawSize)} · Compressed {formatBytes(payloadSizes.compressedSize)}
+                    {payloadSizes.compressed ? ' (used)' : ' (not smaller, stored raw)'} ·{' '}
+                    <span className={payloadSizes.bytes.length > payloadCapacity ? 'text-destructive' : ''}>
+                      {formatBytes(payloadSizes.bytes.length)} of {formatBytes(payloadCapacity)} capacity
+                    </span>
+                  </p>
+                )}
+              </div>
+
               <div>
                 <label className="text-xs sm:text-sm font-medium text-muted-foreground mb-2 block flex items-center gap-2">
-                  <MessageSquare className="w-3 h-3 sm:w-4 sm:h-4" />
-                  Secret Message
+                  <ShieldCheck className="w-3 h-3 sm:w-4 sm:h-4" />
+                  Error Correction
                 </label>
-                <Textarea
-                  placeholder="Enter your secret message to hide..."
-                  value={secretMessage}
-                  onChange={(e) => setSecretMessage(e.target.value)}
-                  className="bg-muted/30 border-border/50 focus:border-primary/50 focus:ring-primary/20 font-mono text-xs sm:text-sm min-h-[80px]"
-                />
+                <div className="grid grid-cols-4 gap-2">
+                  {ROBUSTNESS_LEVELS.map((level) => (
+                    <Button
+                      key={level}
+                      variant={robustness === level ? "cyber" : "outline"}
+                      size="sm"
+                      onClick={() => setRobustness(level)}
+                      className="text-xs capitalize"
+                    >
+                      {level}
+                    </Button>
+                  ))}
+                </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {secretMessage.length} characters
+                  Higher levels survive more damaged bits but leave less room for the message.
                 </p>
               </div>
-              
+
+              <div>
+                <label className="text-xs sm:text-sm font-medium text-muted-foreground mb-2 block flex items-center gap-2">
+                  <FileImage className="w-3 h-3 sm:w-4 sm:h-4" />
+                  Output Format
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {/* Neural decoding loads the image in the browser, which cannot read TIFF */}
+                  {STEGO_OUTPUTS.map((output) => (
+                    <Button
+                      key={output.id}
+                      variant={outputFormat === output.id ? "cyber" : "outline"}
+                      size="sm"
+                      onClick={() => setOutputFormat(output.id)}
+                      disabled={useNeuralNet && output.id === 'tiff'}
+                      className="text-xs"
+                    >
+                      {output.label}
+                    </Button>
+                  ))}
+                </div>
+                {STEGO_OUTPUTS.find((output) => output.id === outputFormat)?.lossy ? (
+                  <p className="text-xs text-destructive mt-1">
+                    Lossy compression rewrites the low bits of every pixel and will destroy the hidden message. Pick a lossless format to keep it readable.
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Auto keeps BMP, TIFF and lossless WebP covers in their own format and writes PNG for the rest.
+                  </p>
+                )}
+              </div>
+
+              {useClassic && (
+                <div>
+                  <label className="text-xs sm:text-sm font-medium text-muted-foreground mb-2 block flex items-center gap-2">
+                    <SlidersHorizontal className="w-3 h-3 sm:w-4 sm:h-4" />
+                    LSB Parameters
+                  </label>
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-24 shrink-0">Bits / channel</span>
+                      <div className="grid grid-cols-4 gap-2 flex-1">
+                        {Array.from({ length: MAX_BITS_PER_CHANNEL }, (_, i) => i + 1).map((bits) => (
+                          <Button
+                            key={bits}
+                            variant={classicParams.bitsPerChannel === bits ? "cyber" : "outline"}
+                            size="sm"
+                            onClick={() => setBitsPerChannel(bits)}
+                            className="text-xs"
+                          >
+                            {bits}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-24 shrink-0">Channels</span>
+                      <div className="grid grid-cols-5 gap-2 flex-1">
+                        {COLOR_CHANNELS.map((channel) => (
+                          <Button
+                            key={channel}
+                            variant={!classicParams.luminance && classicParams.channels.includes(channel) ? "cyber" : "outline"}
+                            size="sm"
+                            onClick={() => toggleChannel(channel)}
+                            disabled={classicParams.luminance}
+                            className="text-xs uppercase"
+                          >
+                            {channel}
+                          </Button>
+                        ))}
+                        <Button
+                          variant={classicParams.luminance ? "cyber" : "outline"}
+                          size="sm"
+                          onClick={toggleLuminance}
+                          className="text-xs"
+                        >
+                          Luma
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">
+                    {coverCarrier ? (
+                      <>
+                        Capacity {formatBytes(classicCapacity)}
+                        {classicPsnr?.current != null && ` · Est. PSNR ${classicPsnr.current.toFixed(1)} dB`}
+                        {classicPsnr && Number.isFinite(classicPsnr.full) && ` · ${classicPsnr.full.toFixed(1)} dB when full`}
+                      </>
+                    ) : (
+                      'Choose a cover image to see capacity and PSNR.'
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    More bit planes and channels hold more but lower PSNR. Luma mode shifts R, G and B together so colours stay unchanged.
+                  </p>
+                </div>
+              )}
+
               {!useNeuralNet && (
                 <div>
                   <label className="text-xs sm:text-sm font-medium text-muted-foreground mb-2 block flex items-center gap-2">
@@ -809,7 +1003,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
                 size="lg" 
                 className="w-full text-sm sm:text-base"
                 onClick={handleEncode}
-                disabled={isProcessing || !coverImage || !secretMessage.trim()}
+                disabled={isProcessing || !coverImage || (payloadKind === 'text' ? !secretMessage.trim() : !secretFile)}
               >
                 {isProcessing ? (
                   <>
@@ -833,25 +1027,41 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
                       {encodingTime && (
                         <span className="text-xs text-muted-foreground">({encodingTime}ms)</span>
                       )}
-                      {psnrValue && (
-                        <span className="text-xs text-muted-foreground">PSNR: {psnrValue.toFixed(2)} dB</span>
-                      )}
+                      <span className="text-xs text-muted-foreground">PSNR: {formatPsnr(psnrValue)}</span>
                     </div>
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleDownload(encodedImageUrl, `stego_${Date.now()}.png`)}
+                      onClick={() => handleDownload(encodedImageUrl, `stego_${Date.now()}.${extensionFor(encodedFileType)}`)}
                       className="text-xs"
                     >
                       <Download className="w-3 h-3 mr-1" />
                       Download
                     </Button>
                   </div>
-                  <img 
-                    src={encodedImageUrl} 
-                    alt="Stego image" 
+                  <img
+                    src={showChanges && changeOverlayUrl ? changeOverlayUrl : encodedPreviewUrl ?? encodedImageUrl}
+                    alt={showChanges && changeOverlayUrl ? "Embedding change overlay" : "Stego image"}
                     className="w-full h-32 sm:h-40 object-contain rounded-lg border border-border/50 bg-muted/20"
                   />
+                  {changeOverlayUrl && (
+                    <div className="flex items-center justify-between flex-wrap gap-2">
+                      <p className="text-xs text-muted-foreground">
+                        {showChanges
+                          ? 'Red marks 8×8 blocks with changed pixels — brighter means more changes.'
+                          : 'Changes were steered into textured regions of the cover.'}
+                      </p>
+                      <Button
+                        variant={showChanges ? "cyber" : "outline"}
+                        size="sm"
+                        onClick={() => setShowChanges(!showChanges)}
+                        className="text-xs"
+                      >
+                        <Layers className="w-3 h-3 mr-1" />
+                        {showChanges ? 'Show image' : 'Show changes'}
+                      </Button>
+                    </div>
+                  )}
                   {generatedPassword && (
                     <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
                       <div className="flex items-center gap-2">
@@ -897,7 +1107,7 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
               <div>
                 <h2 className="font-mono font-bold text-lg sm:text-xl text-foreground">Reveal Message</h2>
                 <p className="text-xs sm:text-sm text-muted-foreground">
-                  {useNeuralNet && modelsReady ? 'Using Neural Network (CNN)' : 'Using LSB Steganography'}
+                  {useAdaptive ? 'Using Adaptive LSB (HILL + STC)' : useNeuralNet && modelsReady ? 'Using Neural Network (CNN)' : 'Using LSB Steganography'}
                 </p>
               </div>
             </div>
@@ -972,6 +1182,9 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
                       {decodingTime && (
                         <span className="text-xs text-muted-foreground">({decodingTime}ms)</span>
                       )}
+                      {correctedErrors !== null && correctedErrors > 0 && (
+                        <span className="text-xs text-warning">{correctedErrors} bytes repaired</span>
+                      )}
                     </div>
                     <Button
                       variant="outline"
@@ -993,6 +1206,34 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ onDecodeMetricsChange }
                 </div>
               )}
 
+              {decodedFile && (
+                <div className="p-3 sm:p-4 rounded-lg sm:rounded-xl bg-secondary/10 border border-secondary/20 animate-fade-in">
+                  <div className="flex items-center justify-between flex-wrap gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Paperclip className="w-3 h-3 sm:w-4 sm:h-4 text-secondary shrink-0" />
+                      <span className="text-xs sm:text-sm font-medium text-secondary truncate">
+                        {decodedFile.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        ({formatBytes(decodedFile.size)}{decodingTime ? `, ${decodingTime}ms` : ''})
+                      </span>
+                      {correctedErrors !== null && correctedErrors > 0 && (
+                        <span className="text-xs text-warning">{correctedErrors} bytes repaired</span>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownload(decodedFile.url, decodedFile.name)}
+                      className="text-xs"
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      Download
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {recoveredImageUrl && (
                 <div className="p-3 sm:p-4 rounded-lg sm:rounded-xl bg-primary/5 border border-primary/20 animate-fade-in space-y-3">
                   <div className="flex items-center justify-between flex-wrap gap-2">
@@ -23,6 +23,11 @@ export type Database = {
           id: string
           message: string | null
           operation_type: string
+          payload_filename: string | null
+          payload_mime_type: string | null
+          payload_size_bytes: number | null
+          payload_type: string
+          payload_url: string | null
           psnr_value: number | null
           ssim_score: number | null
           status: string
@@ -38,6 +43,11 @@ export type Database = {
           id?: string
           message?: string | null
           operation_type: string
+          payload_filename?: string | null
+          payload_mime_type?: string | null
+          payload_size_bytes?: number | null
+          payload_type?: string
+          payload_url?: string | null
           psnr_value?: number | null
           ssim_score?: number | null
           status?: string
@@ -53,6 +63,11 @@ export type Database = {
           id?: string
           message?: string | null
           operation_type?: string
+          payload_filename?: string | null
+          payload_mime_type?: string | null
+          payload_size_bytes?: number | null
+          payload_type?: string
+          payload_url?: string | null
           psnr_value?: number | null
           ssim_score?: number | null
           status?: string
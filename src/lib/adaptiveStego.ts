@@ -0,0 +1,30 @@
+// --------------------------------------------------------------------------
+// Change overlay for content-adaptive embedding ("adaptive" codec, stc.ts):
+// shows where HILL costs steered the syndrome-trellis coded changes.
+// --------------------------------------------------------------------------
+
+const OVERLAY_BLOCK = 8;
+
+// Dimmed grayscale cover with changed pixels highlighted per 8×8 block,
+// brighter red where more samples in the block changed
+export const renderChangeOverlay = (cover: Uint8Array, stego: Uint8Array, width: number, height: number): ImageData => {
+  const blocksX = Math.ceil(width / OVERLAY_BLOCK);
+  const blocks = new Uint32Array(blocksX * Math.ceil(height / OVERLAY_BLOCK));
+  for (let p = 0; p < width * height; p++) {
+    const changed = cover[p * 3] !== stego[p * 3] || cover[p * 3 + 1] !== stego[p * 3 + 1] || cover[p * 3 + 2] !== stego[p * 3 + 2];
+    if (changed) blocks[Math.floor(p / width / OVERLAY_BLOCK) * blocksX + Math.floor((p % width) / OVERLAY_BLOCK)]++;
+  }
+  const peak = blocks.reduce((max, count) => Math.max(max, count), 1);
+
+  const overlay = new ImageData(width, height);
+  for (let p = 0; p < width * height; p++) {
+    const gray = 0.35 * (0.299 * cover[p * 3] + 0.587 * cover[p * 3 + 1] + 0.114 * cover[p * 3 + 2]);
+    const density = blocks[Math.floor(p / width / OVERLAY_BLOCK) * blocksX + Math.floor((p % width) / OVERLAY_BLOCK)] / peak;
+    const heat = density > 0 ? 0.35 + 0.6 * density : 0;
+    overlay.data[p * 4] = gray + (255 - gray) * heat;
+    overlay.data[p * 4 + 1] = gray * (1 - heat) + 40 * heat;
+    overlay.data[p * 4 + 2] = gray * (1 - heat) + 40 * heat;
+    overlay.data[p * 4 + 3] = 255;
+  }
+  return overlay;
+};
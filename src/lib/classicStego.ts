@@ -0,0 +1,19 @@
+import { type CoverImage } from '@shared/codec';
+import { ENVELOPE_OVERHEAD_BYTES } from '@shared/crypto';
+import { type ClassicLsbParams, estimateClassicPsnr } from '@shared/classicLsb';
+import { DEFAULT_ROBUSTNESS, type RobustnessLevel } from '@shared/ecc';
+
+// --------------------------------------------------------------------------
+// Classic LSB in the browser: explicit bit planes, channels or luminance-only,
+// recorded in the image (see classicLsb.ts). Embedding and extraction go
+// through the codec registry (codecStego.ts); this adds the PSNR preview.
+// --------------------------------------------------------------------------
+
+// Expected PSNR for a prepared message of `payloadBytes` bytes
+export const estimateClassicEncodePsnr = (
+  cover: CoverImage,
+  params: ClassicLsbParams,
+  payloadBytes: number,
+  robustness: RobustnessLevel = DEFAULT_ROBUSTNESS,
+  encrypted: boolean = false
+): number => estimateClassicPsnr(cover.pixels, params, payloadBytes + (encrypted ? ENVELOPE_OVERHEAD_BYTES : 0), robustness);
@@ -0,0 +1,266 @@
+import { decryptPayload, ENVELOPE_OVERHEAD_BYTES, encryptPayload, isEncryptedEnvelope } from '@shared/crypto';
+import { type HiddenFile, openContent, preparePayload } from '@shared/payload';
+import { computeImageMetrics } from '@shared/metrics';
+import { decodePNG } from '@shared/png';
+import { decodeBMP } from '@shared/bmp';
+import { decodeGIF } from '@shared/gif';
+import { decodeTIFF } from '@shared/tiff';
+import { decodeWebP, isLosslessWebP } from '@shared/webp';
+import { indexedToRgb } from '@shared/indexedImage';
+import {
+  type CodecDetails,
+  type CodecOptions,
+  type CoverImage,
+  detectImageFormat,
+  type ImageFormat,
+  type StegoCarrier,
+} from '@shared/codec';
+import { findPayload, getCodec, sealPayload, unsealPayload } from '@shared/codecs';
+import { containerOverhead } from '@shared/container';
+import { DEFAULT_CLASSIC_PARAMS } from '@shared/classicLsb';
+import { DEFAULT_DWT_STEP } from '@shared/dwtQim';
+import { DEFAULT_LSB_EMBEDDING, DEFAULT_ROBUSTNESS } from '@shared/ecc';
+import { type CoverLayout, NO_LAYOUT, stegoFormat, writeStegoImage } from '@shared/outputFormat';
+
+// --------------------------------------------------------------------------
+// Browser side of the shared codec registry (codecs.ts): the same codecs the
+// edge functions use, run at the cover's full size. PNGs are read and
+// written directly rather than through a canvas, whose premultiplied alpha
+// would disturb the low bits of translucent pixels. Stego files are written
+// the same way in any lossless format (see outputFormat.ts); only the lossy
+// download formats go through a canvas.
+// --------------------------------------------------------------------------
+
+const MIME_TYPES: Record<string, string> = {
+  bmp: 'image/bmp',
+  png: 'image/png',
+  gif: 'image/gif',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+// Stego file formats offered for download: "auto" keeps the cover's format
+// where it is lossless, and the lossy formats destroy an LSB payload
+export const STEGO_OUTPUTS = [
+  { id: 'auto', label: 'Auto', lossy: false },
+  { id: 'png', label: 'PNG', lossy: false },
+  { id: 'bmp', label: 'BMP', lossy: false },
+  { id: 'tiff', label: 'TIFF', lossy: false },
+  { id: 'webp', label: 'WebP', lossy: false },
+  { id: 'jpeg', label: 'JPEG', lossy: true },
+  { id: 'webp-lossy', label: 'WebP (lossy)', lossy: true },
+] as const;
+
+export type StegoOutput = (typeof STEGO_OUTPUTS)[number]['id'];
+
+const LOSSY_QUALITY = 0.92;
+
+// File extension for a stego file's MIME type
+export const extensionFor = (mimeType: string): string =>
+  Object.entries(MIME_TYPES).find(([, type]) => type === mimeType)?.[0].replace('jpeg', 'jpg') ?? 'png';
+
+export const fromImageData = ({ width, height, data }: ImageData): CoverImage => {
+  const count = width * height;
+  const pixels = new Uint8Array(count * 3);
+  const alpha = new Uint8Array(count);
+  let opaque = true;
+  for (let p = 0; p < count; p++) {
+    pixels[p * 3] = data[p * 4];
+    pixels[p * 3 + 1] = data[p * 4 + 1];
+    pixels[p * 3 + 2] = data[p * 4 + 2];
+    alpha[p] = data[p * 4 + 3];
+    if (alpha[p] !== 255) opaque = false;
+  }
+  return { width, height, pixels, alpha: opaque ? null : alpha };
+};
+
+export const toCanvas = ({ width, height, pixels, alpha }: CoverImage): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const imageData = ctx.createImageData(width, height);
+  for (let p = 0; p < width * height; p++) {
+    imageData.data[p * 4] = pixels[p * 3];
+    imageData.data[p * 4 + 1] = pixels[p * 3 + 1];
+    imageData.data[p * 4 + 2] = pixels[p * 3 + 2];
+    imageData.data[p * 4 + 3] = alpha ? alpha[p] : 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+const rasterize = async (file: File): Promise<CoverImage> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return fromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+const decodeExact = async (bytes: Uint8Array, format: ImageFormat) => {
+  if (format === 'png') return decodePNG(bytes);
+  if (format === 'gif') return indexedToRgb(decodeGIF(bytes));
+  if (format === 'tiff') return decodeTIFF(bytes);
+  if (format === 'webp') return decodeWebP(bytes);
+  return decodeBMP(bytes);
+};
+
+// PNGs, GIFs, BMPs, TIFFs and lossless WebPs are decoded exactly; anything
+// else goes through the browser's decoder
+export const readStegoCarrier = async (file: File): Promise<StegoCarrier> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+  const exact = format === 'png' || format === 'gif' || format === 'bmp' || format === 'tiff' ||
+    (format === 'webp' && isLosslessWebP(bytes));
+  if (exact) {
+    try {
+      const { width, height, pixels, alpha } = await decodeExact(bytes, format);
+      return { format, bytes, image: { width, height, pixels, alpha } };
+    } catch (e) {
+      console.error(`${format.toUpperCase()} decode failed, rasterizing instead:`, e);
+    }
+  }
+  return { format, bytes, image: await rasterize(file) };
+};
+
+// Layout of a BMP, TIFF or lossless WebP cover, so a stego file in the
+// cover's format is written the same way
+const coverLayout = (cover: StegoCarrier): CoverLayout => {
+  try {
+    if (cover.format === 'bmp') return { ...NO_LAYOUT, bmp: decodeBMP(cover.bytes).layout };
+    if (cover.format === 'tiff') return { ...NO_LAYOUT, tiff: decodeTIFF(cover.bytes).layout };
+    if (cover.format === 'webp' && isLosslessWebP(cover.bytes)) {
+      return { ...NO_LAYOUT, webp: decodeWebP(cover.bytes).layout };
+    }
+  } catch (e) {
+    console.error(`${cover.format.toUpperCase()} layout unreadable, writing the default one:`, e);
+  }
+  return NO_LAYOUT;
+};
+
+const canvasBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(
+      // Browsers without an encoder for `type` quietly fall back to PNG
+      (blob) => (blob && blob.type === type ? resolve(blob) : reject(new Error(`This browser cannot write ${type}`))),
+      type,
+      LOSSY_QUALITY
+    )
+  );
+
+// Stego samples as a file in the chosen format. Lossless formats are written
+// exactly, in the cover's layout when they match its format; JPEG and lossy
+// WebP go through the browser's encoder and will not keep an LSB payload.
+export const writeStegoFile = async (
+  image: CoverImage,
+  output: StegoOutput,
+  cover: StegoCarrier | null
+): Promise<Blob> => {
+  if (output === 'jpeg') return canvasBlob(toCanvas(image), 'image/jpeg');
+  if (output === 'webp-lossy') return canvasBlob(toCanvas(image), 'image/webp');
+  const format = stegoFormat(cover?.format ?? 'other', output === 'auto' ? null : output);
+  const layout = cover && cover.format === format ? coverLayout(cover) : NO_LAYOUT;
+  return new Blob([await writeStegoImage(image, format, layout)], { type: MIME_TYPES[format] });
+};
+
+// Options for every codec, with the edge function's defaults
+export const codecOptions = (options: Partial<CodecOptions> = {}): CodecOptions => ({
+  robustness: DEFAULT_ROBUSTNESS,
+  key: '',
+  embedding: DEFAULT_LSB_EMBEDDING,
+  matrixEmbedding: false,
+  classic: DEFAULT_CLASSIC_PARAMS,
+  dwtStep: DEFAULT_DWT_STEP,
+  ...options,
+});
+
+// Largest prepared message the codec fits in the cover; the container header
+// and the key's AES-GCM envelope come out of it
+export const getCodecCapacity = (codecId: string, cover: StegoCarrier, options: CodecOptions): number => {
+  const capacity = getCodec(codecId).capacity(cover, options) - containerOverhead(codecId);
+  return Math.max(0, capacity - (options.key ? ENVELOPE_OVERHEAD_BYTES : 0));
+};
+
+export const encodeWithCodec = async (
+  codecId: string,
+  cover: StegoCarrier,
+  message: string | HiddenFile,
+  options: CodecOptions,
+  output: StegoOutput = 'auto'
+): Promise<{
+  file: Blob;
+  image: CoverImage | null;
+  psnr: number | null;
+  changedSamples: number | null;
+  embeddingEfficiency: number | null;
+  details: CodecDetails;
+}> => {
+  const codec = getCodec(codecId);
+  const { bytes: content, rawSize, compressed } = await preparePayload(message);
+  const capacity = getCodecCapacity(codecId, cover, options);
+  if (content.length > capacity) {
+    throw new Error(
+      `Payload too large: ${content.length} bytes (${rawSize} bytes raw). ` +
+        `Maximum ${capacity} bytes fit in this image with these settings at ${options.robustness} robustness.`
+    );
+  }
+  const payload = options.key ? await encryptPayload(content, options.key) : content;
+
+  const result = await codec.embed(cover, sealPayload(codec, options, payload, compressed), options);
+  const { image } = result;
+  const file = result.file
+    ? new Blob([result.file.bytes], { type: MIME_TYPES[result.file.format] ?? 'application/octet-stream' })
+    : await writeStegoFile(image!, output, cover);
+  return {
+    file,
+    image,
+    psnr: cover.image && image ? computeImageMetrics(cover.image.pixels, image.pixels, image.width, image.height, 3).psnr : null,
+    changedSamples: result.changedSamples,
+    embeddingEfficiency:
+      result.embeddedBits !== null && result.changedSamples !== null
+        ? result.changedSamples > 0 ? result.embeddedBits / result.changedSamples : Infinity
+        : null,
+    details: result.details,
+  };
+};
+
+// Tries every registered codec, as the decode edge function does
+export const decodeWithCodecs = async (
+  stego: StegoCarrier,
+  key: string = ''
+): Promise<{
+  message: string | null;
+  file: HiddenFile | null;
+  correctedErrors: number | null;
+  method: string;
+  details: CodecDetails;
+}> => {
+  const match = await findPayload(stego, key);
+  if (!match) {
+    throw new Error('No hidden payload found in this image. Check the key and that the image was saved losslessly.');
+  }
+  if (match.frame === null) throw new Error(`${match.codec.name}: ${match.error}`);
+
+  const { header, payload } = unsealPayload(match.codec, match.frame);
+  let data = payload;
+  if (header?.encrypted && !isEncryptedEnvelope(data)) {
+    throw new Error('Corrupt payload: the container is marked encrypted but holds no AES-GCM envelope');
+  }
+  if (isEncryptedEnvelope(data)) {
+    if (!key) throw new Error('This message is encrypted. Enter the key used during encoding.');
+    data = await decryptPayload(data, key);
+  }
+  const content = await openContent(data);
+  return {
+    message: content.kind === 'text' ? content.text : null,
+    file: content.kind === 'file' ? content.file : null,
+    correctedErrors: match.frame.correctedErrors,
+    method: match.codec.name,
+    details: match.frame.details,
+  };
+};
@@ -0,0 +1,162 @@
+import { computeImageMetrics } from '@shared/metrics';
+import { decodeJPEG, encodeJPEG } from '@shared/jpeg';
+import { embedEccFrame, type RobustnessLevel } from '@shared/ecc';
+import { DWT_STEPS, dwtCapacity, dwtSlotCount, embedDWT, extractDWT, readDWTBits } from '@shared/dwtQim';
+
+// --------------------------------------------------------------------------
+// Robustness vs. quality benchmark for the DWT-QIM mode (dwtQim.ts): embed a
+// random payload at every quantization step, run the stego image through
+// common processing and measure the raw bit error rate and whether the
+// error-corrected frame still decodes.
+// --------------------------------------------------------------------------
+
+export interface DwtAttack {
+  id: string;
+  label: string;
+  apply: (rgb: Uint8Array, width: number, height: number) => Uint8Array;
+}
+
+export interface DwtAttackResult {
+  attack: string;
+  ber: number; // fraction of carrier bits read wrong
+  recovered: boolean;
+}
+
+export interface DwtStepResult {
+  step: number;
+  psnr: number;
+  ssim: number;
+  results: DwtAttackResult[];
+}
+
+export interface DwtBenchmark {
+  width: number;
+  height: number;
+  payloadBytes: number;
+  robustness: RobustnessLevel;
+  steps: DwtStepResult[];
+}
+
+const clamp = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+
+const jpeg = (quality: number): DwtAttack['apply'] => (rgb, width, height) =>
+  decodeJPEG(encodeJPEG(width, height, rgb, quality)).pixels;
+
+// Box-Muller noise with a fixed seed so runs are comparable
+const gaussianNoise = (sigma: number): DwtAttack['apply'] => (rgb) => {
+  let seed = 0x2545f491;
+  const uniform = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return (seed + 1) / 4294967297;
+  };
+  const out = new Uint8Array(rgb.length);
+  for (let i = 0; i < rgb.length; i++) {
+    const n = Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+    out[i] = clamp(rgb[i] + sigma * n);
+  }
+  return out;
+};
+
+const boxBlur: DwtAttack['apply'] = (rgb, width, height) => {
+  const out = new Uint8Array(rgb.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        let n = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const yy = y + dy, xx = x + dx;
+            if (yy < 0 || yy >= height || xx < 0 || xx >= width) continue;
+            sum += rgb[(yy * width + xx) * 3 + c];
+            n++;
+          }
+        }
+        out[(y * width + x) * 3 + c] = clamp(sum / n);
+      }
+    }
+  }
+  return out;
+};
+
+// Bilinear resampling between two sizes
+const resample = (rgb: Uint8Array, w: number, h: number, tw: number, th: number): Uint8Array => {
+  const out = new Uint8Array(tw * th * 3);
+  for (let y = 0; y < th; y++) {
+    const sy = Math.min(h - 1, Math.max(0, ((y + 0.5) * h) / th - 0.5));
+    const y0 = Math.floor(sy), y1 = Math.min(h - 1, y0 + 1), fy = sy - y0;
+    for (let x = 0; x < tw; x++) {
+      const sx = Math.min(w - 1, Math.max(0, ((x + 0.5) * w) / tw - 0.5));
+      const x0 = Math.floor(sx), x1 = Math.min(w - 1, x0 + 1), fx = sx - x0;
+      for (let c = 0; c < 3; c++) {
+        const top = rgb[(y0 * w + x0) * 3 + c] * (1 - fx) + rgb[(y0 * w + x1) * 3 + c] * fx;
+        const bottom = rgb[(y1 * w + x0) * 3 + c] * (1 - fx) + rgb[(y1 * w + x1) * 3 + c] * fx;
+        out[(y * tw + x) * 3 + c] = clamp(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+  return out;
+};
+
+const rescale = (factor: number): DwtAttack['apply'] => (rgb, width, height) => {
+  const sw = Math.max(1, Math.round(width * factor));
+  const sh = Math.max(1, Math.round(height * factor));
+  return resample(resample(rgb, width, height, sw, sh), sw, sh, width, height);
+};
+
+export const DWT_ATTACKS: DwtAttack[] = [
+  { id: 'none', label: 'None', apply: (rgb) => rgb },
+  { id: 'jpeg90', label: 'JPEG q90', apply: jpeg(90) },
+  { id: 'jpeg75', label: 'JPEG q75', apply: jpeg(75) },
+  { id: 'noise', label: 'Noise σ=2', apply: gaussianNoise(2) },
+  { id: 'blur', label: 'Blur 3×3', apply: boxBlur },
+  { id: 'rescale', label: 'Rescale 75%', apply: rescale(0.75) },
+];
+
+const recovers = (rgb: Uint8Array, width: number, height: number, step: number, payload: Uint8Array): boolean => {
+  try {
+    const frame = extractDWT(rgb, width, height);
+    return !!frame && frame.step === step && frame.payload.length === payload.length &&
+      frame.payload.every((b, i) => b === payload[i]);
+  } catch {
+    return false;
+  }
+};
+
+export const runDwtBenchmark = async (
+  cover: { width: number; height: number; rgb: Uint8Array },
+  payloadBytes: number = 256,
+  robustness: RobustnessLevel = 'medium',
+  onProgress?: (done: number, total: number) => void
+): Promise<DwtBenchmark> => {
+  const { width, height, rgb } = cover;
+  const size = Math.min(payloadBytes, dwtCapacity(width, height, robustness));
+  if (size <= 0) throw new Error('Image is too small for the DWT benchmark.');
+  const payload = crypto.getRandomValues(new Uint8Array(size));
+  const expected = embedEccFrame(new Uint8Array(dwtSlotCount(width, height)), payload, robustness);
+
+  const total = DWT_STEPS.length * DWT_ATTACKS.length;
+  let done = 0;
+  const steps: DwtStepResult[] = [];
+  for (const step of DWT_STEPS) {
+    const stego = embedDWT(rgb, width, height, payload, robustness, step);
+    const quality = computeImageMetrics(rgb, stego, width, height, 3);
+    const results: DwtAttackResult[] = [];
+    for (const attack of DWT_ATTACKS) {
+      const attacked = attack.apply(stego, width, height);
+      const bits = readDWTBits(attacked, width, height, step);
+      let errors = 0;
+      for (let i = 0; i < bits.length; i++) if (bits[i] !== (expected[i] & 1)) errors++;
+      results.push({
+        attack: attack.id,
+        ber: errors / bits.length,
+        recovered: recovers(attacked, width, height, step, payload),
+      });
+      onProgress?.(++done, total);
+      // Let the UI repaint between attacks
+      await new Promise((r) => setTimeout(r, 0));
+    }
+    steps.push({ step, psnr: quality.psnr, ssim: quality.ssim, results });
+  }
+  return { width, height, payloadBytes: size, robustness, steps };
+};
@@ -1,5 +1,15 @@
 import * as ort from 'onnxruntime-web';
 import { supabase } from '@/integrations/supabase/client';
+import { decryptPayload, deriveKeystream, encryptPayload, ENVELOPE_OVERHEAD_BYTES } from '@shared/crypto';
+import { type HiddenFile, openContent, preparePayload } from '@shared/payload';
+import {
+  DEFAULT_ROBUSTNESS,
+  eccCapacity,
+  embedEccFrame,
+  extractEccFrame,
+  type RobustnessLevel,
+} from '@shared/ecc';
+import { containerOverhead, openContainer, sealContainer } from '@shared/container';
 
 // Configure ONNX Runtime — point to the CDN base for the EXACT installed
 // version so the loader fetches matching .wasm/.mjs files. Mismatched
@@ -18,9 +28,19 @@ const DEFAULT_HIDING_MODEL = 'encryption_net.onnx';
 const DEFAULT_REVEAL_MODEL = 'decryption_net.onnx';
 
 // --------------------------------------------------------------------------
-// Deterministic helpers (KEY + shuffle indices) — match between encode/decode
+// Scramble stages (XOR KEY + shuffle indices) — match between encode/decode
 // --------------------------------------------------------------------------
-const SEED = 42;
+// New images derive both from the password and a per-image salt stored in
+// the LSB header. Images from before that change used a constant seed and
+// are still read with the legacy scramble below.
+const LEGACY_SEED = 42;
+const SCRAMBLE_SALT_BYTES = 16;
+
+interface Scramble {
+  key: Uint8Array;
+  idx: Int32Array;
+  inv: Int32Array;
+}
 
 // Mulberry32 PRNG seeded deterministically (browser-stable, not numpy-compat)
 const makeRng = (seed: number) => {
@@ -34,41 +54,46 @@ const makeRng = (seed: number) => {
   };
 };
 
-let CACHED_KEY: Uint8Array | null = null;
-let CACHED_SHUFFLE_IDX: Int32Array | null = null;
-let CACHED_UNSHUFFLE_IDX: Int32Array | null = null;
-
-const getKey = (): Uint8Array => {
-  if (CACHED_KEY) return CACHED_KEY;
-  const rng = makeRng(SEED);
-  const key = new Uint8Array(IMG_SIZE * IMG_SIZE * 3);
-  for (let i = 0; i < key.length; i++) key[i] = Math.floor(rng() * 256);
-  CACHED_KEY = key;
-  return key;
-};
-
-const getShuffleIndices = (): { idx: Int32Array; inv: Int32Array } => {
-  if (CACHED_SHUFFLE_IDX && CACHED_UNSHUFFLE_IDX) {
-    return { idx: CACHED_SHUFFLE_IDX, inv: CACHED_UNSHUFFLE_IDX };
-  }
+// Fisher-Yates permutation of the pixel positions and its inverse
+const buildShuffle = (random: (i: number) => number): { idx: Int32Array; inv: Int32Array } => {
   const n = IMG_SIZE * IMG_SIZE;
   const idx = new Int32Array(n);
   for (let i = 0; i < n; i++) idx[i] = i;
-  const rng = makeRng(SEED + 1);
-  // Fisher-Yates
   for (let i = n - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
+    const j = Math.floor(random(i) * (i + 1));
     const t = idx[i]; idx[i] = idx[j]; idx[j] = t;
   }
   const inv = new Int32Array(n);
   for (let i = 0; i < n; i++) inv[idx[i]] = i;
-  CACHED_SHUFFLE_IDX = idx;
-  CACHED_UNSHUFFLE_IDX = inv;
   return { idx, inv };
 };
 
-const shufflePixels = (rgb: Uint8Array): Uint8Array => {
-  const { idx } = getShuffleIndices();
+let CACHED_LEGACY_SCRAMBLE: Scramble | null = null;
+
+const getLegacyScramble = (): Scramble => {
+  if (CACHED_LEGACY_SCRAMBLE) return CACHED_LEGACY_SCRAMBLE;
+  const keyRng = makeRng(LEGACY_SEED);
+  const key = new Uint8Array(IMG_SIZE * IMG_SIZE * 3);
+  for (let i = 0; i < key.length; i++) key[i] = Math.floor(keyRng() * 256);
+  const shuffleRng = makeRng(LEGACY_SEED + 1);
+  CACHED_LEGACY_SCRAMBLE = { key, ...buildShuffle(() => shuffleRng()) };
+  return CACHED_LEGACY_SCRAMBLE;
+};
+
+// Per-image scramble: one PBKDF2 + AES-CTR keystream provides the XOR key
+// followed by 32-bit words driving the shuffle
+const deriveScramble = async (password: string, salt: Uint8Array): Promise<Scramble> => {
+  const n = IMG_SIZE * IMG_SIZE;
+  const keyLength = n * 3;
+  const stream = await deriveKeystream(password, salt, keyLength + n * 4);
+  const key = stream.slice(0, keyLength);
+  const words = new DataView(stream.buffer, stream.byteOffset + keyLength, n * 4);
+  const shuffle = buildShuffle((i) => words.getUint32((n - 1 - i) * 4, false) / 4294967296);
+  return { key, ...shuffle };
+};
+
+const shufflePixels = (rgb: Uint8Array, scramble: Scramble): Uint8Array => {
+  const { idx } = scramble;
   const out = new Uint8Array(rgb.length);
   for (let i = 0; i < idx.length; i++) {
     const src = idx[i] * 3;
@@ -80,8 +105,8 @@ const shufflePixels = (rgb: Uint8Array): Uint8Array => {
   return out;
 };
 
-const unshufflePixels = (rgb: Uint8Array): Uint8Array => {
-  const { idx } = getShuffleIndices();
+const unshufflePixels = (rgb: Uint8Array, scramble: Scramble): Uint8Array => {
+  const { idx } = scramble;
   const out = new Uint8Array(rgb.length);
   for (let i = 0; i < idx.length; i++) {
     const src = i * 3;
@@ -93,19 +118,65 @@ const unshufflePixels = (rgb: Uint8Array): Uint8Array => {
   return out;
 };
 
-const xorKey = (rgb: Uint8Array): Uint8Array => {
-  const key = getKey();
+const xorKey = (rgb: Uint8Array, scramble: Scramble): Uint8Array => {
+  const { key } = scramble;
   const out = new Uint8Array(rgb.length);
   for (let i = 0; i < rgb.length; i++) out[i] = rgb[i] ^ key[i];
   return out;
 };
 
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+// Neural LSB payload formats. Images carry an error-corrected frame (see
+// @shared/ecc) holding a "neural" container (see @shared/container) around
+// scrambleSalt || AES-GCM envelope(message bytes); the password is verified
+// by authenticated decryption of the message. Images from before that carry
+// text terminated by END_MARKER under the constant-seed scramble:
+//   sha256(pw) "||" message
+
+// Decrypt scrambleSalt || envelope, verifying the password
+const openSealed = async (
+  sealed: Uint8Array,
+  password: string
+): Promise<{ data: Uint8Array; scramble: Scramble }> => {
+  const salt = sealed.slice(0, SCRAMBLE_SALT_BYTES);
+  let data: Uint8Array;
+  try {
+    data = await decryptPayload(sealed.subarray(SCRAMBLE_SALT_BYTES), password);
+  } catch {
+    throw new Error('Access denied: incorrect password.');
+  }
+  return { data, scramble: await deriveScramble(password, salt) };
+};
+
+// Parse an END_MARKER-terminated payload, verify the password and return the
+// message bytes with the scramble needed to recover the image
+const openLegacyPayload = async (
+  extracted: string,
+  password: string
+): Promise<{ data: Uint8Array; scramble: Scramble }> => {
+  if (!extracted.includes('||')) {
+    // LSB header missing → stego image was compressed/re-saved and the
+    // embedded payload was destroyed. Without it we cannot verify the
+    // password, so refuse to decrypt.
+    throw new Error(
+      'Access denied: this image does not contain a verifiable password payload (it may have been re-compressed). Upload the original lossless PNG produced by encoding.'
+    );
+  }
+  const sep = extracted.indexOf('||');
+  if ((await sha256Hex(password)) !== extracted.slice(0, sep)) {
+    throw new Error('Access denied: incorrect password.');
+  }
+  return { data: new TextEncoder().encode(extracted.slice(sep + 2)), scramble: getLegacyScramble() };
+};
+
 const sha256Hex = async (text: string): Promise<string> => {
   const buf = new TextEncoder().encode(text);
   const digest = await crypto.subtle.digest('SHA-256', buf);
-  return Array.from(new Uint8Array(digest))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
+  return toHex(new Uint8Array(digest));
 };
 
 // Generate a cryptographically strong password (alphanumeric + symbols)
@@ -118,22 +189,9 @@ const generatePassword = (length: number = 16): string => {
   return out;
 };
 
+// Legacy text payloads: 8-bit characters terminated by END_MARKER
 const END_MARKER = '1111111111111110';
 
-const embedTextLSB = (rgb: Uint8Array, text: string): Uint8Array => {
-  let bits = '';
-  for (const ch of text) bits += ch.charCodeAt(0).toString(2).padStart(8, '0');
-  bits += END_MARKER;
-  if (bits.length > rgb.length) {
-    throw new Error(`Payload too large: ${bits.length} bits > ${rgb.length} bytes`);
-  }
-  const out = new Uint8Array(rgb);
-  for (let i = 0; i < bits.length; i++) {
-    out[i] = (out[i] & 0xFE) | (bits.charCodeAt(i) - 48);
-  }
-  return out;
-};
-
 const extractTextLSB = (rgb: Uint8Array): string => {
   let bits = '';
   let chars = '';
@@ -420,11 +478,24 @@ const float32CHWToRGB = (t: Float32Array, size: number): Uint8Array => {
   return rgb;
 };
 
-// Encode: EncryptionNet → shuffle → XOR → LSB-embed(sha256(pw)||msg)
+// Largest prepared message (text bytes or file container, possibly deflated)
+// that fits the LSB plane of the 256x256 stego image once salted, sealed and
+// wrapped in an error-corrected frame at the given robustness
+export const getNeuralPayloadCapacity = (robustness: RobustnessLevel = DEFAULT_ROBUSTNESS): number =>
+  Math.max(
+    0,
+    eccCapacity(IMG_SIZE * IMG_SIZE * 3, robustness) -
+      containerOverhead('neural') -
+      SCRAMBLE_SALT_BYTES -
+      ENVELOPE_OVERHEAD_BYTES
+  );
+
+// Encode: EncryptionNet → shuffle → XOR → LSB-embed(ecc(salt | AES-GCM(msg)))
 export const encodeWithNeuralNet = async (
   coverImageData: ImageData,
-  message: string,
-  password?: string
+  message: string | HiddenFile,
+  password?: string,
+  robustness: RobustnessLevel = DEFAULT_ROBUSTNESS
 ): Promise<{ stegoImageData: ImageData; psnr: number; password: string }> => {
   if (!hidingSession) throw new Error('EncryptionNet model not loaded');
   // Auto-generate a strong password if one isn't supplied
@@ -442,14 +513,28 @@ export const encodeWithNeuralNet = async (
   const encTensor = out[hidingSession.outputNames[0]].data as Float32Array;
   const encRGB = float32CHWToRGB(encTensor, IMG_SIZE);
 
-  // 3. Shuffle pixels  4. XOR with KEY
-  const shuffled = shufflePixels(encRGB);
-  const xored = xorKey(shuffled);
-
-  // 5. LSB embed: sha256(password) || message  + end marker
-  const hash = await sha256Hex(finalPassword);
-  const payload = `${hash}||${message}`;
-  const cipher = embedTextLSB(xored, payload);
+  // 3. Shuffle pixels  4. XOR with KEY — both keyed by password + salt
+  const salt = crypto.getRandomValues(new Uint8Array(SCRAMBLE_SALT_BYTES));
+  const scramble = await deriveScramble(finalPassword, salt);
+  const shuffled = shufflePixels(encRGB, scramble);
+  const xored = xorKey(shuffled, scramble);
+
+  // 5. LSB embed: error-corrected frame of salt + AES-GCM sealed text or
+  //    file container, deflated when that is smaller
+  const { bytes: content, rawSize, compressed } = await preparePayload(message);
+  const capacity = getNeuralPayloadCapacity(robustness);
+  if (content.length > capacity) {
+    throw new Error(
+      `Payload too large: ${content.length} bytes (${rawSize} bytes raw). ` +
+        `Maximum ${capacity} bytes fit in this image at ${robustness} robustness.`
+    );
+  }
+  const envelope = await encryptPayload(content, finalPassword);
+  const sealed = new Uint8Array(salt.length + envelope.length);
+  sealed.set(salt, 0);
+  sealed.set(envelope, salt.length);
+  const flags = { compressed, encrypted: true, errorCorrected: true, keyOrdered: false };
+  const cipher = embedEccFrame(xored, sealContainer('neural', flags, {}, sealed), robustness);
 
   const stegoImageData = rgbToImageData(cipher, IMG_SIZE);
 
@@ -466,11 +551,18 @@ export const encodeWithNeuralNet = async (
   return { stegoImageData, psnr, password: finalPassword };
 };
 
-// Decode: LSB-extract → XOR → unshuffle → DecryptionNet; verify password hash
+// Decode: LSB-extract → decrypt msg (verifies password) → XOR → unshuffle → DecryptionNet
 export const decodeWithNeuralNet = async (
   stegoImageData: ImageData,
   password?: string
-): Promise<{ message: string; recoveredImageData: ImageData; verified: boolean }> => {
+): Promise<{
+  message: string | null;
+  file: HiddenFile | null;
+  data: Uint8Array;
+  recoveredImageData: ImageData;
+  verified: boolean;
+  correctedErrors: number | null; // null for images without error correction
+}> => {
   if (!revealSession) throw new Error('DecryptionNet model not loaded');
 
   // Force 256x256 RGB working buffer (image should already be 256 from encode)
@@ -481,31 +573,26 @@ export const decodeWithNeuralNet = async (
     throw new Error('Password required: enter the password generated during encoding to decrypt.');
   }
 
-  // 1. Extract LSB payload
-  const extracted = extractTextLSB(cipherRGB);
-  let actualMessage = '';
-  let verified = false;
-  if (extracted.includes('||')) {
-    const sep = extracted.indexOf('||');
-    const storedHash = extracted.slice(0, sep);
-    actualMessage = extracted.slice(sep + 2);
-    const inputHash = await sha256Hex(password);
-    verified = inputHash === storedHash;
-    if (!verified) {
-      throw new Error('Access denied: incorrect password.');
+  // 1. Extract LSB payload  2. Verify password / decrypt message
+  const eccFrame = extractEccFrame(cipherRGB);
+  let opened: { data: Uint8Array; scramble: Scramble };
+  if (eccFrame) {
+    const container = openContainer(eccFrame.payload);
+    if (!container) throw new Error('Unsupported hidden payload: the frame holds no container header.');
+    if (container.header.codec !== 'neural') {
+      throw new Error(`This image was written by the ${container.header.codec} codec. Turn neural mode off to decode it.`);
     }
+    opened = await openSealed(container.payload, password);
   } else {
-    // LSB header missing → stego image was compressed/re-saved and the
-    // embedded hash+payload was destroyed. Without the hash we cannot
-    // verify the password, so refuse to decrypt.
-    throw new Error(
-      'Access denied: this image does not contain a verifiable password payload (it may have been re-compressed). Upload the original lossless PNG produced by encoding.'
-    );
+    opened = await openLegacyPayload(extractTextLSB(cipherRGB), password);
   }
+  const { data, scramble } = opened;
+  const content = await openContent(data);
+  const verified = true;
 
   // 3. Recover image: XOR → unshuffle → DecryptionNet
-  const dexor = xorKey(cipherRGB);
-  const deshuffled = unshufflePixels(dexor);
+  const dexor = xorKey(cipherRGB, scramble);
+  const deshuffled = unshufflePixels(dexor, scramble);
   const recTensor = rgbToFloat32CHW(deshuffled, IMG_SIZE);
   const inT = new ort.Tensor('float32', recTensor, [1, 3, IMG_SIZE, IMG_SIZE]);
   const feeds: Record<string, ort.Tensor> = {};
@@ -515,7 +602,14 @@ export const decodeWithNeuralNet = async (
   const recoveredRGB = float32CHWToRGB(recoveredFloat, IMG_SIZE);
   const recoveredImageData = rgbToImageData(recoveredRGB, IMG_SIZE);
 
-  return { message: actualMessage, recoveredImageData, verified };
+  return {
+    message: content.kind === 'text' ? content.text : null,
+    file: content.kind === 'file' ? content.file : null,
+    data,
+    recoveredImageData,
+    verified,
+    correctedErrors: eccFrame ? eccFrame.correctedErrors : null,
+  };
 };
 
 // Calculate PSNR
@@ -0,0 +1,139 @@
+// Animated PNG frames for the multi-frame codec.
+//
+// An APNG is a PNG whose acTL chunk announces an animation: each frame is
+// an fcTL chunk (size, offset, delay, disposal, blending) followed by its
+// image data, in IDAT chunks for a first frame that doubles as the default
+// image and in fdAT chunks (a sequence number, then the data) otherwise.
+// fcTL and fdAT chunks share one sequence counter.
+//
+// Frames are read as raw 8-bit scanlines and written back by replacing only
+// their data chunks, renumbering the sequence, so timing, disposal, the
+// loop count and every other chunk stay as they were. Palette, 16-bit and
+// interlaced animations are not read.
+
+import { encodeChunk, filterScanlines, isPNG, type PngChunk, readChunks, unfilter } from "./png.ts";
+import { zlibDeflate, zlibInflate } from "./zlib.ts";
+
+// Channels per pixel of the colour types read here, and which is alpha
+const CHANNELS: Record<number, { channels: number; alpha: number }> = {
+  0: { channels: 1, alpha: -1 },
+  2: { channels: 3, alpha: -1 },
+  4: { channels: 2, alpha: 1 },
+  6: { channels: 4, alpha: 3 },
+};
+
+export interface ApngFrame {
+  width: number;
+  height: number;
+  chunks: number[]; // indices of the frame's IDAT or fdAT chunks
+}
+
+export interface ParsedAPNG {
+  channels: number;
+  alphaChannel: number; // index of the alpha sample within a pixel, -1 for none
+  chunks: PngChunk[];
+  frames: ApngFrame[];
+}
+
+// Whether the PNG is animated; acTL must come before the image data
+export const isAPNG = (data: Uint8Array): boolean =>
+  isPNG(data) && readChunks(data).some((chunk) => chunk.type === "acTL");
+
+export function parseAPNG(data: Uint8Array): ParsedAPNG {
+  const chunks = readChunks(data);
+  const ihdr = chunks[0];
+  if (!ihdr || ihdr.type !== "IHDR" || ihdr.body.length < 13) throw new Error("Corrupt PNG: missing or invalid IHDR");
+  if (!chunks.some((chunk) => chunk.type === "acTL")) throw new Error("Not an animated PNG");
+  const ihdrView = new DataView(ihdr.body.buffer, ihdr.body.byteOffset, ihdr.body.byteLength);
+  const width = ihdrView.getUint32(0, false);
+  const height = ihdrView.getUint32(4, false);
+  const [bitDepth, colorType, , , interlace] = ihdr.body.subarray(8, 13);
+  const layout = CHANNELS[colorType];
+  if (bitDepth !== 8 || !layout || interlace !== 0) {
+    throw new Error("Only 8-bit, non-interlaced greyscale or truecolour APNGs are supported");
+  }
+
+  const frames: ApngFrame[] = [];
+  let current: ApngFrame | null = null;
+  chunks.forEach((chunk, i) => {
+    if (chunk.type === "fcTL") {
+      if (chunk.body.length < 26) throw new Error("Corrupt APNG: short fcTL chunk");
+      const view = new DataView(chunk.body.buffer, chunk.body.byteOffset, chunk.body.byteLength);
+      current = { width: view.getUint32(4, false), height: view.getUint32(8, false), chunks: [] };
+      const [x, y] = [view.getUint32(12, false), view.getUint32(16, false)];
+      if (current.width === 0 || current.height === 0 || x + current.width > width || y + current.height > height) {
+        throw new Error(`Corrupt APNG: frame ${frames.length + 1} lies outside the image`);
+      }
+      frames.push(current);
+    } else if (chunk.type === "IDAT" || chunk.type === "fdAT") {
+      // IDAT before any fcTL is a default image outside the animation
+      if (current) current.chunks.push(i);
+    }
+  });
+  if (frames.some((frame) => frame.chunks.length === 0)) throw new Error("Corrupt APNG: frame without image data");
+  return { channels: layout.channels, alphaChannel: layout.alpha, chunks, frames };
+}
+
+const rowBytes = (parsed: ParsedAPNG, frame: ApngFrame): number => frame.width * parsed.channels;
+
+// A frame's unfiltered scanlines, without filter-type bytes
+export async function apngFrameSamples(parsed: ParsedAPNG, frame: ApngFrame): Promise<Uint8Array> {
+  const parts = frame.chunks.map((i) => {
+    const chunk = parsed.chunks[i];
+    return chunk.type === "fdAT" ? chunk.body.subarray(4) : chunk.body;
+  });
+  const compressed = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    compressed.set(part, pos);
+    pos += part.length;
+  }
+  const inflated = await zlibInflate(compressed);
+  const stride = rowBytes(parsed, frame);
+  if (inflated.length < (stride + 1) * frame.height) throw new Error("Corrupt APNG: frame data is truncated");
+  return unfilter(inflated, 0, stride, frame.height, parsed.channels);
+}
+
+// The APNG with new scanlines for some frames (null leaves a frame as it
+// is). A replaced frame's data goes into one chunk of its original type.
+export async function replaceApngFrames(
+  data: Uint8Array,
+  parsed: ParsedAPNG,
+  samples: (Uint8Array | null)[]
+): Promise<Uint8Array> {
+  const replaced = new Map<number, { type: string; data: Uint8Array }>();
+  const dropped = new Set<number>();
+  for (let f = 0; f < parsed.frames.length; f++) {
+    if (!samples[f]) continue;
+    const frame = parsed.frames[f];
+    const filtered = filterScanlines(samples[f]!, rowBytes(parsed, frame), frame.height, parsed.channels);
+    const [first, ...rest] = frame.chunks;
+    replaced.set(first, { type: parsed.chunks[first].type, data: await zlibDeflate(filtered) });
+    rest.forEach((i) => dropped.add(i));
+  }
+
+  const parts: Uint8Array[] = [data.subarray(0, parsed.chunks[0].start)];
+  let sequence = 0;
+  parsed.chunks.forEach((chunk, i) => {
+    if (dropped.has(i)) return;
+    const replacement = replaced.get(i);
+    if (chunk.type === "fcTL" || chunk.type === "fdAT") {
+      const body = replacement ? new Uint8Array(4 + replacement.data.length) : chunk.body.slice();
+      if (replacement) body.set(replacement.data, 4);
+      new DataView(body.buffer).setUint32(0, sequence++, false);
+      parts.push(encodeChunk(chunk.type, body));
+    } else if (replacement) {
+      parts.push(encodeChunk(chunk.type, replacement.data));
+    } else {
+      parts.push(data.subarray(chunk.start, chunk.end));
+    }
+  });
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
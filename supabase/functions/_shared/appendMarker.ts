@@ -0,0 +1,126 @@
+// Payloads appended after the end of the image file, for formats whose
+// pixels cannot be decoded here. The current layout is
+// "<<STEGO_START>>" | length u32 BE | payload | "<<STEGO_END>>"; the legacy
+// one is "STEGO" | length u32 BE | payload. Viewers ignore the trailing
+// bytes, but any re-save drops them.
+
+import { type Codec, type CodecCapabilities, type CodecFrame } from "./codec.ts";
+
+const START_MARKER = "<<STEGO_START>>";
+const END_MARKER = "<<STEGO_END>>";
+const LEGACY_MARKER = "STEGO";
+const LEGACY_MAX_LENGTH = 100000;
+
+// Find marker in byte array, searching from the end of the file backwards
+function findMarker(data: Uint8Array, marker: string): number {
+  const markerBytes = new TextEncoder().encode(marker);
+  for (let i = data.length - markerBytes.length; i >= 0; i--) {
+    let found = true;
+    for (let j = 0; j < markerBytes.length; j++) {
+      if (data[i + j] !== markerBytes[j]) {
+        found = false;
+        break;
+      }
+    }
+    if (found) return i;
+  }
+  return -1;
+}
+
+const plainFrame = (payload: Uint8Array): CodecFrame => ({
+  payload,
+  level: null,
+  embedding: null,
+  correctedErrors: null,
+  details: {},
+});
+
+const FILE_CAPABILITIES: Omit<CodecCapabilities, "writable"> = {
+  carrier: "file",
+  reads: ["bmp", "png", "gif", "tiff", "webp", "jpeg", "other"],
+  keyed: false,
+  lsbEmbedding: false,
+  matrixEmbedding: false,
+  alpha: false,
+  robust: false,
+};
+
+function extractAppended(data: Uint8Array): Uint8Array | null {
+  const startMarkerIdx = findMarker(data, START_MARKER);
+  const endMarkerIdx = findMarker(data, END_MARKER);
+  if (startMarkerIdx === -1 || endMarkerIdx === -1 || endMarkerIdx <= startMarkerIdx) return null;
+
+  const lengthStart = startMarkerIdx + START_MARKER.length;
+  if (lengthStart + 4 > data.length) return null;
+  const messageLength = new DataView(data.buffer, data.byteOffset).getUint32(lengthStart, false);
+  const messageStart = lengthStart + 4;
+  const messageEnd = messageStart + messageLength;
+  return messageEnd <= endMarkerIdx ? data.slice(messageStart, messageEnd) : null;
+}
+
+function extractLegacyAppended(data: Uint8Array): Uint8Array | null {
+  const markerIdx = findMarker(data, LEGACY_MARKER);
+  if (markerIdx === -1) return null;
+
+  const lengthStart = markerIdx + LEGACY_MARKER.length;
+  if (lengthStart + 4 > data.length) return null;
+  const messageLength = new DataView(data.buffer, data.byteOffset).getUint32(lengthStart, false);
+  if (messageLength <= 0 || messageLength >= LEGACY_MAX_LENGTH) return null;
+  const messageStart = lengthStart + 4;
+  const messageEnd = messageStart + messageLength;
+  return messageEnd <= data.length ? data.slice(messageStart, messageEnd) : null;
+}
+
+export const appendCodec: Codec = {
+  id: "append",
+  name: "Append-New",
+  capabilities: { ...FILE_CAPABILITIES, writable: true },
+
+  capacity: () => Infinity,
+
+  async embed(cover, payload) {
+    const encoder = new TextEncoder();
+    const start = encoder.encode(START_MARKER);
+    const end = encoder.encode(END_MARKER);
+    const bytes = new Uint8Array(cover.bytes.length + start.length + 4 + payload.length + end.length);
+    let offset = 0;
+    for (const part of [cover.bytes, start, new Uint8Array(4), payload, end]) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    new DataView(bytes.buffer).setUint32(cover.bytes.length + start.length, payload.length, false);
+    return {
+      image: null,
+      file: { bytes, format: cover.format },
+      embeddedBits: null,
+      changedSamples: null,
+      details: {},
+    };
+  },
+
+  async extract(stego) {
+    const payload = extractAppended(stego.bytes);
+    return payload ? plainFrame(payload) : null;
+  },
+
+  detect: async (stego) => extractAppended(stego.bytes) !== null,
+};
+
+export const legacyAppendCodec: Codec = {
+  id: "append-legacy",
+  name: "Append-Old",
+  capabilities: { ...FILE_CAPABILITIES, writable: false },
+
+  capacity: () => 0,
+
+  embed() {
+    return Promise.reject(new Error("The legacy appended layout is read-only; use the append mode"));
+  },
+
+  async extract(stego) {
+    const payload = extractLegacyAppended(stego.bytes);
+    return payload ? plainFrame(payload) : null;
+  },
+
+  detect: async (stego) => extractLegacyAppended(stego.bytes) !== null,
+};
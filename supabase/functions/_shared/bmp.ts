@@ -0,0 +1,454 @@
+// BMP codec shared by the steganography edge functions and the browser.
+//
+// Decodes OS/2 core, BITMAPINFOHEADER and BITMAPV4/V5 files: 1/4/8-bit
+// palettes (uncompressed, RLE4 or RLE8), 16/32-bit BI_BITFIELDS and
+// BI_ALPHABITFIELDS, 24-bit and 32-bit BI_RGB, bottom-up or top-down, into
+// packed 8-bit RGB plus an optional alpha plane. The file's layout is kept
+// alongside the samples so encodeBMP can write the stego image the way the
+// cover was written: same header (V4/V5 colour space and profile included),
+// orientation, bit depth, masks, palette and compression whenever that
+// layout holds the new samples exactly. When it cannot — LSB changes rarely
+// stay inside a palette or a 5-bit channel — the samples are written as
+// 24-bit, or 32-bit with an alpha mask, in the same header and orientation.
+
+export interface BmpMasks {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // 0 when the layout has no alpha
+}
+
+export interface BmpLayout {
+  header: Uint8Array; // info header as read; V4/V5 fields are written back unchanged
+  bitsPerPixel: number;
+  compression: number;
+  topDown: boolean;
+  masks: BmpMasks | null; // bitfield layouts, including the implicit 16-bit 5-5-5 one
+  palette: Uint8Array | null; // packed RGB, one entry per colour
+  alphaFill: number | null; // constant alpha (or 32-bit padding) byte, restored on write
+  profile: Uint8Array | null; // V5 embedded or linked colour profile
+}
+
+export interface DecodedBMP {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // packed RGB, 3 bytes per pixel
+  alpha: Uint8Array | null; // one byte per pixel, null when fully opaque
+  layout: BmpLayout;
+}
+
+const FILE_HEADER_BYTES = 14;
+const CORE_HEADER_BYTES = 12;
+const INFO_HEADER_BYTES = 40;
+const V4_HEADER_BYTES = 108;
+const V5_HEADER_BYTES = 124;
+
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+const RGB555: BmpMasks = { r: 0x7C00, g: 0x03E0, b: 0x001F, a: 0 };
+const BGRA: BmpMasks = { r: 0x00FF0000, g: 0x0000FF00, b: 0x000000FF, a: 0xFF000000 };
+const SRGB_COLOR_SPACE = 0x73524742; // "sRGB"
+const PELS_PER_METER = 2835; // 72 DPI
+
+export function isBMP(data: Uint8Array): boolean {
+  return data.length >= FILE_HEADER_BYTES + CORE_HEADER_BYTES && data[0] === 0x42 && data[1] === 0x4D;
+}
+
+// Position and width of a channel mask
+interface Field {
+  shift: number;
+  bits: number;
+}
+
+function maskField(mask: number): Field {
+  if (mask === 0) return { shift: 0, bits: 0 };
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  let bits = 0;
+  while (((mask >>> (shift + bits)) & 1) === 1 && shift + bits < 32) bits++;
+  return { shift, bits };
+}
+
+const expand = (value: number, bits: number): number =>
+  bits >= 8 ? value >>> (bits - 8) : Math.round((value * 255) / ((1 << bits) - 1));
+
+const quantize = (sample: number, bits: number): number =>
+  bits >= 8 ? sample << (bits - 8) : Math.round((sample * ((1 << bits) - 1)) / 255);
+
+const rowBytes = (width: number, bitsPerPixel: number): number => Math.ceil((width * bitsPerPixel) / 32) * 4;
+
+// Palette indices of an RLE8 or RLE4 bitmap, top row first. Pixels skipped
+// by delta escapes keep index 0.
+function decodeRLE(data: Uint8Array, offset: number, width: number, height: number, four: boolean): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  let x = 0;
+  let y = 0; // counted from the bottom row
+  let p = offset;
+  const put = (index: number) => {
+    if (x < width && y < height) indices[(height - 1 - y) * width + x] = index;
+    x++;
+  };
+  while (p + 1 < data.length && y < height) {
+    const count = data[p++];
+    const value = data[p++];
+    if (count > 0) {
+      for (let i = 0; i < count; i++) put(four ? (i & 1 ? value & 0x0F : value >> 4) : value);
+    } else if (value === 0) {
+      x = 0;
+      y++;
+    } else if (value === 1) {
+      break;
+    } else if (value === 2) {
+      x += data[p++];
+      y += data[p++];
+    } else {
+      const bytes = four ? Math.ceil(value / 2) : value;
+      for (let i = 0; i < value; i++) {
+        put(four ? (i & 1 ? data[p + (i >> 1)] & 0x0F : data[p + (i >> 1)] >> 4) : data[p + i]);
+      }
+      p += bytes + (bytes & 1);
+    }
+  }
+  return indices;
+}
+
+// RLE8 or RLE4 stream of palette indices, as encoded runs only
+function encodeRLE(indices: Uint8Array, width: number, height: number, four: boolean): Uint8Array {
+  const out: number[] = [];
+  for (let y = height - 1; y >= 0; y--) {
+    const row = y * width;
+    let x = 0;
+    while (x < width) {
+      const index = indices[row + x];
+      let run = 1;
+      while (x + run < width && run < 255 && indices[row + x + run] === index) run++;
+      out.push(run, four ? (index << 4) | index : index);
+      x += run;
+    }
+    out.push(0, y === 0 ? 1 : 0);
+  }
+  return Uint8Array.from(out);
+}
+
+export function decodeBMP(data: Uint8Array): DecodedBMP {
+  if (!isBMP(data)) throw new Error("Not a valid BMP file");
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const core = headerSize === CORE_HEADER_BYTES;
+  if (!core && headerSize < INFO_HEADER_BYTES) throw new Error(`Unsupported BMP header size: ${headerSize}`);
+  if (FILE_HEADER_BYTES + headerSize > data.length) throw new Error("Truncated BMP file");
+
+  const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+  const rawHeight = core ? view.getUint16(20, true) : view.getInt32(22, true);
+  const bitsPerPixel = view.getUint16(core ? 24 : 28, true);
+  const compression = core ? BI_RGB : view.getUint32(30, true);
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+  if (width <= 0 || height === 0) throw new Error(`Invalid BMP dimensions: ${width}x${rawHeight}`);
+
+  const rle = compression === BI_RLE8 || compression === BI_RLE4;
+  const bitfields = compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS;
+  const supported =
+    (compression === BI_RGB && [1, 4, 8, 16, 24, 32].includes(bitsPerPixel)) ||
+    (compression === BI_RLE8 && bitsPerPixel === 8) ||
+    (compression === BI_RLE4 && bitsPerPixel === 4) ||
+    (bitfields && (bitsPerPixel === 16 || bitsPerPixel === 32));
+  if (!supported) {
+    throw new Error(`Unsupported BMP format: ${bitsPerPixel} bits per pixel, compression ${compression}`);
+  }
+  if (rle && topDown) throw new Error("Invalid BMP: RLE bitmaps cannot be top-down");
+
+  // Masks sit in V3+ headers, or just after a 40-byte header
+  let tableOffset = FILE_HEADER_BYTES + headerSize;
+  let masks: BmpMasks | null = null;
+  if (bitfields) {
+    const at = headerSize >= 52 ? FILE_HEADER_BYTES + INFO_HEADER_BYTES : tableOffset;
+    const withAlpha = headerSize >= 56 || compression === BI_ALPHABITFIELDS;
+    masks = {
+      r: view.getUint32(at, true),
+      g: view.getUint32(at + 4, true),
+      b: view.getUint32(at + 8, true),
+      a: withAlpha ? view.getUint32(at + 12, true) : 0,
+    };
+    if (headerSize < 52) tableOffset += compression === BI_ALPHABITFIELDS ? 16 : 12;
+  } else if (bitsPerPixel === 16) {
+    masks = RGB555;
+  }
+
+  let palette: Uint8Array | null = null;
+  if (bitsPerPixel <= 8) {
+    const used = core ? 0 : view.getUint32(46, true);
+    const count = used > 0 && used <= 1 << bitsPerPixel ? used : 1 << bitsPerPixel;
+    const entry = core ? 3 : 4;
+    palette = new Uint8Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const at = tableOffset + i * entry;
+      if (at + 3 > data.length) break;
+      palette[i * 3] = data[at + 2];
+      palette[i * 3 + 1] = data[at + 1];
+      palette[i * 3 + 2] = data[at];
+    }
+  }
+
+  let profile: Uint8Array | null = null;
+  if (headerSize >= V5_HEADER_BYTES) {
+    const profileOffset = FILE_HEADER_BYTES + view.getUint32(14 + 112, true);
+    const profileSize = view.getUint32(14 + 116, true);
+    if (profileSize > 0 && profileOffset + profileSize <= data.length) {
+      profile = data.slice(profileOffset, profileOffset + profileSize);
+    }
+  }
+
+  const count = width * height;
+  const pixels = new Uint8Array(count * 3);
+  const alphaBytes = new Uint8Array(count);
+  let hasAlpha = false;
+
+  if (rle) {
+    const indices = decodeRLE(data, pixelOffset, width, height, compression === BI_RLE4);
+    for (let p = 0; p < count; p++) pixels.set(palette!.subarray(indices[p] * 3, indices[p] * 3 + 3), p * 3);
+  } else {
+    const stride = rowBytes(width, bitsPerPixel);
+    if (pixelOffset + stride * height > data.length) throw new Error("Truncated BMP file");
+    const fields = masks && { r: maskField(masks.r), g: maskField(masks.g), b: maskField(masks.b), a: maskField(masks.a) };
+    hasAlpha = bitsPerPixel === 32 || (fields !== null && fields.a.bits > 0);
+    for (let y = 0; y < height; y++) {
+      const row = pixelOffset + (topDown ? y : height - 1 - y) * stride;
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const o = p * 3;
+        if (palette) {
+          const bit = x * bitsPerPixel;
+          const index = (data[row + (bit >> 3)] >> (8 - bitsPerPixel - (bit & 7))) & ((1 << bitsPerPixel) - 1);
+          pixels.set(palette.subarray(index * 3, index * 3 + 3), o);
+        } else if (fields) {
+          const value = bitsPerPixel === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+          pixels[o] = expand((value & masks!.r) >>> fields.r.shift, fields.r.bits);
+          pixels[o + 1] = expand((value & masks!.g) >>> fields.g.shift, fields.g.bits);
+          pixels[o + 2] = expand((value & masks!.b) >>> fields.b.shift, fields.b.bits);
+          if (fields.a.bits > 0) alphaBytes[p] = expand((value & masks!.a) >>> fields.a.shift, fields.a.bits);
+        } else {
+          const at = row + x * (bitsPerPixel / 8);
+          pixels[o] = data[at + 2];
+          pixels[o + 1] = data[at + 1];
+          pixels[o + 2] = data[at];
+          if (bitsPerPixel === 32) alphaBytes[p] = data[at + 3];
+        }
+      }
+    }
+  }
+
+  // A constant alpha byte (often 0 padding in 32-bit BI_RGB files) is not
+  // an alpha plane; it is remembered and written back as it was
+  let alphaFill: number | null = null;
+  if (hasAlpha && alphaBytes.every((a) => a === alphaBytes[0])) {
+    alphaFill = alphaBytes[0];
+    hasAlpha = false;
+  }
+
+  return {
+    width,
+    height,
+    pixels,
+    alpha: hasAlpha ? alphaBytes : null,
+    layout: {
+      header: data.slice(FILE_HEADER_BYTES, FILE_HEADER_BYTES + headerSize),
+      bitsPerPixel,
+      compression,
+      topDown,
+      masks,
+      palette,
+      alphaFill,
+      profile,
+    },
+  };
+}
+
+// Palette indices of every pixel, or null when a colour is not in the palette
+function paletteIndices(pixels: Uint8Array, palette: Uint8Array): Uint8Array | null {
+  const lookup = new Map<number, number>();
+  for (let i = palette.length / 3 - 1; i >= 0; i--) {
+    lookup.set((palette[i * 3] << 16) | (palette[i * 3 + 1] << 8) | palette[i * 3 + 2], i);
+  }
+  const indices = new Uint8Array(pixels.length / 3);
+  for (let p = 0; p < indices.length; p++) {
+    const index = lookup.get((pixels[p * 3] << 16) | (pixels[p * 3 + 1] << 8) | pixels[p * 3 + 2]);
+    if (index === undefined) return null;
+    indices[p] = index;
+  }
+  return indices;
+}
+
+// Whether every sample survives quantization to the masks' channel widths
+function masksHold(image: { pixels: Uint8Array; alpha: Uint8Array | null }, masks: BmpMasks): boolean {
+  const fields = [maskField(masks.r), maskField(masks.g), maskField(masks.b)];
+  const exact = fields.map(({ bits }) => Array.from({ length: 256 }, (_, s) => expand(quantize(s, bits), bits) === s));
+  for (let i = 0; i < image.pixels.length; i++) {
+    if (!exact[i % 3][image.pixels[i]]) return false;
+  }
+  if (!image.alpha) return true;
+  const { bits } = maskField(masks.a);
+  return bits > 0 && image.alpha.every((a) => expand(quantize(a, bits), bits) === a);
+}
+
+// Writes 8-bit RGB(A) as a BMP in `layout` (see the top of this file), or as
+// a bottom-up 24-bit file — 32-bit V4 with an alpha mask when there is
+// alpha — when no layout is given
+export function encodeBMP(
+  image: { width: number; height: number; pixels: Uint8Array; alpha: Uint8Array | null },
+  layout: BmpLayout | null = null
+): Uint8Array {
+  const { width, height, pixels, alpha } = image;
+  const count = width * height;
+
+  // Pick the first layout that holds the samples exactly
+  let bitsPerPixel = alpha ? 32 : 24;
+  let compression = alpha ? BI_BITFIELDS : BI_RGB;
+  let masks: BmpMasks | null = alpha ? BGRA : null;
+  let indices: Uint8Array | null = null;
+  let palette: Uint8Array | null = null;
+  if (layout?.palette && !alpha) {
+    indices = paletteIndices(pixels, layout.palette);
+    if (indices) {
+      ({ bitsPerPixel, compression, palette } = layout);
+      masks = null;
+    }
+  }
+  if (!indices && layout?.masks && masksHold(image, layout.masks)) {
+    ({ bitsPerPixel, compression, masks } = layout);
+  } else if (!indices && layout && layout.bitsPerPixel === 32 && layout.compression === BI_RGB) {
+    bitsPerPixel = 32;
+    compression = BI_RGB;
+    masks = null;
+  }
+
+  const topDown = (layout?.topDown ?? false) && compression !== BI_RLE8 && compression !== BI_RLE4;
+  // The cover's header when it can describe this layout; an alpha mask needs
+  // a V3+ header (or BI_ALPHABITFIELDS), so older ones are upgraded to V4
+  const alphaMask = masks !== null && masks.a !== 0 && compression !== BI_ALPHABITFIELDS;
+  const coreLayout = compression === BI_RGB && (bitsPerPixel === 24 || indices !== null);
+  let header: Uint8Array;
+  if (layout && (layout.header.length >= (alphaMask ? 56 : INFO_HEADER_BYTES) ||
+    (layout.header.length === CORE_HEADER_BYTES && coreLayout))) {
+    header = new Uint8Array(layout.header);
+  } else {
+    header = new Uint8Array(alphaMask ? V4_HEADER_BYTES : INFO_HEADER_BYTES);
+    const fresh = new DataView(header.buffer);
+    if (layout && layout.header.length >= INFO_HEADER_BYTES) {
+      header.set(layout.header.subarray(0, INFO_HEADER_BYTES));
+    } else {
+      fresh.setUint32(24, PELS_PER_METER, true);
+      fresh.setUint32(28, PELS_PER_METER, true);
+    }
+    fresh.setUint32(0, header.length, true);
+    if (header.length >= V4_HEADER_BYTES) fresh.setUint32(56, SRGB_COLOR_SPACE, true);
+  }
+  const core = header.length === CORE_HEADER_BYTES;
+  const h = new DataView(header.buffer);
+
+  // Pixel data
+  let body: Uint8Array;
+  if (indices && (compression === BI_RLE8 || compression === BI_RLE4)) {
+    body = encodeRLE(indices, width, height, compression === BI_RLE4);
+  } else {
+    const stride = rowBytes(width, bitsPerPixel);
+    body = new Uint8Array(stride * height);
+    const out = new DataView(body.buffer);
+    const fields = masks && { r: maskField(masks.r), g: maskField(masks.g), b: maskField(masks.b), a: maskField(masks.a) };
+    for (let y = 0; y < height; y++) {
+      const row = (topDown ? y : height - 1 - y) * stride;
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const o = p * 3;
+        if (indices) {
+          const bit = x * bitsPerPixel;
+          body[row + (bit >> 3)] |= indices[p] << (8 - bitsPerPixel - (bit & 7));
+        } else if (fields) {
+          const a = alpha ? alpha[p] : layout?.alphaFill ?? 255;
+          const value =
+            ((quantize(pixels[o], fields.r.bits) << fields.r.shift) |
+              (quantize(pixels[o + 1], fields.g.bits) << fields.g.shift) |
+              (quantize(pixels[o + 2], fields.b.bits) << fields.b.shift) |
+              (fields.a.bits > 0 ? quantize(a, fields.a.bits) << fields.a.shift : 0)) >>> 0;
+          if (bitsPerPixel === 16) out.setUint16(row + x * 2, value, true);
+          else out.setUint32(row + x * 4, value, true);
+        } else {
+          const at = row + x * (bitsPerPixel / 8);
+          body[at] = pixels[o + 2];
+          body[at + 1] = pixels[o + 1];
+          body[at + 2] = pixels[o];
+          if (bitsPerPixel === 32) body[at + 3] = alpha ? alpha[p] : layout?.alphaFill ?? 0;
+        }
+      }
+    }
+  }
+
+  // Info header fields
+  if (core) {
+    h.setUint16(4, width, true);
+    h.setUint16(6, height, true);
+    h.setUint16(8, 1, true);
+    h.setUint16(10, bitsPerPixel, true);
+  } else {
+    h.setInt32(4, width, true);
+    h.setInt32(8, topDown ? -height : height, true);
+    h.setUint16(12, 1, true);
+    h.setUint16(14, bitsPerPixel, true);
+    h.setUint32(16, compression, true);
+    h.setUint32(20, body.length, true);
+    h.setUint32(32, indices ? palette!.length / 3 : 0, true);
+    h.setUint32(36, 0, true);
+    if (masks && header.length >= 52) {
+      h.setUint32(40, masks.r, true);
+      h.setUint32(44, masks.g, true);
+      h.setUint32(48, masks.b, true);
+      if (header.length >= 56) h.setUint32(52, masks.a, true);
+    }
+  }
+
+  // Masks after a 40-byte header, then the palette
+  const maskTable =
+    masks && header.length < 52 && (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS)
+      ? Uint32Array.of(masks.r, masks.g, masks.b, ...(compression === BI_ALPHABITFIELDS ? [masks.a] : []))
+      : null;
+  const entry = core ? 3 : 4;
+  const paletteBytes = indices ? (palette!.length / 3) * entry : 0;
+  const pixelOffset = FILE_HEADER_BYTES + header.length + (maskTable ? maskTable.length * 4 : 0) + paletteBytes;
+  const profile = header.length >= V5_HEADER_BYTES ? layout?.profile ?? null : null;
+  const fileSize = pixelOffset + body.length + (profile?.length ?? 0);
+  if (header.length >= V5_HEADER_BYTES) {
+    h.setUint32(112, profile ? pixelOffset - FILE_HEADER_BYTES + body.length : 0, true);
+    h.setUint32(116, profile?.length ?? 0, true);
+  }
+
+  const bmp = new Uint8Array(fileSize);
+  const view = new DataView(bmp.buffer);
+  bmp[0] = 0x42; // 'B'
+  bmp[1] = 0x4D; // 'M'
+  view.setUint32(2, fileSize, true);
+  view.setUint32(10, pixelOffset, true);
+  bmp.set(header, FILE_HEADER_BYTES);
+  let offset = FILE_HEADER_BYTES + header.length;
+  if (maskTable) {
+    for (const mask of maskTable) {
+      view.setUint32(offset, mask, true);
+      offset += 4;
+    }
+  }
+  if (indices) {
+    for (let i = 0; i < palette!.length / 3; i++) {
+      bmp[offset] = palette![i * 3 + 2];
+      bmp[offset + 1] = palette![i * 3 + 1];
+      bmp[offset + 2] = palette![i * 3];
+      offset += entry;
+    }
+  }
+  bmp.set(body, pixelOffset);
+  if (profile) bmp.set(profile, pixelOffset + body.length);
+  return bmp;
+}
@@ -0,0 +1,310 @@
+// Classic LSB embedding with explicit parameters, shared by the edge
+// functions and the browser.
+//
+// The carrier is the low 1–4 bit planes of a chosen subset of the R, G, B
+// and alpha samples, or, in luminance mode, the low bits of each pixel's
+// luma Y = (77R + 150G + 29B) >> 8. Luma is changed by shifting all three
+// channels by the same amount (the weights sum to 256, so Y moves by exactly
+// that amount and the chroma is untouched). Pixels whose channel spread
+// leaves no room for the shift are skipped; the shift does not change the
+// spread, so the decoder skips the same pixels.
+//
+// The parameters are stored in a fixed 32-bit header in the LSBs of the R,
+// G and B samples of the first HEADER_PIXELS pixels: magic 0xC1A5, the
+// parameter byte and its complement. The error-corrected frame (ecc.ts)
+// follows in the remaining pixels, in a key-seeded slot order when a key is
+// given. Each sample is written with optimal pixel adjustment: of the values
+// carrying the required low bits, the one closest to the original.
+//
+// classicCodec is the "classic" method.
+
+import { eccCapacity, type EccFrame, eccFrameBits, embedEccFrame, extractEccFrame, type RobustnessLevel } from "./ecc.ts";
+import { gatherSamples, keyedSampleOrder, scatterSamples } from "./sampleOrder.ts";
+import { type Codec, fromEccFrame, requireImage } from "./codec.ts";
+
+export type ColorChannel = "r" | "g" | "b" | "a";
+
+export const COLOR_CHANNELS: ColorChannel[] = ["r", "g", "b", "a"];
+export const MAX_BITS_PER_CHANNEL = 4;
+
+export interface ClassicLsbParams {
+  bitsPerChannel: number; // 1–4 low bit planes per sample
+  channels: ColorChannel[]; // in R, G, B, A order; ignored in luminance mode
+  luminance: boolean;
+}
+
+export const DEFAULT_CLASSIC_PARAMS: ClassicLsbParams = { bitsPerChannel: 1, channels: ["r", "g", "b"], luminance: false };
+
+export type ClassicFrame = EccFrame & { params: ClassicLsbParams };
+
+export interface ClassicEmbedResult {
+  pixels: Uint8Array;
+  alpha: Uint8Array | null;
+  embeddedBits: number;
+  changedSamples: number;
+}
+
+const HEADER_MAGIC = 0xC1A5;
+const HEADER_BITS = 32;
+const HEADER_PIXELS = Math.ceil(HEADER_BITS / 3);
+const LUMINANCE_FLAG = 0x40;
+
+export function parseClassicParams(bits: unknown, channels: unknown, luminance: unknown): ClassicLsbParams {
+  let bitsPerChannel = DEFAULT_CLASSIC_PARAMS.bitsPerChannel;
+  if (bits !== null && bits !== undefined && bits !== "") {
+    bitsPerChannel = Number(bits);
+    if (!Number.isInteger(bitsPerChannel) || bitsPerChannel < 1 || bitsPerChannel > MAX_BITS_PER_CHANNEL) {
+      throw new Error(`Bits per channel must be 1–${MAX_BITS_PER_CHANNEL}, got ${String(bits)}`);
+    }
+  }
+
+  let selected = DEFAULT_CLASSIC_PARAMS.channels;
+  if (channels !== null && channels !== undefined && channels !== "") {
+    const letters = String(channels).toLowerCase().replace(/[\s,]/g, "");
+    const unknown = [...letters].find((c) => !(COLOR_CHANNELS as string[]).includes(c));
+    if (unknown) throw new Error(`Unknown channel "${unknown}": use any of r, g, b, a`);
+    selected = COLOR_CHANNELS.filter((c) => letters.includes(c));
+  }
+
+  const isLuminance = luminance === true || luminance === "true";
+  return {
+    bitsPerChannel,
+    channels: isLuminance ? DEFAULT_CLASSIC_PARAMS.channels : selected,
+    luminance: isLuminance,
+  };
+}
+
+const luma = (rgb: Uint8Array, p: number): number => (77 * rgb[p * 3] + 150 * rgb[p * 3 + 1] + 29 * rgb[p * 3 + 2]) >> 8;
+
+function channelSpread(rgb: Uint8Array, p: number): [number, number] {
+  const r = rgb[p * 3], g = rgb[p * 3 + 1], b = rgb[p * 3 + 2];
+  return [Math.min(r, g, b), Math.max(r, g, b)];
+}
+
+// Pixels that can take every luma residue modulo 2^bits
+function lumaPixels(rgb: Uint8Array, bits: number): Uint32Array {
+  const count = rgb.length / 3;
+  const usable = new Uint32Array(Math.max(0, count - HEADER_PIXELS));
+  let n = 0;
+  for (let p = HEADER_PIXELS; p < count; p++) {
+    const [min, max] = channelSpread(rgb, p);
+    if (max - min <= 256 - (1 << bits)) usable[n++] = p;
+  }
+  return usable.subarray(0, n);
+}
+
+// Carrier slots: every bit plane of every selected sample, pixel by pixel
+function slotCount(rgb: Uint8Array, params: ClassicLsbParams, usable: Uint32Array | null): number {
+  const perPixel = params.luminance ? 1 : params.channels.length;
+  const pixels = usable ? usable.length : Math.max(0, rgb.length / 3 - HEADER_PIXELS);
+  return pixels * perPixel * params.bitsPerChannel;
+}
+
+export function classicCapacity(rgb: Uint8Array, params: ClassicLsbParams, level: RobustnessLevel): number {
+  const usable = params.luminance ? lumaPixels(rgb, params.bitsPerChannel) : null;
+  return eccCapacity(slotCount(rgb, params, usable), level);
+}
+
+// Expected PSNR over R, G and B for a payload of `payloadLength` bytes. The
+// frame's bits are spread evenly over the slots, so each slot is written
+// with probability q and then differs from the cover half the time.
+export function estimateClassicPsnr(
+  rgb: Uint8Array,
+  params: ClassicLsbParams,
+  payloadLength: number,
+  level: RobustnessLevel
+): number {
+  const usable = params.luminance ? lumaPixels(rgb, params.bitsPerChannel) : null;
+  const slots = slotCount(rgb, params, usable);
+  if (slots === 0) return Infinity;
+  const q = Math.min(1, eccFrameBits(payloadLength, level) / slots);
+  const perSample = (q / 2) * ((4 ** params.bitsPerChannel - 1) / 3);
+  const pixels = rgb.length / 3;
+  const carrierShare = usable
+    ? usable.length / pixels
+    : (params.channels.filter((c) => c !== "a").length / 3) * (Math.max(0, pixels - HEADER_PIXELS) / pixels);
+  const mse = perSample * carrierShare;
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+}
+
+const channelIndex = (c: ColorChannel): number => COLOR_CHANNELS.indexOf(c);
+
+const encodeParams = (params: ClassicLsbParams): number =>
+  (params.bitsPerChannel - 1) |
+  (params.channels.reduce((mask, c) => mask | (1 << channelIndex(c)), 0) << 2) |
+  (params.luminance ? LUMINANCE_FLAG : 0);
+
+function decodeParams(byte: number): ClassicLsbParams | null {
+  if (byte & 0x80) return null;
+  const channels = COLOR_CHANNELS.filter((_, i) => (byte >> (2 + i)) & 1);
+  if (channels.length === 0) return null;
+  return { bitsPerChannel: (byte & 3) + 1, channels, luminance: (byte & LUMINANCE_FLAG) !== 0 };
+}
+
+// Value in [lo, hi] with low bits `target`, closest to `value`
+function adjust(value: number, target: number, bits: number, lo = 0, hi = 255): number {
+  const step = 1 << bits;
+  const base = (value & ~(step - 1)) | target;
+  let best = -1;
+  for (const candidate of [base, base - step, base + step]) {
+    if (candidate < lo || candidate > hi) continue;
+    if (best < 0 || Math.abs(candidate - value) < Math.abs(best - value)) best = candidate;
+  }
+  return best;
+}
+
+// Current slot bits of the carrier
+function readSlots(rgb: Uint8Array, alpha: Uint8Array, params: ClassicLsbParams, usable: Uint32Array | null): Uint8Array {
+  const bits = params.bitsPerChannel;
+  const slots = new Uint8Array(slotCount(rgb, params, usable));
+  if (usable) {
+    for (let i = 0; i < usable.length; i++) {
+      const y = luma(rgb, usable[i]);
+      for (let b = 0; b < bits; b++) slots[i * bits + b] = (y >> b) & 1;
+    }
+    return slots;
+  }
+  const indices = params.channels.map(channelIndex);
+  let s = 0;
+  for (let p = HEADER_PIXELS; s < slots.length; p++) {
+    for (const c of indices) {
+      const value = c === 3 ? alpha[p] : rgb[p * 3 + c];
+      for (let b = 0; b < bits; b++) slots[s++] = (value >> b) & 1;
+    }
+  }
+  return slots;
+}
+
+function readHeader(rgb: Uint8Array): ClassicLsbParams | null {
+  if (rgb.length < HEADER_PIXELS * 3) return null;
+  let word = 0;
+  for (let i = 0; i < HEADER_BITS; i++) word = ((word << 1) | (rgb[i] & 1)) >>> 0;
+  if (word >>> 16 !== HEADER_MAGIC) return null;
+  const byte = (word >> 8) & 0xFF;
+  if ((word & 0xFF) !== (~byte & 0xFF)) return null;
+  return decodeParams(byte);
+}
+
+export async function embedClassicFrame(
+  rgb: Uint8Array,
+  alpha: Uint8Array | null,
+  params: ClassicLsbParams,
+  payload: Uint8Array,
+  level: RobustnessLevel,
+  key: string = ""
+): Promise<ClassicEmbedResult> {
+  const pixelCount = rgb.length / 3;
+  const useAlpha = !params.luminance && params.channels.includes("a");
+  const alphaPlane = alpha ?? new Uint8Array(pixelCount).fill(255);
+  const bits = params.bitsPerChannel;
+  const usable = params.luminance ? lumaPixels(rgb, bits) : null;
+
+  const carrier = readSlots(rgb, alphaPlane, params, usable);
+  const capacity = eccCapacity(carrier.length, level);
+  if (payload.length > capacity) {
+    throw new Error(`Payload too large: ${payload.length} bytes. Maximum ${capacity} bytes fit in this image.`);
+  }
+  const order = key ? await keyedSampleOrder(key, carrier.length) : null;
+  const embedded = embedEccFrame(order ? gatherSamples(carrier, order) : carrier, payload, level);
+  const target = order ? scatterSamples(carrier, order, embedded) : embedded;
+
+  const outRGB = new Uint8Array(rgb);
+  const outAlpha = useAlpha ? new Uint8Array(alphaPlane) : alpha;
+  let changedSamples = 0;
+
+  const header = ((HEADER_MAGIC << 16) | (encodeParams(params) << 8) | (~encodeParams(params) & 0xFF)) >>> 0;
+  for (let i = 0; i < HEADER_BITS; i++) {
+    const value = (outRGB[i] & ~1) | ((header >>> (HEADER_BITS - 1 - i)) & 1);
+    if (value !== outRGB[i]) changedSamples++;
+    outRGB[i] = value;
+  }
+
+  const lowBits = (s: number): number => {
+    let value = 0;
+    for (let b = 0; b < bits; b++) value |= (target[s + b] & 1) << b;
+    return value;
+  };
+
+  if (usable) {
+    for (let i = 0; i < usable.length; i++) {
+      const p = usable[i];
+      const [min, max] = channelSpread(outRGB, p);
+      const y = luma(outRGB, p);
+      const shift = adjust(y, lowBits(i * bits), bits, y - min, y + 255 - max) - y;
+      if (shift === 0) continue;
+      for (let c = 0; c < 3; c++) outRGB[p * 3 + c] += shift;
+      changedSamples += 3;
+    }
+  } else {
+    const indices = params.channels.map(channelIndex);
+    let s = 0;
+    for (let p = HEADER_PIXELS; s < target.length; p++) {
+      for (const c of indices) {
+        const plane = c === 3 ? outAlpha! : outRGB;
+        const at = c === 3 ? p : p * 3 + c;
+        const value = adjust(plane[at], lowBits(s), bits);
+        if (value !== plane[at]) changedSamples++;
+        plane[at] = value;
+        s += bits;
+      }
+    }
+  }
+
+  return { pixels: outRGB, alpha: outAlpha, embeddedBits: eccFrameBits(payload.length, level), changedSamples };
+}
+
+// Returns null when the image has no classic header or no frame behind it;
+// throws when a frame is present but damaged beyond repair
+export async function extractClassicFrame(
+  rgb: Uint8Array,
+  alpha: Uint8Array | null,
+  key: string = ""
+): Promise<ClassicFrame | null> {
+  const params = readHeader(rgb);
+  if (!params) return null;
+  const usable = params.luminance ? lumaPixels(rgb, params.bitsPerChannel) : null;
+  const carrier = readSlots(rgb, alpha ?? new Uint8Array(rgb.length / 3).fill(255), params, usable);
+
+  let frame: EccFrame | null = null;
+  if (key) frame = extractEccFrame(gatherSamples(carrier, await keyedSampleOrder(key, carrier.length)));
+  frame ??= extractEccFrame(carrier);
+  return frame ? { ...frame, params } : null;
+}
+
+export const classicCodec: Codec = {
+  id: "classic",
+  name: "Classic-LSB",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["bmp", "png", "tiff", "webp"],
+    writable: true,
+    keyed: true,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: true,
+    robust: false,
+  },
+
+  capacity: (cover, options) => classicCapacity(requireImage(cover, "Classic").pixels, options.classic, options.robustness),
+
+  async embed(cover, payload, options) {
+    // Embedding into alpha adds an alpha plane, so the output may need one
+    const image = requireImage(cover, "Classic");
+    const result = await embedClassicFrame(image.pixels, image.alpha, options.classic, payload, options.robustness, options.key);
+    return {
+      image: { ...image, pixels: result.pixels, alpha: result.alpha },
+      file: null,
+      embeddedBits: result.embeddedBits,
+      changedSamples: result.changedSamples,
+      details: { classic: options.classic },
+    };
+  },
+
+  async extract(stego, key) {
+    const image = requireImage(stego, "Classic");
+    const frame = await extractClassicFrame(image.pixels, image.alpha, key);
+    return frame ? fromEccFrame(frame, { classic: frame.params }, true) : null;
+  },
+
+  detect: async (stego) => readHeader(requireImage(stego, "Classic").pixels) !== null,
+};
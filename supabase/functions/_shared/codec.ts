@@ -0,0 +1,122 @@
+// Common interface of the steganography methods ("codecs"), shared by the
+// edge functions and the browser. Each method module exports one Codec; the
+// registry in codecs.ts lists them in the order decoders try them.
+//
+// Pixel codecs read and write decoded RGB samples and leave writing the
+// stego file to the caller (losslessly, unless the codec writes the file
+// itself, as the JPEG-robust DCT codec does). File codecs work on the
+// uploaded bytes of formats that cannot be decoded here (lossy WebP among
+// them: only lossless WebPs are decoded).
+
+import type { EccFrame, LsbEmbedding, RobustnessLevel } from "./ecc.ts";
+import type { ClassicLsbParams } from "./classicLsb.ts";
+import { isBMP } from "./bmp.ts";
+import { isGIF } from "./gif.ts";
+import { isJPEG } from "./jpeg.ts";
+import { isPNG } from "./png.ts";
+import { isTIFF } from "./tiff.ts";
+import { isWebP } from "./webp.ts";
+
+export type ImageFormat = "bmp" | "png" | "gif" | "tiff" | "webp" | "jpeg" | "other";
+
+export interface CoverImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // packed RGB
+  alpha: Uint8Array | null; // null when fully opaque
+}
+
+// An uploaded image: its bytes and, when the format could be decoded, its samples
+export interface StegoCarrier {
+  format: ImageFormat;
+  bytes: Uint8Array;
+  image: CoverImage | null;
+}
+
+export interface CodecCapabilities {
+  carrier: "pixels" | "file";
+  // Formats whose files are searched for this codec's payload. Pixel codecs
+  // that need exact samples leave out JPEG.
+  reads: ImageFormat[];
+  writable: boolean; // false for legacy layouts kept only for decoding
+  keyed: boolean; // a key changes where the bits go
+  lsbEmbedding: boolean; // honours LSB replacement / ±1 matching
+  matrixEmbedding: boolean; // honours Hamming matrix embedding
+  alpha: boolean; // may carry bits in the alpha plane
+  robust: boolean; // survives recompression or light processing
+}
+
+// Everything a codec may need to embed; each codec reads only its own fields
+export interface CodecOptions {
+  robustness: RobustnessLevel;
+  key: string;
+  embedding: LsbEmbedding;
+  matrixEmbedding: boolean;
+  classic: ClassicLsbParams;
+  dwtStep: number;
+}
+
+// Method-specific parameters reported back to clients
+export interface CodecDetails {
+  hammingK?: number;
+  stcWidth?: number;
+  classic?: ClassicLsbParams;
+  dwtStep?: number;
+  frames?: number[]; // animation frames (from 0) carrying parts of the payload
+}
+
+export interface CodecEmbedResult {
+  image: CoverImage | null; // stego samples, as a decoder will see them
+  file: { bytes: Uint8Array; format: ImageFormat } | null; // set when the codec writes the file itself
+  embeddedBits: number | null;
+  changedSamples: number | null;
+  details: CodecDetails;
+}
+
+export interface CodecFrame {
+  payload: Uint8Array;
+  level: RobustnessLevel | null; // null for layouts without error correction
+  embedding: LsbEmbedding | null;
+  correctedErrors: number | null;
+  details: CodecDetails;
+}
+
+export interface Codec {
+  id: string; // embedding mode name in requests
+  name: string; // method name reported to clients
+  capabilities: CodecCapabilities;
+  // Largest payload (bytes) the cover holds with these options
+  capacity(cover: StegoCarrier, options: CodecOptions): number;
+  embed(cover: StegoCarrier, payload: Uint8Array, options: CodecOptions): Promise<CodecEmbedResult>;
+  // Null when the image carries no payload of this codec; throws when one is
+  // present but damaged beyond repair
+  extract(stego: StegoCarrier, key: string): Promise<CodecFrame | null>;
+  // Quick check for this codec's signature, without recovering the payload
+  detect(stego: StegoCarrier, key: string): Promise<boolean>;
+}
+
+// Codec frame from an error-corrected frame; `lsb` reports how its bits were
+// written, which only means something for LSB carriers
+export const fromEccFrame = (frame: EccFrame, details: CodecDetails = {}, lsb: boolean = false): CodecFrame => ({
+  payload: frame.payload,
+  level: frame.level,
+  embedding: lsb ? frame.embedding : null,
+  correctedErrors: frame.correctedErrors,
+  details,
+});
+
+// The decoded samples of a pixel codec's carrier
+export function requireImage(carrier: StegoCarrier, mode: string): CoverImage {
+  if (!carrier.image) throw new Error(`${mode} mode needs a BMP, PNG, GIF, TIFF, lossless WebP or JPEG cover image`);
+  return carrier.image;
+}
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat {
+  if (isBMP(bytes)) return "bmp";
+  if (isPNG(bytes)) return "png";
+  if (isGIF(bytes)) return "gif";
+  if (isTIFF(bytes)) return "tiff";
+  if (isWebP(bytes)) return "webp";
+  if (isJPEG(bytes)) return "jpeg";
+  return "other";
+}
@@ -0,0 +1,63 @@
+// Decoders try the codecs in registry order; a legacy layout must not claim
+// a current codec's payload. Run with `deno test supabase/functions/_shared/codecs.test.ts`.
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { decodeBMP, encodeBMP } from "./bmp.ts";
+import type { Codec, CodecOptions, CoverImage } from "./codec.ts";
+import { findPayload, sealPayload, unsealPayload } from "./codecs.ts";
+import { DEFAULT_CLASSIC_PARAMS } from "./classicLsb.ts";
+import { DEFAULT_DWT_STEP, dwtCodec } from "./dwtQim.ts";
+import { DEFAULT_LSB_EMBEDDING, DEFAULT_ROBUSTNESS } from "./ecc.ts";
+import { pvdCodec } from "./pvd.ts";
+
+const OPTIONS: CodecOptions = {
+  robustness: DEFAULT_ROBUSTNESS,
+  key: "",
+  embedding: DEFAULT_LSB_EMBEDDING,
+  matrixEmbedding: false,
+  classic: DEFAULT_CLASSIC_PARAMS,
+  dwtStep: DEFAULT_DWT_STEP,
+};
+
+// A night-sky cover: a near-black band with the odd 1 of sensor noise above
+// a textured gradient. The band's LSBs often read as a small legacy length
+// prefix, which the bare BMP legacy layout would accept.
+function nightCover(width: number, height: number, seed: number): CoverImage {
+  const pixels = new Uint8Array(width * height * 3);
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) >>> 0;
+    return state >>> 16;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        pixels[(y * width + x) * 3 + c] = y < height / 4
+          ? (random() % 20 === 0 ? 1 : 0)
+          : Math.min(255, 40 + x + y + c * 20 + random() % 9);
+      }
+    }
+  }
+  return { width, height, pixels, alpha: null };
+}
+
+async function roundTripBMP(codec: Codec, seed: number): Promise<void> {
+  const message = new TextEncoder().encode(`Seed ${seed} through ${codec.id}`);
+  const sealed = sealPayload(codec, OPTIONS, message, false);
+  const cover = nightCover(128, 96, seed);
+  const result = await codec.embed({ format: "bmp", bytes: new Uint8Array(0), image: cover }, sealed, OPTIONS);
+  assert(result.image, `${codec.id} returns stego samples`);
+
+  const bytes = encodeBMP(result.image);
+  const { width, height, pixels, alpha } = decodeBMP(bytes);
+  const match = await findPayload({ format: "bmp", bytes, image: { width, height, pixels, alpha } }, "");
+  assert(match?.frame, `seed ${seed}: no ${codec.id} payload found`);
+  assertEquals(match.codec.id, codec.id, `seed ${seed}: payload claimed by ${match.codec.id}`);
+  assertEquals(unsealPayload(match.codec, match.frame).payload, message);
+}
+
+for (const codec of [pvdCodec, dwtCodec]) {
+  Deno.test(`${codec.id} payloads in BMP covers are not read as legacy LSB`, async () => {
+    for (let seed = 1; seed <= 12; seed++) await roundTripBMP(codec, seed);
+  });
+}
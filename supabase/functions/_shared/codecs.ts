@@ -0,0 +1,101 @@
+// Registry of the steganography codecs (see codec.ts), in the order decoders
+// try them: layouts with a signature first, legacy layouts without error
+// correction after the current ones they could be mistaken for, and data
+// appended to the file last. A new method is one module exporting a Codec
+// plus its entry here.
+
+import { type Codec, type CodecFrame, type CodecOptions, type StegoCarrier } from "./codec.ts";
+import { type ContainerHeader, containerParams, openContainer, sealContainer } from "./container.ts";
+import { multiFrameCodec } from "./multiFrame.ts";
+import { classicCodec } from "./classicLsb.ts";
+import { lsbCodec } from "./matrixEmbedding.ts";
+import { adaptiveCodec } from "./stc.ts";
+import { legacyLsbCodec } from "./legacyLsb.ts";
+import { pvdCodec } from "./pvd.ts";
+import { dctCodec } from "./dctQim.ts";
+import { dwtCodec } from "./dwtQim.ts";
+import { ezStegoCodec } from "./ezStego.ts";
+import { pngChunkCodec } from "./pngChunk.ts";
+import { sharingSampleOrders } from "./sampleOrder.ts";
+import { appendCodec, legacyAppendCodec } from "./appendMarker.ts";
+
+export const CODECS: Codec[] = [
+  multiFrameCodec,
+  classicCodec,
+  lsbCodec,
+  adaptiveCodec,
+  pvdCodec,
+  dctCodec,
+  dwtCodec,
+  ezStegoCodec,
+  pngChunkCodec,
+  legacyLsbCodec,
+  appendCodec,
+  legacyAppendCodec,
+];
+
+// Codecs that can embed; their ids are the embedding modes requests name
+export const WRITABLE_CODECS: Codec[] = CODECS.filter((codec) => codec.capabilities.writable);
+
+export function getCodec(id: string): Codec {
+  const codec = WRITABLE_CODECS.find((c) => c.id === id);
+  if (!codec) throw new Error(`Unknown embedding mode: ${id}`);
+  return codec;
+}
+
+// Codecs whose payload could be in this file
+export const codecsFor = (carrier: StegoCarrier): Codec[] =>
+  CODECS.filter((codec) =>
+    codec.capabilities.reads.includes(carrier.format) &&
+    (codec.capabilities.carrier === "file" || carrier.image !== null)
+  );
+
+// The codec a file's payload was written with: either its frame, or the
+// error that kept a detected frame from being recovered
+export type CodecMatch =
+  | { codec: Codec; frame: CodecFrame; error: null }
+  | { codec: Codec; frame: null; error: string };
+
+// First codec whose signature the file carries and whose payload comes out,
+// or null when none matches. Keyed orders are derived once for all codecs.
+export function findPayload(carrier: StegoCarrier, key: string): Promise<CodecMatch | null> {
+  return sharingSampleOrders(async () => {
+    for (const codec of codecsFor(carrier)) {
+      if (!(await codec.detect(carrier, key))) continue;
+      try {
+        const frame = await codec.extract(carrier, key);
+        if (frame) return { codec, frame, error: null };
+      } catch (error) {
+        return { codec, frame: null, error: error instanceof Error ? error.message : "Hidden data is too damaged to recover" };
+      }
+    }
+    return null;
+  });
+}
+
+// Payload wrapped in the container header (container.ts) recording how
+// `codec` will embed it
+export function sealPayload(codec: Codec, options: CodecOptions, payload: Uint8Array, compressed: boolean): Uint8Array {
+  const flags = {
+    compressed,
+    encrypted: options.key.length > 0,
+    errorCorrected: codec.capabilities.carrier === "pixels",
+    keyOrdered: codec.capabilities.keyed && options.key.length > 0,
+  };
+  return sealContainer(codec.id, flags, containerParams(codec.id, options), payload);
+}
+
+// The payload inside a frame `codec` recovered, with its container header;
+// the header is null for payloads written before containers existed
+export function unsealPayload(codec: Codec, frame: CodecFrame): { header: ContainerHeader | null; payload: Uint8Array } {
+  const container = openContainer(frame.payload);
+  if (!container) return { header: null, payload: frame.payload };
+  const { header } = container;
+  if (header.codec === "neural") {
+    throw new Error("This image was written in neural mode. Decode it with the neural models loaded.");
+  }
+  if (header.codec !== codec.id) {
+    throw new Error(`Container header names the ${header.codec} codec, but the payload was found by ${codec.id}`);
+  }
+  return container;
+}
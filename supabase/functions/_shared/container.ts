@@ -0,0 +1,224 @@
+// Self-describing container around every hidden payload, shared by the edge
+// functions and the browser. Layout:
+//
+//   magic "SGCT" | version u8 | codec u8 | flags u8 | params length u8 |
+//   params | payload length u32 BE | header crc32 u32 BE | payload
+//
+// The container is always the first thing a codec carries: byte 0 of the
+// error-corrected frame for pixel codecs, the byte after the start marker
+// for appended data. Whichever codec finds it, the header then says what
+// wrote the payload, with which parameters, whether it is compressed or
+// encrypted, and how long it is; the CRC covers the header alone, so a
+// damaged header is told apart from a damaged payload.
+//
+// Flags: COMPRESSED (deflated, see payload.ts), ENCRYPTED (AES-GCM envelope,
+// see crypto.ts), ERROR_CORRECTED (carried in a Reed–Solomon frame) and
+// KEY_ORDERED (samples visited in the key's order). Params are codec
+// specific; see encodeParams.
+//
+// Payloads written before the container carry no magic and are read as they
+// always were.
+
+import { crc32 } from "./crc32.ts";
+import { type ClassicLsbParams, COLOR_CHANNELS } from "./classicLsb.ts";
+import { LSB_EMBEDDINGS, type LsbEmbedding } from "./ecc.ts";
+import type { CodecOptions } from "./codec.ts";
+
+const MAGIC = [0x53, 0x47, 0x43, 0x54]; // "SGCT"
+export const CONTAINER_VERSION = 1;
+const FIXED_HEADER_BYTES = MAGIC.length + 4 + 4 + 4;
+
+const FLAG_COMPRESSED = 0x01;
+const FLAG_ENCRYPTED = 0x02;
+const FLAG_ERROR_CORRECTED = 0x04;
+const FLAG_KEY_ORDERED = 0x08;
+
+// Wire ids of the codecs that write containers. Never reuse a number.
+const CODEC_IDS: Record<string, number> = {
+  lsb: 1,
+  classic: 2,
+  adaptive: 3,
+  pvd: 4,
+  dct: 5,
+  dwt: 6,
+  append: 7,
+  neural: 8,
+  chunk: 9,
+  ezstego: 10,
+  frames: 11,
+};
+
+// Parameter bytes each codec records
+const PARAM_BYTES: Record<string, number> = { lsb: 2, classic: 3, adaptive: 1, dwt: 1 };
+
+export interface ContainerFlags {
+  compressed: boolean;
+  encrypted: boolean;
+  errorCorrected: boolean;
+  keyOrdered: boolean;
+}
+
+// The embedding options a decoder can report back
+export interface ContainerParams {
+  embedding?: LsbEmbedding;
+  matrixEmbedding?: boolean;
+  classic?: ClassicLsbParams;
+  dwtStep?: number;
+}
+
+export interface ContainerHeader extends ContainerFlags {
+  version: number;
+  codec: string;
+  params: ContainerParams;
+  length: number;
+}
+
+const codecNumber = (codec: string): number => {
+  const id = CODEC_IDS[codec];
+  if (id === undefined) throw new Error(`Codec ${codec} has no container id`);
+  return id;
+};
+
+// Header bytes in front of a payload written by `codec`
+export const containerOverhead = (codec: string): number =>
+  FIXED_HEADER_BYTES + (PARAM_BYTES[codec] ?? 0);
+
+// The options a codec's container records
+export function containerParams(codec: string, options: CodecOptions): ContainerParams {
+  switch (codec) {
+    case "lsb":
+      return { embedding: options.embedding, matrixEmbedding: options.matrixEmbedding };
+    case "classic":
+      return { classic: options.classic };
+    case "adaptive":
+      return { embedding: options.embedding };
+    case "dwt":
+      return { dwtStep: options.dwtStep };
+    default:
+      return {};
+  }
+}
+
+function encodeParams(codec: string, params: ContainerParams): Uint8Array {
+  const embedding = LSB_EMBEDDINGS.indexOf(params.embedding ?? "replacement");
+  switch (codec) {
+    case "lsb":
+      return Uint8Array.of(embedding, params.matrixEmbedding ? 1 : 0);
+    case "classic": {
+      const { bitsPerChannel, channels, luminance } = params.classic!;
+      const mask = COLOR_CHANNELS.reduce((m, c, i) => (channels.includes(c) ? m | (1 << i) : m), 0);
+      return Uint8Array.of(bitsPerChannel, mask, luminance ? 1 : 0);
+    }
+    case "adaptive":
+      return Uint8Array.of(embedding);
+    case "dwt":
+      return Uint8Array.of(params.dwtStep!);
+    default:
+      return new Uint8Array(0);
+  }
+}
+
+function decodeParams(codec: string, bytes: Uint8Array): ContainerParams {
+  if (bytes.length !== (PARAM_BYTES[codec] ?? 0)) {
+    throw new Error(`Corrupt container header: ${bytes.length} parameter bytes for the ${codec} codec`);
+  }
+  switch (codec) {
+    case "lsb":
+      return { embedding: LSB_EMBEDDINGS[bytes[0]] ?? "replacement", matrixEmbedding: bytes[1] === 1 };
+    case "classic":
+      return {
+        classic: {
+          bitsPerChannel: bytes[0],
+          channels: COLOR_CHANNELS.filter((_, i) => bytes[1] & (1 << i)),
+          luminance: bytes[2] === 1,
+        },
+      };
+    case "adaptive":
+      return { embedding: LSB_EMBEDDINGS[bytes[0]] ?? "replacement" };
+    case "dwt":
+      return { dwtStep: bytes[0] };
+    default:
+      return {};
+  }
+}
+
+export function sealContainer(
+  codec: string,
+  flags: ContainerFlags,
+  params: ContainerParams,
+  payload: Uint8Array
+): Uint8Array {
+  const paramBytes = encodeParams(codec, params);
+  const headerLength = FIXED_HEADER_BYTES + paramBytes.length;
+  const out = new Uint8Array(headerLength + payload.length);
+  const view = new DataView(out.buffer);
+  out.set(MAGIC, 0);
+  let offset = MAGIC.length;
+  out[offset++] = CONTAINER_VERSION;
+  out[offset++] = codecNumber(codec);
+  out[offset++] =
+    (flags.compressed ? FLAG_COMPRESSED : 0) |
+    (flags.encrypted ? FLAG_ENCRYPTED : 0) |
+    (flags.errorCorrected ? FLAG_ERROR_CORRECTED : 0) |
+    (flags.keyOrdered ? FLAG_KEY_ORDERED : 0);
+  out[offset++] = paramBytes.length;
+  out.set(paramBytes, offset);
+  offset += paramBytes.length;
+  view.setUint32(offset, payload.length, false);
+  view.setUint32(offset + 4, crc32(out.subarray(0, offset + 4)), false);
+  out.set(payload, headerLength);
+  return out;
+}
+
+export const hasContainer = (bytes: Uint8Array): boolean =>
+  bytes.length >= MAGIC.length && MAGIC.every((b, i) => bytes[i] === b);
+
+// Null for payloads without a container (written before it existed); throws
+// a precise error when the header is unreadable
+export function openContainer(bytes: Uint8Array): { header: ContainerHeader; payload: Uint8Array } | null {
+  if (!hasContainer(bytes)) return null;
+  if (bytes.length < FIXED_HEADER_BYTES) throw new Error("Corrupt container header: truncated");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[MAGIC.length];
+  if (version !== CONTAINER_VERSION) {
+    throw new Error(
+      `Unsupported container version ${version}: this decoder reads version ${CONTAINER_VERSION}. ` +
+        "The image was written by a newer release."
+    );
+  }
+  const paramLength = bytes[MAGIC.length + 3];
+  const lengthOffset = MAGIC.length + 4 + paramLength;
+  const headerLength = FIXED_HEADER_BYTES + paramLength;
+  if (bytes.length < headerLength) throw new Error("Corrupt container header: truncated");
+  if (view.getUint32(lengthOffset + 4, false) !== crc32(bytes.subarray(0, lengthOffset + 4))) {
+    throw new Error("Corrupt container header: checksum mismatch");
+  }
+
+  const codecNumberValue = bytes[MAGIC.length + 1];
+  const codec = Object.keys(CODEC_IDS).find((id) => CODEC_IDS[id] === codecNumberValue);
+  if (!codec) throw new Error(`Unsupported codec id ${codecNumberValue} in container header`);
+
+  const length = view.getUint32(lengthOffset, false);
+  if (headerLength + length > bytes.length) {
+    throw new Error(
+      `Truncated payload: the container declares ${length} bytes but only ` +
+        `${bytes.length - headerLength} were recovered`
+    );
+  }
+
+  const flags = bytes[MAGIC.length + 2];
+  return {
+    header: {
+      version,
+      codec,
+      compressed: (flags & FLAG_COMPRESSED) !== 0,
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      errorCorrected: (flags & FLAG_ERROR_CORRECTED) !== 0,
+      keyOrdered: (flags & FLAG_KEY_ORDERED) !== 0,
+      params: decodeParams(codec, bytes.subarray(MAGIC.length + 4, lengthOffset)),
+      length,
+    },
+    payload: bytes.slice(headerLength, headerLength + length),
+  };
+}
@@ -0,0 +1,67 @@
+// Per-sample embedding costs in the style of HILL (Li et al., 2014).
+//
+// Each channel is filtered with the KB high-pass kernel; the absolute
+// residual is averaged over 3×3, inverted, and averaged again over 15×15.
+// Textured and edge regions get low costs, smooth regions (sky, walls,
+// gradients) costs high enough that adaptive coders all but never touch them.
+
+const EPSILON = 1e-10;
+const WET_COST = 1e8; // cap for perfectly flat areas
+const LOW_PASS = 1; // 3×3
+const SPREAD = 7; // 15×15
+
+// Mean over a (2r+1)² window clipped to the image. Summed directly, row
+// pass then column pass: an integral image would cancel catastrophically next
+// to the near-wet costs of smooth regions.
+function boxMean(plane: Float64Array, width: number, height: number, r: number): Float64Array {
+  const rows = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - r);
+      const x1 = Math.min(width, x + r + 1);
+      let sum = 0;
+      for (let i = x0; i < x1; i++) sum += plane[y * width + i];
+      rows[y * width + x] = sum / (x1 - x0);
+    }
+  }
+  const out = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - r);
+    const y1 = Math.min(height, y + r + 1);
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let i = y0; i < y1; i++) sum += rows[i * width + x];
+      out[y * width + x] = sum / (y1 - y0);
+    }
+  }
+  return out;
+}
+
+// Costs for interleaved samples (`channels` per pixel), in sample order
+export function hillCosts(samples: Uint8Array, width: number, height: number, channels: number = 3): Float32Array {
+  const costs = new Float32Array(width * height * channels);
+  const residual = new Float64Array(width * height);
+  const at = (x: number, y: number, c: number): number => {
+    const cx = x < 0 ? 0 : x >= width ? width - 1 : x;
+    const cy = y < 0 ? 0 : y >= height ? height - 1 : y;
+    return samples[(cy * width + cx) * channels + c];
+  };
+
+  for (let c = 0; c < channels; c++) {
+    // KB kernel: [-1 2 -1; 2 -4 2; -1 2 -1]
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const r =
+          -at(x - 1, y - 1, c) + 2 * at(x, y - 1, c) - at(x + 1, y - 1, c) +
+          2 * at(x - 1, y, c) - 4 * at(x, y, c) + 2 * at(x + 1, y, c) -
+          at(x - 1, y + 1, c) + 2 * at(x, y + 1, c) - at(x + 1, y + 1, c);
+        residual[y * width + x] = Math.abs(r);
+      }
+    }
+    const smoothed = boxMean(residual, width, height, LOW_PASS);
+    for (let i = 0; i < smoothed.length; i++) smoothed[i] = Math.min(WET_COST, 1 / (smoothed[i] + EPSILON));
+    const spread = boxMean(smoothed, width, height, SPREAD);
+    for (let i = 0; i < spread.length; i++) costs[i * channels + c] = spread[i];
+  }
+  return costs;
+}
@@ -0,0 +1,30 @@
+// CRC-32 (IEEE 802.3, as used by PNG and zlib) shared by the codecs and
+// payload framing.
+
+let CRC_TABLE: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (CRC_TABLE) return CRC_TABLE;
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  CRC_TABLE = table;
+  return table;
+};
+
+// CRC-32 over one or more consecutive byte ranges
+export function crc32(...parts: Uint8Array[]): number {
+  const table = getCrcTable();
+  let crc = 0xFFFFFFFF;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      crc = table[(crc ^ part[i]) & 0xFF] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
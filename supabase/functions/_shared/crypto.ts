@@ -0,0 +1,177 @@
+// Authenticated payload encryption shared by the edge functions and browser.
+//
+// Messages are sealed with AES-256-GCM under a key derived from the user's
+// password with PBKDF2-SHA256. Everything needed to decrypt travels in a
+// versioned envelope:
+//
+//   magic "SGCR" | version u8 | kdf u8 | iterations u32 BE |
+//   saltLen u8 | salt | nonceLen u8 | nonce | ciphertext || 16-byte GCM tag
+//
+// The header is bound to the ciphertext as additional authenticated data, so
+// a wrong password or any modification of the envelope fails decryption
+// instead of producing garbage.
+
+const MAGIC = [0x53, 0x47, 0x43, 0x52]; // "SGCR"
+const ENVELOPE_VERSION = 1;
+
+export const KDF_PBKDF2_SHA256 = 1;
+export const DEFAULT_PBKDF2_ITERATIONS = 310000;
+// Envelopes come from uploaded images, so the work they may demand is capped
+const MAX_PBKDF2_ITERATIONS = 10 * DEFAULT_PBKDF2_ITERATIONS;
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = 10 + 1 + SALT_BYTES + 1 + NONCE_BYTES;
+
+// Bytes encryptPayload adds to a plaintext: the header and the GCM tag
+export const ENVELOPE_OVERHEAD_BYTES = HEADER_BYTES + TAG_BYTES;
+
+export interface EnvelopeHeader {
+  version: number;
+  kdf: number;
+  iterations: number;
+  salt: Uint8Array;
+  nonce: Uint8Array;
+  headerLength: number;
+}
+
+export function isEncryptedEnvelope(data: Uint8Array): boolean {
+  if (data.length < MAGIC.length + 1) return false;
+  for (let i = 0; i < MAGIC.length; i++) {
+    if (data[i] !== MAGIC[i]) return false;
+  }
+  return true;
+}
+
+export function parseEnvelopeHeader(data: Uint8Array): EnvelopeHeader {
+  if (!isEncryptedEnvelope(data)) {
+    throw new Error("Not an encrypted payload");
+  }
+  const version = data[4];
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported encrypted payload version: ${version}`);
+  }
+  if (data.length < 11) throw new Error("Corrupt encrypted payload header");
+  const kdf = data[5];
+  if (kdf !== KDF_PBKDF2_SHA256) {
+    throw new Error(`Unsupported key derivation function: ${kdf}`);
+  }
+  const iterations = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(6, false);
+  if (iterations === 0 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`Corrupt or unsupported envelope: ${iterations} PBKDF2 iterations`);
+  }
+  let offset = 10;
+  const saltLength = data[offset++];
+  const salt = data.slice(offset, offset + saltLength);
+  offset += saltLength;
+  const nonceLength = data[offset++];
+  const nonce = data.slice(offset, offset + nonceLength);
+  offset += nonceLength;
+  if (salt.length !== saltLength || nonce.length !== nonceLength || data.length < offset + TAG_BYTES) {
+    throw new Error("Corrupt encrypted payload header");
+  }
+  return { version, kdf, iterations, salt, nonce, headerLength: offset };
+}
+
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+  algorithm: "AES-GCM" | "AES-CTR" = "AES-GCM"
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: algorithm, length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// Expand a password and salt into `length` pseudo-random bytes: the
+// AES-256-CTR keystream under a PBKDF2-derived key. Used where a keyed,
+// reproducible random stream is needed (pixel permutations, XOR masks).
+export async function deriveKeystream(
+  password: string,
+  salt: Uint8Array,
+  length: number,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<Uint8Array> {
+  const key = await deriveKey(password, salt, iterations, "AES-CTR");
+  const stream = await crypto.subtle.encrypt(
+    { name: "AES-CTR", counter: new Uint8Array(16), length: 64 },
+    key,
+    new Uint8Array(length)
+  );
+  return new Uint8Array(stream);
+}
+
+export async function encryptPayload(
+  plaintext: Uint8Array,
+  password: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<Uint8Array> {
+  if (!password) throw new Error("A password is required to encrypt");
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(MAGIC, 0);
+  header[4] = ENVELOPE_VERSION;
+  header[5] = KDF_PBKDF2_SHA256;
+  new DataView(header.buffer).setUint32(6, iterations, false);
+  let offset = 10;
+  header[offset++] = SALT_BYTES;
+  header.set(salt, offset);
+  offset += SALT_BYTES;
+  header[offset++] = NONCE_BYTES;
+  header.set(nonce, offset);
+
+  const key = await deriveKey(password, salt, iterations);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce, additionalData: header }, key, plaintext)
+  );
+
+  const envelope = new Uint8Array(header.length + ciphertext.length);
+  envelope.set(header, 0);
+  envelope.set(ciphertext, header.length);
+  return envelope;
+}
+
+export async function decryptPayload(envelope: Uint8Array, password: string): Promise<Uint8Array> {
+  const header = parseEnvelopeHeader(envelope);
+  if (!password) {
+    throw new Error("This message is encrypted. Enter the key used during encoding.");
+  }
+  const key = await deriveKey(password, header.salt, header.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: header.nonce,
+        additionalData: envelope.subarray(0, header.headerLength),
+      },
+      key,
+      envelope.subarray(header.headerLength)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error("Decryption failed: wrong key or the hidden data has been tampered with.");
+  }
+}
+
+export async function encryptText(message: string, password: string): Promise<Uint8Array> {
+  return encryptPayload(new TextEncoder().encode(message), password);
+}
+
+export async function decryptText(envelope: Uint8Array, password: string): Promise<string> {
+  return new TextDecoder().decode(await decryptPayload(envelope, password));
+}
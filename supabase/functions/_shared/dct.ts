@@ -0,0 +1,51 @@
+// 8×8 two-dimensional DCT-II and its inverse, with the orthonormal scaling
+// JPEG uses (F(u,v) = ¼·C(u)·C(v)·Σ f(x,y)·cos…·cos…, C(0) = 1/√2). Blocks
+// are 64 samples in row-major order.
+
+const COS = new Float64Array(64); // COS[u * 8 + x] = C(u)/2 · cos((2x+1)uπ/16)
+for (let u = 0; u < 8; u++) {
+  const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+  for (let x = 0; x < 8; x++) COS[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+}
+
+const temp = new Float64Array(64);
+
+export function forwardDCT(block: ArrayLike<number>, out: Float64Array): Float64Array {
+  // Rows: temp[y][u] = Σx block[y][x]·COS[u][x]
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += block[y * 8 + x] * COS[u * 8 + x];
+      temp[y * 8 + u] = sum;
+    }
+  }
+  // Columns: out[v][u] = Σy temp[y][u]·COS[v][y]
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) sum += temp[y * 8 + u] * COS[v * 8 + y];
+      out[v * 8 + u] = sum;
+    }
+  }
+  return out;
+}
+
+export function inverseDCT(coefficients: ArrayLike<number>, out: Float64Array): Float64Array {
+  // Columns: temp[y][u] = Σv coef[v][u]·COS[v][y]
+  for (let u = 0; u < 8; u++) {
+    for (let y = 0; y < 8; y++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) sum += coefficients[v * 8 + u] * COS[v * 8 + y];
+      temp[y * 8 + u] = sum;
+    }
+  }
+  // Rows: out[y][x] = Σu temp[y][u]·COS[u][x]
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) sum += temp[y * 8 + u] * COS[u * 8 + x];
+      out[y * 8 + x] = sum;
+    }
+  }
+  return out;
+}
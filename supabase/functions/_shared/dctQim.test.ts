@@ -0,0 +1,57 @@
+// The DCT-QIM payload survives recompression at DCT_SURVIVAL_QUALITY.
+// Run with `deno test supabase/functions/_shared/dctQim.test.ts`.
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { CodecOptions, CoverImage } from "./codec.ts";
+import { findPayload, sealPayload, unsealPayload } from "./codecs.ts";
+import { DEFAULT_CLASSIC_PARAMS } from "./classicLsb.ts";
+import { DCT_SURVIVAL_QUALITY, dctCodec } from "./dctQim.ts";
+import { DEFAULT_DWT_STEP } from "./dwtQim.ts";
+import { DEFAULT_LSB_EMBEDDING, DEFAULT_ROBUSTNESS } from "./ecc.ts";
+import { decodeJPEG, encodeJPEG } from "./jpeg.ts";
+
+const OPTIONS: CodecOptions = {
+  robustness: DEFAULT_ROBUSTNESS,
+  key: "",
+  embedding: DEFAULT_LSB_EMBEDDING,
+  matrixEmbedding: false,
+  classic: DEFAULT_CLASSIC_PARAMS,
+  dwtStep: DEFAULT_DWT_STEP,
+};
+
+// A photo-like cover: smooth gradients plus seeded noise, clear of the
+// extremes where clipping would cost bits
+function texturedCover(width: number, height: number, seed: number): CoverImage {
+  const pixels = new Uint8Array(width * height * 3);
+  let state = seed;
+  const noise = () => {
+    state = (state * 1103515245 + 12345) >>> 0;
+    return (state >>> 16) % 17 - 8;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      pixels[i] = 70 + (x * 110) / width + noise();
+      pixels[i + 1] = 90 + (y * 80) / height + noise();
+      pixels[i + 2] = 120 + ((x + y) * 40) / (width + height) + noise();
+    }
+  }
+  return { width, height, pixels, alpha: null };
+}
+
+Deno.test(`DCT payload survives JPEG recompression at quality ${DCT_SURVIVAL_QUALITY}`, async () => {
+  const cover = texturedCover(256, 256, 7);
+  const message = new TextEncoder().encode("Meet at the old mill at dawn.");
+  const sealed = sealPayload(dctCodec, OPTIONS, message, false);
+  const result = await dctCodec.embed({ format: "png", bytes: new Uint8Array(0), image: cover }, sealed, OPTIONS);
+  assert(result.file, "the DCT codec writes its own JPEG");
+
+  const stego = decodeJPEG(result.file.bytes);
+  const bytes = encodeJPEG(stego.width, stego.height, stego.pixels, DCT_SURVIVAL_QUALITY);
+  const image = { ...decodeJPEG(bytes), alpha: null };
+
+  const match = await findPayload({ format: "jpeg", bytes, image }, "");
+  assert(match?.frame, `no payload found after recompression${match?.error ? `: ${match.error}` : ""}`);
+  assertEquals(match.codec.id, "dct");
+  assertEquals(unsealPayload(match.codec, match.frame).payload, message);
+});
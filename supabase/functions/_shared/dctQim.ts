@@ -0,0 +1,183 @@
+// JPEG-robust embedding by quantization index modulation (QIM) on
+// mid-frequency DCT coefficients of the luma channel.
+//
+// Each full 8×8 luma block carries one bit in each of five low/mid-frequency
+// coefficients: the coefficient is moved to the nearest multiple of STEP
+// (bit 0) or the nearest odd multiple of STEP / 2 (bit 1). Re-encoding at
+// JPEG quality q shifts these coefficients by at most half the quantizer
+// step, which stays below STEP / 4 for q ≥ DCT_SURVIVAL_QUALITY, so the bits
+// survive recompression as long as the image is not resized or cropped. The
+// bits form an error-corrected frame (see ecc.ts) that absorbs the odd bit
+// lost to clipping or heavier compression.
+//
+// dctCodec is the "dct" method; it writes the JPEG itself and checks that
+// the frame survives that encoding.
+
+import { forwardDCT, inverseDCT } from "./dct.ts";
+import { eccCapacity, embedEccFrame, type EccFrame, extractEccFrame, hasEccFrame, type RobustnessLevel } from "./ecc.ts";
+import { decodeJPEG, encodeJPEG } from "./jpeg.ts";
+import { type Codec, fromEccFrame, requireImage } from "./codec.ts";
+
+export const DCT_SURVIVAL_QUALITY = 70;
+// Quality of the JPEG written by the encoder; fine enough not to disturb the bits
+export const DCT_OUTPUT_QUALITY = 95;
+
+// Natural (row-major) indices of the carrier coefficients: (0,2) (1,1) (2,0) (1,2) (2,1)
+const POSITIONS = [2, 9, 16, 10, 17];
+const STEP = 24;
+const MAX_PASSES = 3;
+
+const blockCount = (width: number, height: number): number => Math.floor(width / 8) * Math.floor(height / 8);
+
+export function dctSlotCount(width: number, height: number): number {
+  return blockCount(width, height) * POSITIONS.length;
+}
+
+export function dctCapacity(width: number, height: number, level: RobustnessLevel): number {
+  return eccCapacity(dctSlotCount(width, height), level);
+}
+
+const luma = (rgb: Uint8Array, i: number): number => 0.299 * rgb[i] + 0.587 * rgb[i + 1] + 0.114 * rgb[i + 2];
+
+const readBit = (coefficient: number): number => Math.round(coefficient / (STEP / 2)) & 1;
+
+const quantizeTo = (coefficient: number, bit: number): number => {
+  const offset = bit ? STEP / 2 : 0;
+  return Math.round((coefficient - offset) / STEP) * STEP + offset;
+};
+
+function loadBlock(rgb: Uint8Array, width: number, bx: number, by: number, out: Float64Array): void {
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      out[y * 8 + x] = luma(rgb, ((by * 8 + y) * width + bx * 8 + x) * 3) - 128;
+    }
+  }
+}
+
+// Returns a copy of `rgb` carrying the payload; write it out as a JPEG at
+// DCT_OUTPUT_QUALITY or better (or losslessly)
+export function embedDCT(
+  rgb: Uint8Array,
+  width: number,
+  height: number,
+  payload: Uint8Array,
+  level: RobustnessLevel
+): Uint8Array {
+  const slots = dctSlotCount(width, height);
+  const bits = embedEccFrame(new Uint8Array(slots), payload, level);
+  const out = new Uint8Array(rgb);
+  const blocksPerLine = Math.floor(width / 8);
+
+  const samples = new Float64Array(64);
+  const coefficients = new Float64Array(64);
+  const target = new Float64Array(64);
+  for (let b = 0; b < blockCount(width, height); b++) {
+    const bx = b % blocksPerLine;
+    const by = Math.floor(b / blocksPerLine);
+    const blockBits = POSITIONS.map((_, p) => bits[b * POSITIONS.length + p] & 1);
+
+    // Clipping at 0/255 can pull a coefficient back; re-apply a few times
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      loadBlock(out, width, bx, by, samples);
+      forwardDCT(samples, coefficients);
+      let settled = true;
+      coefficients.forEach((c, i) => (target[i] = c));
+      POSITIONS.forEach((pos, p) => {
+        const wanted = quantizeTo(coefficients[pos], blockBits[p]);
+        if (Math.abs(wanted - coefficients[pos]) > 0.5) settled = false;
+        target[pos] = wanted;
+      });
+      if (settled) break;
+
+      // Apply the luma change to all three channels so chroma is untouched
+      inverseDCT(target, coefficients);
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          const delta = coefficients[y * 8 + x] - samples[y * 8 + x];
+          const o = ((by * 8 + y) * width + bx * 8 + x) * 3;
+          for (let c = 0; c < 3; c++) out[o + c] = Math.max(0, Math.min(255, Math.round(out[o + c] + delta)));
+        }
+      }
+    }
+  }
+  return out;
+}
+
+function readDCTBits(rgb: Uint8Array, width: number, height: number): Uint8Array {
+  const bits = new Uint8Array(dctSlotCount(width, height));
+  const blocksPerLine = Math.floor(width / 8);
+  const samples = new Float64Array(64);
+  const coefficients = new Float64Array(64);
+  for (let b = 0; b < blockCount(width, height); b++) {
+    loadBlock(rgb, width, b % blocksPerLine, Math.floor(b / blocksPerLine), samples);
+    forwardDCT(samples, coefficients);
+    POSITIONS.forEach((pos, p) => (bits[b * POSITIONS.length + p] = readBit(coefficients[pos])));
+  }
+  return bits;
+}
+
+// Returns null when the image carries no DCT frame; throws when a frame is
+// present but damaged beyond repair
+export function extractDCT(rgb: Uint8Array, width: number, height: number): EccFrame | null {
+  if (dctSlotCount(width, height) === 0) return null;
+  return extractEccFrame(readDCTBits(rgb, width, height));
+}
+
+export const dctCodec: Codec = {
+  id: "dct",
+  name: "DCT-QIM",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["bmp", "png", "tiff", "webp", "jpeg"],
+    writable: true,
+    keyed: false,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: true,
+  },
+
+  capacity(cover, options) {
+    const { width, height } = requireImage(cover, "DCT");
+    return dctCapacity(width, height, options.robustness);
+  },
+
+  async embed(cover, payload, options) {
+    const image = requireImage(cover, "DCT");
+    const { width, height } = image;
+    const bytes = encodeJPEG(width, height, embedDCT(image.pixels, width, height, payload, options.robustness), DCT_OUTPUT_QUALITY);
+
+    // Measure and verify what a decoder will actually see: clipping in very
+    // dark or bright blocks can cost bits the robustness level cannot repair
+    const pixels = decodeJPEG(bytes).pixels;
+    let recovered: Uint8Array | null = null;
+    try {
+      recovered = extractDCT(pixels, width, height)?.payload ?? null;
+    } catch {
+      recovered = null;
+    }
+    if (!recovered || recovered.length !== payload.length || recovered.some((b, i) => b !== payload[i])) {
+      throw new Error(
+        "The hidden data did not survive JPEG encoding of this image. Choose a higher robustness level or a less saturated cover."
+      );
+    }
+    return {
+      image: { width, height, pixels, alpha: null },
+      file: { bytes, format: "jpeg" },
+      embeddedBits: null,
+      changedSamples: null,
+      details: {},
+    };
+  },
+
+  async extract(stego) {
+    const { pixels, width, height } = requireImage(stego, "DCT");
+    const frame = extractDCT(pixels, width, height);
+    return frame ? fromEccFrame(frame) : null;
+  },
+
+  async detect(stego) {
+    const { pixels, width, height } = requireImage(stego, "DCT");
+    return dctSlotCount(width, height) > 0 && hasEccFrame(readDCTBits(pixels, width, height));
+  },
+};
@@ -0,0 +1,65 @@
+// Orthonormal 2-D Haar wavelet transform and its inverse, in place on a
+// row-major plane. Each level splits the current low-pass region (the top-left
+// width/2^l × height/2^l corner) into LL | HL over LH | HH quadrants (Mallat
+// layout): HL holds horizontal detail, LH vertical detail. Both dimensions
+// must be divisible by 2^levels.
+
+const SCALE = Math.SQRT1_2;
+
+function forwardLevel(plane: Float64Array, stride: number, width: number, height: number): void {
+  const half = width / 2;
+  const row = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    const o = y * stride;
+    for (let x = 0; x < half; x++) {
+      const a = plane[o + 2 * x], b = plane[o + 2 * x + 1];
+      row[x] = (a + b) * SCALE;
+      row[half + x] = (a - b) * SCALE;
+    }
+    plane.set(row, o);
+  }
+  const halfH = height / 2;
+  const column = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < halfH; y++) {
+      const a = plane[2 * y * stride + x], b = plane[(2 * y + 1) * stride + x];
+      column[y] = (a + b) * SCALE;
+      column[halfH + y] = (a - b) * SCALE;
+    }
+    for (let y = 0; y < height; y++) plane[y * stride + x] = column[y];
+  }
+}
+
+function inverseLevel(plane: Float64Array, stride: number, width: number, height: number): void {
+  const halfH = height / 2;
+  const column = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < halfH; y++) {
+      const s = plane[y * stride + x], d = plane[(halfH + y) * stride + x];
+      column[2 * y] = (s + d) * SCALE;
+      column[2 * y + 1] = (s - d) * SCALE;
+    }
+    for (let y = 0; y < height; y++) plane[y * stride + x] = column[y];
+  }
+  const half = width / 2;
+  const row = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    const o = y * stride;
+    for (let x = 0; x < half; x++) {
+      const s = plane[o + x], d = plane[o + half + x];
+      row[2 * x] = (s + d) * SCALE;
+      row[2 * x + 1] = (s - d) * SCALE;
+    }
+    plane.set(row, o);
+  }
+}
+
+export function forwardHaar(plane: Float64Array, width: number, height: number, levels: number): Float64Array {
+  for (let l = 0; l < levels; l++) forwardLevel(plane, width, width >> l, height >> l);
+  return plane;
+}
+
+export function inverseHaar(plane: Float64Array, width: number, height: number, levels: number): Float64Array {
+  for (let l = levels - 1; l >= 0; l--) inverseLevel(plane, width, width >> l, height >> l);
+  return plane;
+}
@@ -0,0 +1,272 @@
+// Error-corrected LSB frame shared by the edge functions and the browser.
+//
+// The carrier is any byte array whose least significant bits hold the frame
+// (packed RGB samples). Layout:
+//
+//   header  magic 0xEC | version u8 | mode u8 | payload length u32 BE,
+//           Reed–Solomon protected with HEADER_PARITY bytes. The mode byte
+//           holds the robustness level index in its low nibble and sets
+//           MODE_MATCHING when the bits were written by LSB matching.
+//   body    payload || crc32(payload), split into RS codewords whose parity
+//           depends on the robustness level
+//
+// Header bits sit at a fixed stride across the whole carrier. Body bytes are
+// interleaved across codewords and their bits spread evenly over the
+// remaining samples, so a damaged region turns into a few byte errors in
+// many codewords rather than many errors in one.
+//
+// Bits are written by LSB replacement (clear the LSB, set the bit) or by LSB
+// matching: a sample whose LSB is wrong is moved by a random ±1 (away from
+// 0 and 255 at the ends), which avoids the pairs-of-values histogram
+// artifact that chi-square and RS steganalysis detect. Both read back the
+// same way.
+
+import { crc32 } from "./crc32.ts";
+import { RS_MAX_CODEWORD, rsDecode, rsEncode } from "./reedSolomon.ts";
+
+export type RobustnessLevel = "none" | "low" | "medium" | "high";
+
+export const ROBUSTNESS_LEVELS: RobustnessLevel[] = ["none", "low", "medium", "high"];
+export const DEFAULT_ROBUSTNESS: RobustnessLevel = "medium";
+
+export type LsbEmbedding = "replacement" | "matching";
+
+export const LSB_EMBEDDINGS: LsbEmbedding[] = ["replacement", "matching"];
+export const DEFAULT_LSB_EMBEDDING: LsbEmbedding = "replacement";
+
+// Parity bytes per 255-byte codeword; each corrects half as many byte errors
+const LEVEL_PARITY: Record<RobustnessLevel, number> = { none: 0, low: 16, medium: 32, high: 64 };
+
+const FRAME_MAGIC = 0xEC;
+const FRAME_VERSION = 1;
+const MODE_LEVEL_MASK = 0x0F;
+const MODE_MATCHING = 0x80;
+const HEADER_DATA_BYTES = 7;
+const HEADER_PARITY = 16;
+const HEADER_BITS = (HEADER_DATA_BYTES + HEADER_PARITY) * 8;
+const CRC_BYTES = 4;
+
+export interface EccFrame {
+  payload: Uint8Array;
+  level: RobustnessLevel;
+  embedding: LsbEmbedding;
+  correctedErrors: number; // bytes repaired across header and body
+}
+
+export function parseRobustness(value: unknown): RobustnessLevel {
+  if (value === null || value === undefined || value === "") return DEFAULT_ROBUSTNESS;
+  if (typeof value === "string" && (ROBUSTNESS_LEVELS as string[]).includes(value)) {
+    return value as RobustnessLevel;
+  }
+  throw new Error(`Unknown robustness level: ${String(value)}`);
+}
+
+export function parseLsbEmbedding(value: unknown): LsbEmbedding {
+  if (value === null || value === undefined || value === "") return DEFAULT_LSB_EMBEDDING;
+  if (typeof value === "string" && (LSB_EMBEDDINGS as string[]).includes(value)) {
+    return value as LsbEmbedding;
+  }
+  throw new Error(`Unknown LSB embedding: ${String(value)}`);
+}
+
+// Moves a sample to the opposite LSB: replacement toggles the bit, matching
+// steps by a random ±1 (inward at 0 and 255) with signs drawn in batches
+export function lsbFlipper(embedding: LsbEmbedding): (value: number) => number {
+  if (embedding === "replacement") return (value) => value ^ 1;
+  const signs = new Uint8Array(65536);
+  let next = signs.length;
+  return (value) => {
+    if (value === 0) return 1;
+    if (value === 255) return 254;
+    if (next === signs.length) {
+      crypto.getRandomValues(signs);
+      next = 0;
+    }
+    return signs[next++] & 1 ? value + 1 : value - 1;
+  };
+}
+
+// Sizes of the body codewords for `length` data bytes
+function blockLayout(length: number, parity: number): number[] {
+  const perBlock = RS_MAX_CODEWORD - parity;
+  const blocks = Math.max(1, Math.ceil(length / perBlock));
+  const base = Math.floor(length / blocks);
+  const extra = length % blocks;
+  return Array.from({ length: blocks }, (_, i) => base + (i < extra ? 1 : 0));
+}
+
+const codedLength = (length: number, parity: number): number =>
+  length + blockLayout(length, parity).length * parity;
+
+// Largest payload (bytes) a carrier of `slots` samples holds at `level`
+export function eccCapacity(slots: number, level: RobustnessLevel): number {
+  const bodyBytes = Math.floor((slots - HEADER_BITS) / 8);
+  if (slots < HEADER_BITS * 2 || bodyBytes <= CRC_BYTES) return 0;
+  const parity = LEVEL_PARITY[level];
+  if (parity === 0) return bodyBytes - CRC_BYTES;
+  const full = Math.floor(bodyBytes / RS_MAX_CODEWORD);
+  const rest = bodyBytes - full * RS_MAX_CODEWORD;
+  const data = full * (RS_MAX_CODEWORD - parity) + Math.max(0, rest - parity);
+  return Math.max(0, data - CRC_BYTES);
+}
+
+// Carrier slots a frame for `length` payload bytes writes
+export const eccFrameBits = (length: number, level: RobustnessLevel): number =>
+  HEADER_BITS + codedLength(length + CRC_BYTES, LEVEL_PARITY[level]) * 8;
+
+// Position of body slot `index`: every stride-th sample belongs to the header
+function bodyPosition(index: number, stride: number): number {
+  const shared = HEADER_BITS * (stride - 1);
+  if (index < shared) return Math.floor(index / (stride - 1)) * stride + (index % (stride - 1)) + 1;
+  return HEADER_BITS * stride + (index - shared);
+}
+
+export function embedEccFrame(
+  carrier: Uint8Array,
+  payload: Uint8Array,
+  level: RobustnessLevel,
+  embedding: LsbEmbedding = DEFAULT_LSB_EMBEDDING
+): Uint8Array {
+  const capacity = eccCapacity(carrier.length, level);
+  if (payload.length > capacity) {
+    throw new Error(`Payload too large: ${payload.length} bytes. Maximum ${capacity} bytes fit in this image.`);
+  }
+  const parity = LEVEL_PARITY[level];
+  const out = new Uint8Array(carrier);
+  const flip = lsbFlipper(embedding);
+  const write = (value: number, bit: number): number => ((value & 1) === bit ? value : flip(value));
+  const stride = Math.floor(carrier.length / HEADER_BITS);
+
+  const header = new Uint8Array(HEADER_DATA_BYTES);
+  header[0] = FRAME_MAGIC;
+  header[1] = FRAME_VERSION;
+  header[2] = ROBUSTNESS_LEVELS.indexOf(level) | (embedding === "matching" ? MODE_MATCHING : 0);
+  new DataView(header.buffer).setUint32(3, payload.length, false);
+  const headerCode = rsEncode(header, HEADER_PARITY);
+  for (let i = 0; i < HEADER_BITS; i++) {
+    const bit = (headerCode[i >> 3] >> (7 - (i & 7))) & 1;
+    out[i * stride] = write(out[i * stride], bit);
+  }
+
+  const data = new Uint8Array(payload.length + CRC_BYTES);
+  data.set(payload, 0);
+  new DataView(data.buffer).setUint32(payload.length, crc32(payload), false);
+
+  // Encode each block, then interleave: byte c of every codeword in turn
+  const codewords: Uint8Array[] = [];
+  let offset = 0;
+  for (const size of blockLayout(data.length, parity)) {
+    codewords.push(rsEncode(data.subarray(offset, offset + size), parity));
+    offset += size;
+  }
+  const body = new Uint8Array(codedLength(data.length, parity));
+  let k = 0;
+  for (let c = 0; k < body.length; c++) {
+    for (const codeword of codewords) if (c < codeword.length) body[k++] = codeword[c];
+  }
+
+  const bodySlots = carrier.length - HEADER_BITS;
+  const bits = body.length * 8;
+  for (let i = 0; i < bits; i++) {
+    const pos = bodyPosition(Math.floor((i * bodySlots) / bits), stride);
+    const bit = (body[i >> 3] >> (7 - (i & 7))) & 1;
+    out[pos] = write(out[pos], bit);
+  }
+  return out;
+}
+
+// Frame bits over an all-zero virtual carrier of `slots` bits, and which
+// slots the frame writes (a slot is written when embedding over all-zero and
+// all-one carriers agrees on it). Coders that embed the frame indirectly may
+// leave the other slots at any value.
+export function eccFrameLayout(
+  slots: number,
+  payload: Uint8Array,
+  level: RobustnessLevel,
+  embedding: LsbEmbedding = DEFAULT_LSB_EMBEDDING
+): { bits: Uint8Array; written: Uint8Array } {
+  const bits = embedEccFrame(new Uint8Array(slots), payload, level, embedding);
+  const ones = embedEccFrame(new Uint8Array(slots).fill(1), payload, level, embedding);
+  const written = new Uint8Array(slots);
+  for (let i = 0; i < slots; i++) written[i] = (bits[i] & 1) === (ones[i] & 1) ? 1 : 0;
+  return { bits, written };
+}
+
+// Frame header from the fixed-stride header slots, or null when they do not
+// hold one
+function readFrameHeader(carrier: Uint8Array): { header: Uint8Array; corrected: number } | null {
+  if (carrier.length < HEADER_BITS * 2) return null;
+  const stride = Math.floor(carrier.length / HEADER_BITS);
+  const headerCode = new Uint8Array(HEADER_BITS / 8);
+  for (let i = 0; i < HEADER_BITS; i++) {
+    headerCode[i >> 3] |= (carrier[i * stride] & 1) << (7 - (i & 7));
+  }
+  try {
+    const { data, corrected } = rsDecode(headerCode, HEADER_PARITY);
+    return data[0] === FRAME_MAGIC ? { header: data, corrected } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether the carrier starts an ECC frame; reads only the header
+export const hasEccFrame = (carrier: Uint8Array): boolean => readFrameHeader(carrier) !== null;
+
+// Returns null when the carrier holds no ECC frame; throws when a frame is
+// present but damaged beyond what its parity can repair
+export function extractEccFrame(carrier: Uint8Array): EccFrame | null {
+  const read = readFrameHeader(carrier);
+  if (!read) return null;
+  const { header } = read;
+  let correctedErrors = read.corrected;
+  const stride = Math.floor(carrier.length / HEADER_BITS);
+  if (header[1] !== FRAME_VERSION) {
+    throw new Error(`Unsupported error-corrected frame version: ${header[1]}`);
+  }
+  const mode = header[2];
+  const level = ROBUSTNESS_LEVELS[mode & MODE_LEVEL_MASK];
+  if (!level || mode & ~(MODE_LEVEL_MASK | MODE_MATCHING)) {
+    throw new Error(`Unknown frame mode in hidden data: ${mode}`);
+  }
+  const embedding: LsbEmbedding = mode & MODE_MATCHING ? "matching" : "replacement";
+  const length = new DataView(header.buffer, header.byteOffset).getUint32(3, false);
+  if (length > eccCapacity(carrier.length, level)) {
+    throw new Error("Corrupt hidden payload: declared length exceeds image capacity.");
+  }
+
+  const parity = LEVEL_PARITY[level];
+  const layout = blockLayout(length + CRC_BYTES, parity);
+  const body = new Uint8Array(codedLength(length + CRC_BYTES, parity));
+  const bodySlots = carrier.length - HEADER_BITS;
+  const bits = body.length * 8;
+  for (let i = 0; i < bits; i++) {
+    const pos = bodyPosition(Math.floor((i * bodySlots) / bits), stride);
+    body[i >> 3] |= (carrier[pos] & 1) << (7 - (i & 7));
+  }
+
+  const codewords = layout.map((size) => new Uint8Array(size + parity));
+  let k = 0;
+  for (let c = 0; k < body.length; c++) {
+    for (const codeword of codewords) if (c < codeword.length) codeword[c] = body[k++];
+  }
+
+  const data = new Uint8Array(length + CRC_BYTES);
+  let offset = 0;
+  for (const codeword of codewords) {
+    let decoded: { data: Uint8Array; corrected: number };
+    try {
+      decoded = rsDecode(codeword, parity);
+    } catch {
+      throw new Error("Hidden data is too damaged to recover: more errors than the chosen robustness level can correct.");
+    }
+    data.set(decoded.data, offset);
+    offset += decoded.data.length;
+    correctedErrors += decoded.corrected;
+  }
+
+  const payload = data.slice(0, length);
+  if (new DataView(data.buffer).getUint32(length, false) !== crc32(payload)) {
+    throw new Error("Hidden data is too damaged to recover: checksum mismatch after error correction.");
+  }
+  return { payload, level, embedding, correctedErrors };
+}
@@ -0,0 +1,164 @@
+// Palette steganography after EzStego (Machado, 1996) for GIF and palette
+// PNG covers, where flipping the LSB of a pixel's index in an arbitrary
+// palette can swap a colour for an unrelated one.
+//
+// The cover's colours are sorted by luminance (translucent entries first),
+// so entries 2k and 2k + 1 — the two values an index LSB chooses between —
+// are as close as the palette allows; the stego file is written with the
+// sorted palette and the bits go into the index LSBs. Pixels whose pair of
+// entries differ in alpha are skipped, and since flipping a bit keeps a
+// pixel in its pair, the decoder finds the same pixels from the stego
+// file's palette alone, without sorting anything.
+//
+// The bits form an error-corrected frame (ecc.ts) over the usable pixels,
+// in a key-seeded order when a key is given. The stego file keeps the
+// cover's format: GIF covers give a GIF, palette PNGs a palette PNG.
+//
+// ezStegoCodec is the "ezstego" method.
+
+import { eccCapacity, eccFrameBits, embedEccFrame, extractEccFrame, hasEccFrame } from "./ecc.ts";
+import { candidateCarriers, gatherSamples, keyedSampleOrder, scatterSamples } from "./sampleOrder.ts";
+import { type Codec, type CoverImage, fromEccFrame, requireImage, type StegoCarrier } from "./codec.ts";
+import { type IndexedImage, indexedToRgb, paletteSize } from "./indexedImage.ts";
+import { decodeGIF, encodeGIF } from "./gif.ts";
+import { decodePNG, encodeIndexedPNG, isPalettePNG } from "./png.ts";
+
+const MAX_COLOURS = 256;
+
+// Whether the cover is a palette image this codec can write
+export const isPaletteImage = (carrier: StegoCarrier): boolean =>
+  carrier.format === "gif" || (carrier.format === "png" && isPalettePNG(carrier.bytes));
+
+function requirePaletteImage(carrier: StegoCarrier): CoverImage {
+  const image = requireImage(carrier, "EzStego");
+  if (!isPaletteImage(carrier)) throw new Error("EzStego mode needs a GIF or palette PNG cover image");
+  return image;
+}
+
+// The cover's colours as a luminance-sorted palette, padded to an even
+// number of entries so every entry has a partner
+function sortedPalette(image: CoverImage): IndexedImage {
+  const { width, height, pixels, alpha } = image;
+  const count = width * height;
+  // RGBA as one number, alpha in the top byte
+  const colourOf = (p: number) =>
+    (alpha ? alpha[p] : 255) * 0x1000000 + (pixels[p * 3] << 16) + (pixels[p * 3 + 1] << 8) + pixels[p * 3 + 2];
+  const colours = new Set<number>();
+  for (let p = 0; p < count; p++) {
+    colours.add(colourOf(p));
+    if (colours.size > MAX_COLOURS) throw new Error(`EzStego mode needs at most ${MAX_COLOURS} colours`);
+  }
+
+  const luminance = (c: number) => 299 * ((c >> 16) & 0xFF) + 587 * ((c >> 8) & 0xFF) + 114 * (c & 0xFF);
+  const opacity = (c: number) => Math.floor(c / 0x1000000);
+  const sorted = [...colours].sort((a, b) => opacity(a) - opacity(b) || luminance(a) - luminance(b) || a - b);
+  // The pad repeats the last (brightest opaque) entry; a translucent last
+  // entry is paired with opaque black instead, as GIF marks only one entry
+  // transparent and a translucent copy would not survive
+  const last = sorted[sorted.length - 1];
+  if (sorted.length % 2) sorted.push(opacity(last) === 255 ? last : 255 * 0x1000000);
+
+  const palette = new Uint8Array(sorted.length * 3);
+  const entryAlpha = new Uint8Array(sorted.length);
+  const entryOf = new Map<number, number>();
+  sorted.forEach((c, i) => {
+    palette[i * 3] = (c >> 16) & 0xFF;
+    palette[i * 3 + 1] = (c >> 8) & 0xFF;
+    palette[i * 3 + 2] = c & 0xFF;
+    entryAlpha[i] = opacity(c);
+    if (!entryOf.has(c)) entryOf.set(c, i);
+  });
+
+  const indices = new Uint8Array(count);
+  for (let p = 0; p < count; p++) indices[p] = entryOf.get(colourOf(p))!;
+  return { width, height, indices, palette, alpha: entryAlpha.some((a) => a !== 255) ? entryAlpha : null };
+}
+
+// Pixels whose index pair shares one alpha value
+function usablePixels(image: IndexedImage): Uint32Array {
+  const { indices, alpha } = image;
+  const size = paletteSize(image);
+  const usable = new Uint32Array(indices.length);
+  let n = 0;
+  for (let p = 0; p < indices.length; p++) {
+    const partner = indices[p] ^ 1;
+    if (partner >= size) continue;
+    if (alpha && alpha[indices[p]] !== alpha[partner]) continue;
+    usable[n++] = p;
+  }
+  return usable.subarray(0, n);
+}
+
+const gatherIndices = (indices: Uint8Array, usable: Uint32Array): Uint8Array => {
+  const carrier = new Uint8Array(usable.length);
+  for (let i = 0; i < usable.length; i++) carrier[i] = indices[usable[i]];
+  return carrier;
+};
+
+// Indices and palette as stored in a GIF or palette PNG; null for other images
+async function readIndexed(stego: StegoCarrier): Promise<IndexedImage | null> {
+  if (stego.format === "gif") return decodeGIF(stego.bytes);
+  if (stego.format === "png" && isPalettePNG(stego.bytes)) return (await decodePNG(stego.bytes)).indexed;
+  return null;
+}
+
+async function stegoCarriers(stego: StegoCarrier, key: string): Promise<Uint8Array[]> {
+  const indexed = await readIndexed(stego);
+  if (!indexed) return [];
+  return candidateCarriers(gatherIndices(indexed.indices, usablePixels(indexed)), key);
+}
+
+export const ezStegoCodec: Codec = {
+  id: "ezstego",
+  name: "EzStego",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["gif", "png"],
+    writable: true,
+    keyed: true,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity(cover, options) {
+    return eccCapacity(usablePixels(sortedPalette(requirePaletteImage(cover))).length, options.robustness);
+  },
+
+  async embed(cover, payload, options) {
+    const indexed = sortedPalette(requirePaletteImage(cover));
+    const usable = usablePixels(indexed);
+    const carrier = gatherIndices(indexed.indices, usable);
+    const order = options.key ? await keyedSampleOrder(options.key, carrier.length) : null;
+    // Replacement flips an index's LSB, moving it to its partner entry
+    const embedded = embedEccFrame(order ? gatherSamples(carrier, order) : carrier, payload, options.robustness, "replacement");
+    const values = order ? scatterSamples(carrier, order, embedded) : embedded;
+
+    const indices = new Uint8Array(indexed.indices);
+    let changedSamples = 0;
+    for (let i = 0; i < usable.length; i++) {
+      if (values[i] !== indices[usable[i]]) changedSamples++;
+      indices[usable[i]] = values[i];
+    }
+    const stego = { ...indexed, indices };
+    const bytes = cover.format === "gif" ? encodeGIF(stego) : await encodeIndexedPNG(stego);
+    return {
+      image: indexedToRgb(stego),
+      file: { bytes, format: cover.format },
+      embeddedBits: eccFrameBits(payload.length, options.robustness),
+      changedSamples,
+      details: {},
+    };
+  },
+
+  async extract(stego, key) {
+    for (const carrier of await stegoCarriers(stego, key)) {
+      const frame = extractEccFrame(carrier);
+      if (frame) return fromEccFrame(frame);
+    }
+    return null;
+  },
+
+  detect: async (stego, key) => (await stegoCarriers(stego, key)).some(hasEccFrame),
+};
@@ -0,0 +1,374 @@
+// GIF codec shared by the steganography edge functions and the browser.
+//
+// Decodes the first image of a GIF87a/GIF89a file (global or local colour
+// table, interlacing, the transparent index of its graphic control
+// extension) onto the logical screen as an indexed image, and writes an
+// indexed image back as a single-image GIF89a. Both directions keep palette
+// indices exactly, which the EzStego codec relies on. Animated GIFs are
+// read frame by frame (parseGIF) and can have the image data of single
+// frames replaced while every other block stays as it was.
+
+import { type IndexedImage, paletteSize } from "./indexedImage.ts";
+
+const MAX_CODES = 4096;
+const TRAILER = 0x3B;
+const EXTENSION = 0x21;
+const IMAGE_DESCRIPTOR = 0x2C;
+const GRAPHIC_CONTROL = 0xF9;
+
+export function isGIF(data: Uint8Array): boolean {
+  if (data.length < 6) return false;
+  const signature = String.fromCharCode(...data.subarray(0, 6));
+  return signature === "GIF87a" || signature === "GIF89a";
+}
+
+// Concatenated data sub-blocks from `offset`, and the offset past the terminator
+function readSubBlocks(data: Uint8Array, offset: number): { bytes: Uint8Array; end: number } {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  while (offset < data.length) {
+    const size = data[offset++];
+    if (size === 0) break;
+    if (offset + size > data.length) throw new Error("Corrupt GIF: truncated data block");
+    parts.push(data.subarray(offset, offset + size));
+    length += size;
+    offset += size;
+  }
+  const bytes = new Uint8Array(length);
+  let pos = 0;
+  for (const part of parts) {
+    bytes.set(part, pos);
+    pos += part.length;
+  }
+  return { bytes, end: offset };
+}
+
+// Variable-width LZW as GIF uses it: codes packed LSB first, a clear code
+// resetting the table, and widths growing up to 12 bits. Decoding stops at
+// the end code or once `count` indices are out; a short stream leaves the
+// rest at index 0, as viewers do.
+function lzwDecode(data: Uint8Array, minCodeSize: number, count: number): Uint8Array {
+  const out = new Uint8Array(count);
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const prefix = new Int16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const first = new Uint8Array(MAX_CODES);
+  const length = new Uint16Array(MAX_CODES);
+  for (let i = 0; i < clear; i++) {
+    suffix[i] = first[i] = i;
+    length[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = clear + 2;
+  let prev = -1;
+  let bits = 0;
+  let bitCount = 0;
+  let pos = 0;
+  let o = 0;
+  while (o < count) {
+    while (bitCount < codeSize && pos < data.length) {
+      bits |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) break;
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = clear + 2;
+      prev = -1;
+      continue;
+    }
+    if (code === end) break;
+    if (prev === -1) {
+      if (code >= clear) throw new Error("Corrupt GIF: invalid LZW code");
+      out[o++] = code;
+      prev = code;
+      continue;
+    }
+    if (code > next) throw new Error("Corrupt GIF: invalid LZW code");
+    if (next < MAX_CODES) {
+      prefix[next] = prev;
+      suffix[next] = first[code === next ? prev : code];
+      first[next] = first[prev];
+      length[next] = length[prev] + 1;
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    // The string of `code`, written back to front
+    const len = length[code];
+    for (let c = code, j = o + len - 1; j >= o; j--) {
+      if (j < count) out[j] = suffix[c];
+      c = prefix[c];
+    }
+    o += len;
+    prev = code;
+  }
+  return out;
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let next = clear + 2;
+  let table = new Map<number, number>();
+  let bits = 0;
+  let bitCount = 0;
+  const write = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bits & 0xFF);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  write(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (next < MAX_CODES) {
+      table.set(key, next++);
+      // The decoder adds each entry one code later, so widens one code later
+      if (next > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      write(clear);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      next = clear + 2;
+    }
+    prefix = k;
+  }
+  write(prefix);
+  write(end);
+  if (bitCount > 0) out.push(bits & 0xFF);
+  return Uint8Array.from(out);
+}
+
+// Rows of an interlaced image in the order they are stored
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) rows.push(y);
+  }
+  return rows;
+}
+
+export interface GifFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  table: Uint8Array; // the frame's colour table: its local one, else the global one
+  transparent: number; // transparent index from the frame's graphic control extension, -1 for none
+  dataStart: number; // offset of the LZW code size byte
+  dataEnd: number; // offset past the image data's block terminator
+}
+
+export interface ParsedGIF {
+  width: number;
+  height: number;
+  background: number;
+  frames: GifFrame[];
+}
+
+// Logical screen and every image of a GIF, without decoding image data
+export function parseGIF(data: Uint8Array): ParsedGIF {
+  if (!isGIF(data)) throw new Error("Not a valid GIF file");
+  if (data.length < 13) throw new Error("Corrupt GIF: truncated header");
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const screenFlags = data[10];
+  const background = data[11];
+  let offset = 13;
+  let globalTable: Uint8Array | null = null;
+  if (screenFlags & 0x80) {
+    const size = 3 << ((screenFlags & 7) + 1);
+    if (offset + size > data.length) throw new Error("Corrupt GIF: truncated colour table");
+    globalTable = data.subarray(offset, offset + size);
+    offset += size;
+  }
+  if (!width || !height) throw new Error("Corrupt GIF: empty logical screen");
+
+  const frames: GifFrame[] = [];
+  // A graphic control extension applies to the next image only
+  let transparent = -1;
+  while (offset < data.length) {
+    const block = data[offset++];
+    if (block === TRAILER) break;
+    if (block === EXTENSION) {
+      const label = data[offset++];
+      const { bytes, end } = readSubBlocks(data, offset);
+      if (label === GRAPHIC_CONTROL && bytes.length >= 4) transparent = bytes[0] & 1 ? bytes[3] : -1;
+      offset = end;
+      continue;
+    }
+    if (block !== IMAGE_DESCRIPTOR) throw new Error(`Corrupt GIF: unknown block 0x${block.toString(16)}`);
+
+    if (offset + 9 > data.length) throw new Error("Corrupt GIF: truncated image descriptor");
+    const left = view.getUint16(offset, true);
+    const top = view.getUint16(offset + 2, true);
+    const frameWidth = view.getUint16(offset + 4, true);
+    const frameHeight = view.getUint16(offset + 6, true);
+    const frameFlags = data[offset + 8];
+    offset += 9;
+    let table = globalTable;
+    if (frameFlags & 0x80) {
+      const size = 3 << ((frameFlags & 7) + 1);
+      if (offset + size > data.length) throw new Error("Corrupt GIF: truncated colour table");
+      table = data.subarray(offset, offset + size);
+      offset += size;
+    }
+    if (!table) throw new Error("Corrupt GIF: image without a colour table");
+    const dataStart = offset;
+    const minCodeSize = data[offset];
+    if (minCodeSize < 2 || minCodeSize > 8) throw new Error(`Corrupt GIF: LZW code size ${minCodeSize}`);
+    offset = readSubBlocks(data, offset + 1).end;
+    frames.push({
+      left,
+      top,
+      width: frameWidth,
+      height: frameHeight,
+      interlaced: (frameFlags & 0x40) !== 0,
+      table,
+      transparent,
+      dataStart,
+      dataEnd: offset,
+    });
+    transparent = -1;
+  }
+  if (frames.length === 0) throw new Error("Corrupt GIF: no image data");
+  return { width, height, background, frames };
+}
+
+// A frame's palette indices in the order they are stored (interlaced
+// frames row-interleaved)
+export function gifFrameIndices(data: Uint8Array, frame: GifFrame): Uint8Array {
+  const minCodeSize = data[frame.dataStart];
+  return lzwDecode(readSubBlocks(data, frame.dataStart + 1).bytes, minCodeSize, frame.width * frame.height);
+}
+
+// LZW code size byte, data sub-blocks and terminator for stored-order indices
+function imageData(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const lzw = lzwEncode(indices, minCodeSize);
+  const out = new Uint8Array(1 + lzw.length + Math.ceil(lzw.length / 255) + 1);
+  out[0] = minCodeSize;
+  let pos = 1;
+  for (let i = 0; i < lzw.length; i += 255) {
+    const block = lzw.subarray(i, i + 255);
+    out[pos++] = block.length;
+    out.set(block, pos);
+    pos += block.length;
+  }
+  out[pos] = 0;
+  return out;
+}
+
+const tableBits = (entries: number): number => {
+  let bits = 1;
+  while (1 << bits < entries) bits++;
+  return bits;
+};
+
+// The GIF with new indices for some frames (null leaves a frame as it is);
+// every other byte, from colour tables to delays and the loop count, is kept
+export function replaceGifFrames(data: Uint8Array, parsed: ParsedGIF, indices: (Uint8Array | null)[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  parsed.frames.forEach((frame, f) => {
+    if (!indices[f]) return;
+    const minCodeSize = Math.max(data[frame.dataStart], tableBits(frame.table.length / 3));
+    parts.push(data.subarray(offset, frame.dataStart), imageData(indices[f]!, minCodeSize));
+    offset = frame.dataEnd;
+  });
+  parts.push(data.subarray(offset));
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+// The first image on the logical screen; uncovered pixels show the
+// transparent index when there is one, the background colour otherwise
+export function decodeGIF(data: Uint8Array): IndexedImage {
+  const { width, height, background, frames } = parseGIF(data);
+  const frame = frames[0];
+  const { table, transparent } = frame;
+  const stored = gifFrameIndices(data, frame);
+  const entries = table.length / 3;
+  const indices = new Uint8Array(width * height).fill(transparent >= 0 ? transparent : background < entries ? background : 0);
+  const rows = frame.interlaced ? interlacedRows(frame.height) : null;
+  for (let r = 0; r < frame.height; r++) {
+    const y = frame.top + (rows ? rows[r] : r);
+    if (y >= height) continue;
+    for (let x = 0; x < frame.width && frame.left + x < width; x++) {
+      indices[y * width + frame.left + x] = stored[r * frame.width + x];
+    }
+  }
+  let alpha: Uint8Array | null = null;
+  if (transparent >= 0 && transparent < entries) {
+    alpha = new Uint8Array(entries).fill(255);
+    alpha[transparent] = 0;
+  }
+  return { width, height, indices, palette: table.slice(), alpha };
+}
+
+// Encode an indexed image as a single-image GIF89a. GIF has one transparent
+// index, so the first entry with alpha below 128 becomes it and every other
+// entry is written opaque.
+export function encodeGIF(image: IndexedImage): Uint8Array {
+  const { width, height, indices, palette, alpha } = image;
+  const entries = paletteSize(image);
+  if (entries < 1 || entries > 256) throw new Error(`GIF palettes hold 1 to 256 colours, not ${entries}`);
+  if (width > 0xFFFF || height > 0xFFFF) throw new Error("GIF images are at most 65535 pixels wide and high");
+  const bits = tableBits(entries);
+  const table = new Uint8Array(3 << bits);
+  table.set(palette.subarray(0, entries * 3));
+  const transparent = alpha ? alpha.findIndex((a, i) => i < entries && a < 128) : -1;
+
+  const parts: number[] = [];
+  const word = (value: number) => parts.push(value & 0xFF, value >> 8);
+  parts.push(...new TextEncoder().encode("GIF89a"));
+  word(width);
+  word(height);
+  parts.push(0x80 | 0x70 | (bits - 1), 0, 0); // global table, 8-bit colour resolution
+  const header = Uint8Array.from(parts);
+  parts.length = 0;
+
+  if (transparent >= 0) parts.push(EXTENSION, GRAPHIC_CONTROL, 4, 0x01, 0, 0, transparent, 0);
+  parts.push(IMAGE_DESCRIPTOR);
+  word(0);
+  word(0);
+  word(width);
+  word(height);
+  parts.push(0); // no local table, not interlaced
+  const descriptor = Uint8Array.from(parts);
+  const pixels = imageData(indices, Math.max(2, bits));
+
+  const out = new Uint8Array(header.length + table.length + descriptor.length + pixels.length + 1);
+  out.set(header, 0);
+  out.set(table, header.length);
+  out.set(descriptor, header.length + table.length);
+  out.set(pixels, header.length + table.length + descriptor.length);
+  out[out.length - 1] = TRAILER;
+  return out;
+}
@@ -0,0 +1,40 @@
+// Palette ("indexed colour") images as GIF and colour-type-3 PNG store them,
+// shared by gif.ts, png.ts and the EzStego codec: one palette index per
+// pixel and a table of RGB entries, each with an optional alpha.
+
+export interface IndexedImage {
+  width: number;
+  height: number;
+  indices: Uint8Array; // one palette index per pixel
+  palette: Uint8Array; // packed RGB, 3 bytes per entry
+  alpha: Uint8Array | null; // one byte per palette entry, null when every entry is opaque
+}
+
+export const paletteSize = (image: IndexedImage): number => Math.floor(image.palette.length / 3);
+
+// Packed RGB samples and alpha plane of an indexed image
+export function indexedToRgb(image: IndexedImage): {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+  alpha: Uint8Array | null;
+} {
+  const { width, height, indices, palette } = image;
+  const count = width * height;
+  const size = paletteSize(image);
+  const pixels = new Uint8Array(count * 3);
+  const alpha = image.alpha ? new Uint8Array(count) : null;
+  let opaque = true;
+  for (let p = 0; p < count; p++) {
+    const idx = indices[p];
+    if (idx >= size) throw new Error("Corrupt image: palette index out of range");
+    pixels[p * 3] = palette[idx * 3];
+    pixels[p * 3 + 1] = palette[idx * 3 + 1];
+    pixels[p * 3 + 2] = palette[idx * 3 + 2];
+    if (alpha) {
+      alpha[p] = image.alpha![idx] ?? 255;
+      if (alpha[p] !== 255) opaque = false;
+    }
+  }
+  return { width, height, pixels, alpha: opaque ? null : alpha };
+}
@@ -0,0 +1,733 @@
+// JPEG codec shared by the steganography edge functions.
+//
+// Decodes Huffman-coded baseline, extended and progressive JPEGs (8-bit
+// precision, any chroma subsampling, restart intervals, grayscale, YCbCr,
+// RGB and Adobe CMYK/YCCK) into packed 8-bit RGB, and encodes packed RGB as a
+// baseline 4:2:0 JFIF with the standard Annex K tables at a given quality.
+
+import { forwardDCT, inverseDCT } from "./dct.ts";
+
+export interface DecodedJPEG {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // packed RGB, 3 bytes per pixel
+}
+
+// Zigzag position → natural (row-major) index
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+export function isJPEG(data: Uint8Array): boolean {
+  return data.length > 3 && data[0] === 0xFF && data[1] === 0xD8 && data[2] === 0xFF;
+}
+
+const clampByte = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+
+// ---------------------------------------------------------------------------
+// Decoder
+// ---------------------------------------------------------------------------
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  minCode: Int32Array;
+  valPtr: Int32Array;
+  values: Uint8Array;
+}
+
+function buildHuffmanTable(counts: ArrayLike<number>, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const minCode = new Int32Array(17);
+  const valPtr = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    valPtr[length] = k;
+    minCode[length] = code;
+    code += count;
+    k += count;
+    if (count) maxCode[length] = code - 1;
+    code <<= 1;
+  }
+  return { maxCode, minCode, valPtr, values };
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+  coefficients: Int16Array;
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+const EXTEND = (value: number, length: number): number =>
+  value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+
+// Decode one scan starting at `offset`; returns the offset just past it
+function decodeScan(
+  data: Uint8Array,
+  offset: number,
+  frame: Frame,
+  components: FrameComponent[],
+  resetInterval: number,
+  spectralStart: number,
+  spectralEnd: number,
+  successivePrev: number,
+  successive: number
+): number {
+  let bitBuffer = 0;
+  let bitsLeft = 0;
+  let markerHit = false;
+
+  // A marker inside entropy-coded data ends it; pad with zero bits (as libjpeg does)
+  const readBit = (): number => {
+    if (bitsLeft === 0) {
+      if (markerHit || offset >= data.length) return 0;
+      const byte = data[offset];
+      if (byte === 0xFF) {
+        const next = data[offset + 1];
+        if (next === 0x00) {
+          offset += 2;
+        } else {
+          markerHit = true;
+          return 0;
+        }
+      } else {
+        offset++;
+      }
+      bitBuffer = byte;
+      bitsLeft = 8;
+    }
+    bitsLeft--;
+    return (bitBuffer >> bitsLeft) & 1;
+  };
+  const receive = (length: number): number => {
+    let n = 0;
+    for (let i = 0; i < length; i++) n = (n << 1) | readBit();
+    return n;
+  };
+  const receiveExtend = (length: number): number => (length === 0 ? 0 : EXTEND(receive(length), length));
+  const decodeHuffman = (table: HuffmanTable | undefined): number => {
+    if (!table) throw new Error("JPEG scan references a missing Huffman table");
+    let code = readBit();
+    for (let length = 1; length <= 16; length++) {
+      if (code <= table.maxCode[length]) {
+        return table.values[table.valPtr[length] + code - table.minCode[length]];
+      }
+      code = (code << 1) | readBit();
+    }
+    throw new Error("Corrupt JPEG data: invalid Huffman code");
+  };
+
+  let eobrun = 0;
+  let acState = 0;
+  let acNextValue = 0;
+
+  const decodeBaseline = (c: FrameComponent, o: number) => {
+    const t = decodeHuffman(c.dcTable);
+    c.pred += receiveExtend(t);
+    c.coefficients[o] = c.pred;
+    let k = 1;
+    while (k < 64) {
+      const rs = decodeHuffman(c.acTable);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[o + ZIGZAG[k]] = receiveExtend(s);
+      k++;
+    }
+  };
+  const decodeDCFirst = (c: FrameComponent, o: number) => {
+    const t = decodeHuffman(c.dcTable);
+    c.pred += receiveExtend(t) * (1 << successive);
+    c.coefficients[o] = c.pred;
+  };
+  const decodeDCSuccessive = (c: FrameComponent, o: number) => {
+    if (readBit()) c.coefficients[o] |= 1 << successive;
+  };
+  const decodeACFirst = (c: FrameComponent, o: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    let k = spectralStart;
+    while (k <= spectralEnd) {
+      const rs = decodeHuffman(c.acTable);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = receive(r) + (1 << r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[o + ZIGZAG[k]] = receiveExtend(s) * (1 << successive);
+      k++;
+    }
+  };
+  const decodeACSuccessive = (c: FrameComponent, o: number) => {
+    let k = spectralStart;
+    let r = 0;
+    const coefficients = c.coefficients;
+    while (k <= spectralEnd) {
+      const z = o + ZIGZAG[k];
+      const sign = coefficients[z] < 0 ? -1 : 1;
+      switch (acState) {
+        case 0: {
+          const rs = decodeHuffman(c.acTable);
+          const s = rs & 15;
+          r = rs >> 4;
+          if (s === 0) {
+            if (r < 15) {
+              eobrun = receive(r) + (1 << r);
+              acState = 4;
+            } else {
+              r = 16;
+              acState = 1;
+            }
+          } else {
+            if (s !== 1) throw new Error("Corrupt JPEG data: invalid refinement coefficient");
+            acNextValue = receiveExtend(s);
+            acState = r ? 2 : 3;
+          }
+          continue;
+        }
+        case 1:
+        case 2:
+          if (coefficients[z]) {
+            coefficients[z] += sign * (readBit() << successive);
+          } else if (--r === 0) {
+            acState = acState === 2 ? 3 : 0;
+          }
+          break;
+        case 3:
+          if (coefficients[z]) {
+            coefficients[z] += sign * (readBit() << successive);
+          } else {
+            coefficients[z] = acNextValue << successive;
+            acState = 0;
+          }
+          break;
+        case 4:
+          if (coefficients[z]) coefficients[z] += sign * (readBit() << successive);
+          break;
+      }
+      k++;
+    }
+    if (acState === 4 && --eobrun === 0) acState = 0;
+  };
+
+  let decodeBlock: (c: FrameComponent, o: number) => void;
+  if (!frame.progressive) decodeBlock = decodeBaseline;
+  else if (spectralStart === 0) decodeBlock = successivePrev === 0 ? decodeDCFirst : decodeDCSuccessive;
+  else decodeBlock = successivePrev === 0 ? decodeACFirst : decodeACSuccessive;
+
+  const blockOffset = (c: FrameComponent, row: number, col: number) =>
+    64 * (row * c.blocksPerLineForMcu + col);
+
+  const single = components.length === 1;
+  const totalMcus = single
+    ? components[0].blocksPerLine * components[0].blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+  const interval = resetInterval || totalMcus;
+
+  for (const c of components) c.pred = 0;
+  let mcu = 0;
+  while (mcu < totalMcus) {
+    for (let n = 0; n < interval && mcu < totalMcus; n++, mcu++) {
+      if (single) {
+        const c = components[0];
+        const row = Math.floor(mcu / c.blocksPerLine);
+        const col = mcu % c.blocksPerLine;
+        decodeBlock(c, blockOffset(c, row, col));
+      } else {
+        const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+        const mcuCol = mcu % frame.mcusPerLine;
+        for (const c of components) {
+          for (let v = 0; v < c.v; v++) {
+            for (let h = 0; h < c.h; h++) {
+              decodeBlock(c, blockOffset(c, mcuRow * c.v + v, mcuCol * c.h + h));
+            }
+          }
+        }
+      }
+    }
+    if (mcu >= totalMcus) break;
+
+    // Restart: byte-align, skip to the RSTn marker and reset predictions
+    bitsLeft = 0;
+    markerHit = false;
+    while (offset + 1 < data.length && !(data[offset] === 0xFF && data[offset + 1] >= 0xD0 && data[offset + 1] <= 0xD7)) {
+      if (data[offset] === 0xFF && data[offset + 1] !== 0x00 && data[offset + 1] !== 0xFF) return offset;
+      offset++;
+    }
+    offset += 2;
+    for (const c of components) c.pred = 0;
+    eobrun = 0;
+    acState = 0;
+  }
+
+  // Skip to the next marker that is not a restart
+  while (offset + 1 < data.length) {
+    if (data[offset] === 0xFF) {
+      const next = data[offset + 1];
+      if (next !== 0x00 && next !== 0xFF && (next < 0xD0 || next > 0xD7)) break;
+    }
+    offset++;
+  }
+  return offset;
+}
+
+function buildComponentPlane(component: FrameComponent, quantTable: Uint16Array): Uint8Array {
+  const lineWidth = component.blocksPerLineForMcu * 8;
+  const plane = new Uint8Array(lineWidth * component.blocksPerColumnForMcu * 8);
+  const coefficients = new Float64Array(64);
+  const samples = new Float64Array(64);
+  for (let row = 0; row < component.blocksPerColumnForMcu; row++) {
+    for (let col = 0; col < component.blocksPerLineForMcu; col++) {
+      const o = 64 * (row * component.blocksPerLineForMcu + col);
+      for (let i = 0; i < 64; i++) coefficients[i] = component.coefficients[o + i] * quantTable[i];
+      inverseDCT(coefficients, samples);
+      for (let y = 0; y < 8; y++) {
+        const line = (row * 8 + y) * lineWidth + col * 8;
+        for (let x = 0; x < 8; x++) plane[line + x] = clampByte(samples[y * 8 + x] + 128);
+      }
+    }
+  }
+  return plane;
+}
+
+export function decodeJPEG(data: Uint8Array): DecodedJPEG {
+  if (!isJPEG(data)) throw new Error("Not a JPEG file");
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let resetInterval = 0;
+  let adobeTransform: number | null = null;
+
+  let offset = 2;
+  const u16 = (at: number) => (data[at] << 8) | data[at + 1];
+
+  markers: while (offset + 1 < data.length) {
+    if (data[offset] !== 0xFF) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    offset += 2;
+    if (marker === 0xFF || marker === 0x00) {
+      offset--;
+      continue;
+    }
+    if (marker === 0xD9) break; // EOI
+    if (marker === 0xD8 || marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) continue;
+
+    const length = u16(offset);
+    const start = offset + 2;
+    const end = offset + length;
+    if (end > data.length) throw new Error("Corrupt JPEG: truncated segment");
+
+    switch (marker) {
+      case 0xDB: { // DQT
+        let p = start;
+        while (p < end) {
+          const precision = data[p] >> 4;
+          const id = data[p++] & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? u16(p) : data[p];
+            p += precision ? 2 : 1;
+          }
+          quantTables[id] = table;
+        }
+        break;
+      }
+      case 0xC4: { // DHT
+        let p = start;
+        while (p < end) {
+          const tableClass = data[p] >> 4;
+          const id = data[p++] & 15;
+          const counts = data.subarray(p, p + 16);
+          p += 16;
+          const total = counts.reduce((a, b) => a + b, 0);
+          const table = buildHuffmanTable(counts, data.slice(p, p + total));
+          p += total;
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+        }
+        break;
+      }
+      case 0xDD: // DRI
+        resetInterval = u16(start);
+        break;
+      case 0xEE: // APP14: Adobe colour transform flag
+        if (String.fromCharCode(...data.subarray(start, start + 5)) === "Adobe") {
+          adobeTransform = data[start + 11];
+        }
+        break;
+      case 0xC0:
+      case 0xC1:
+      case 0xC2: { // SOF0/1/2: Huffman baseline, extended, progressive
+        if (frame) throw new Error("Unsupported JPEG: multiple frames");
+        if (data[start] !== 8) throw new Error(`Unsupported JPEG precision: ${data[start]} bits`);
+        const height = u16(start + 1);
+        const width = u16(start + 3);
+        if (!width || !height) throw new Error("Unsupported JPEG: missing image dimensions");
+        const count = data[start + 5];
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const p = start + 6 + i * 3;
+          const h = data[p + 1] >> 4 || 1;
+          const v = data[p + 1] & 15 || 1;
+          components.push({
+            id: data[p], h, v, quantTable: data[p + 2],
+            blocksPerLine: 0, blocksPerColumn: 0, blocksPerLineForMcu: 0, blocksPerColumnForMcu: 0,
+            coefficients: new Int16Array(0), pred: 0,
+          });
+        }
+        const maxH = Math.max(...components.map((c) => c.h));
+        const maxV = Math.max(...components.map((c) => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil((width * c.h) / maxH) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil((height * c.v) / maxV) / 8);
+          c.blocksPerLineForMcu = mcusPerLine * c.h;
+          c.blocksPerColumnForMcu = mcusPerColumn * c.v;
+          c.coefficients = new Int16Array(c.blocksPerLineForMcu * c.blocksPerColumnForMcu * 64);
+        }
+        frame = { progressive: marker === 0xC2, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+        break;
+      }
+      case 0xDA: { // SOS
+        if (!frame) throw new Error("Corrupt JPEG: scan before frame header");
+        const count = data[start];
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const id = data[start + 1 + i * 2];
+          const tables = data[start + 2 + i * 2];
+          const component = frame.components.find((c) => c.id === id);
+          if (!component) throw new Error("Corrupt JPEG: scan references an unknown component");
+          component.dcTable = dcTables[tables >> 4];
+          component.acTable = acTables[tables & 15];
+          scanComponents.push(component);
+        }
+        const p = start + 1 + count * 2;
+        offset = decodeScan(
+          data, end, frame, scanComponents, resetInterval,
+          data[p], data[p + 1], data[p + 2] >> 4, data[p + 2] & 15
+        );
+        continue markers;
+      }
+      default:
+        if ((marker >= 0xC3 && marker <= 0xCF) && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+          throw new Error("Unsupported JPEG: lossless, hierarchical and arithmetic-coded files are not supported");
+        }
+        break;
+    }
+    offset = end;
+  }
+
+  if (!frame) throw new Error("Corrupt JPEG: no frame header");
+  const { width, height, maxH, maxV, components } = frame;
+
+  const planes = components.map((c) => {
+    const table = quantTables[c.quantTable];
+    if (!table) throw new Error("Corrupt JPEG: missing quantization table");
+    return buildComponentPlane(c, table);
+  });
+
+  const pixels = new Uint8Array(width * height * 3);
+  const sample = (i: number, x: number, y: number): number => {
+    const c = components[i];
+    const sx = Math.floor((x * c.h) / maxH);
+    const sy = Math.floor((y * c.v) / maxV);
+    return planes[i][sy * c.blocksPerLineForMcu * 8 + sx];
+  };
+  // Adobe transform 0 means the channels are stored untransformed
+  const transform = adobeTransform ?? (components.length === 3 ? 1 : 0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 3;
+      if (components.length === 1) {
+        pixels[o] = pixels[o + 1] = pixels[o + 2] = sample(0, x, y);
+        continue;
+      }
+      let a = sample(0, x, y);
+      let b = sample(1, x, y);
+      let c = sample(2, x, y);
+      if (transform) {
+        const Y = a, Cb = b - 128, Cr = c - 128;
+        a = clampByte(Y + 1.402 * Cr);
+        b = clampByte(Y - 0.344136 * Cb - 0.714136 * Cr);
+        c = clampByte(Y + 1.772 * Cb);
+      }
+      if (components.length === 4) {
+        // Adobe stores CMYK inverted; YCCK was converted to that form above
+        const k = sample(3, x, y);
+        if (adobeTransform !== null) {
+          a = (a * k) / 255;
+          b = (b * k) / 255;
+          c = (c * k) / 255;
+        } else {
+          a = ((255 - a) * (255 - k)) / 255;
+          b = ((255 - b) * (255 - k)) / 255;
+          c = ((255 - c) * (255 - k)) / 255;
+        }
+      }
+      pixels[o] = clampByte(a);
+      pixels[o + 1] = clampByte(b);
+      pixels[o + 2] = clampByte(c);
+    }
+  }
+  return { width, height, pixels };
+}
+
+// ---------------------------------------------------------------------------
+// Encoder
+// ---------------------------------------------------------------------------
+
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99),
+];
+
+const DC_LUMA_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_CHROMA_COUNTS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const AC_LUMA_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_LUMA_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+const AC_CHROMA_COUNTS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77];
+const AC_CHROMA_VALUES = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+  0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+  0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+  0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+  0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+  0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+  0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+  0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+  0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+  0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+
+// Quantization table for a quality factor, with the libjpeg scaling
+function scaledQuantTable(base: number[], quality: number): Uint16Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - 2 * q;
+  return Uint16Array.from(base, (v) => Math.min(255, Math.max(1, Math.floor((v * scale + 50) / 100))));
+}
+
+interface HuffmanCodes {
+  codes: Uint16Array;
+  sizes: Uint8Array;
+}
+
+function huffmanCodes(counts: number[], values: number[]): HuffmanCodes {
+  const codes = new Uint16Array(256);
+  const sizes = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[values[k]] = code++;
+      sizes[values[k]] = length;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { codes, sizes };
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+      if (++this.count === 8) this.flushByte();
+    }
+  }
+
+  private flushByte() {
+    this.bytes.push(this.buffer);
+    if (this.buffer === 0xFF) this.bytes.push(0x00);
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  finish(): number[] {
+    while (this.count !== 0) this.write(1, 1);
+    return this.bytes;
+  }
+}
+
+const bitLength = (v: number): number => (v === 0 ? 0 : 32 - Math.clz32(Math.abs(v)));
+
+export function encodeJPEG(width: number, height: number, rgb: Uint8Array, quality: number = 90): Uint8Array {
+  const lumaTable = scaledQuantTable(LUMA_QUANT, quality);
+  const chromaTable = scaledQuantTable(CHROMA_QUANT, quality);
+  const dcLuma = huffmanCodes(DC_LUMA_COUNTS, DC_VALUES);
+  const dcChroma = huffmanCodes(DC_CHROMA_COUNTS, DC_VALUES);
+  const acLuma = huffmanCodes(AC_LUMA_COUNTS, AC_LUMA_VALUES);
+  const acChroma = huffmanCodes(AC_CHROMA_COUNTS, AC_CHROMA_VALUES);
+
+  // Full-resolution YCbCr planes
+  const count = width * height;
+  const Y = new Float64Array(count);
+  const Cb = new Float64Array(count);
+  const Cr = new Float64Array(count);
+  for (let i = 0, j = 0; i < count; i++, j += 3) {
+    const r = rgb[j], g = rgb[j + 1], b = rgb[j + 2];
+    Y[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    Cb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+    Cr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+  }
+
+  const writer = new BitWriter();
+  const block = new Float64Array(64);
+  const coefficients = new Float64Array(64);
+  const at = (x: number, y: number) => Math.min(height - 1, y) * width + Math.min(width - 1, x);
+
+  const encodeBlock = (pred: number, table: Uint16Array, dc: HuffmanCodes, ac: HuffmanCodes): number => {
+    forwardDCT(block, coefficients);
+    const dcValue = Math.round(coefficients[0] / table[0]);
+    const diff = dcValue - pred;
+    const dcSize = bitLength(diff);
+    writer.write(dc.codes[dcSize], dc.sizes[dcSize]);
+    if (dcSize) writer.write(diff < 0 ? diff + (1 << dcSize) - 1 : diff, dcSize);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const z = ZIGZAG[k];
+      const v = Math.round(coefficients[z] / table[z]);
+      if (v === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writer.write(ac.codes[0xF0], ac.sizes[0xF0]);
+        run -= 16;
+      }
+      const size = bitLength(v);
+      const symbol = (run << 4) | size;
+      writer.write(ac.codes[symbol], ac.sizes[symbol]);
+      writer.write(v < 0 ? v + (1 << size) - 1 : v, size);
+      run = 0;
+    }
+    if (run > 0) writer.write(ac.codes[0x00], ac.sizes[0x00]);
+    return dcValue;
+  };
+
+  let predY = 0, predCb = 0, predCr = 0;
+  for (let my = 0; my < height; my += 16) {
+    for (let mx = 0; mx < width; mx += 16) {
+      for (let by = 0; by < 2; by++) {
+        for (let bx = 0; bx < 2; bx++) {
+          for (let y = 0; y < 8; y++) {
+            for (let x = 0; x < 8; x++) {
+              block[y * 8 + x] = Y[at(mx + bx * 8 + x, my + by * 8 + y)] - 128;
+            }
+          }
+          predY = encodeBlock(predY, lumaTable, dcLuma, acLuma);
+        }
+      }
+      for (const [plane, isCb] of [[Cb, true], [Cr, false]] as const) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const sx = mx + x * 2, sy = my + y * 2;
+            block[y * 8 + x] = (plane[at(sx, sy)] + plane[at(sx + 1, sy)] +
+              plane[at(sx, sy + 1)] + plane[at(sx + 1, sy + 1)]) / 4 - 128;
+          }
+        }
+        if (isCb) predCb = encodeBlock(predCb, chromaTable, dcChroma, acChroma);
+        else predCr = encodeBlock(predCr, chromaTable, dcChroma, acChroma);
+      }
+    }
+  }
+  const scan = writer.finish();
+
+  const out: number[] = [0xFF, 0xD8];
+  const segment = (marker: number, body: number[]) => {
+    out.push(0xFF, marker, (body.length + 2) >> 8, (body.length + 2) & 0xFF, ...body);
+  };
+  segment(0xE0, [0x4A, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]); // JFIF 1.1
+  segment(0xDB, [
+    0x00, ...Array.from({ length: 64 }, (_, k) => lumaTable[ZIGZAG[k]]),
+    0x01, ...Array.from({ length: 64 }, (_, k) => chromaTable[ZIGZAG[k]]),
+  ]);
+  segment(0xC0, [
+    8, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 3,
+    1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1,
+  ]);
+  segment(0xC4, [
+    0x00, ...DC_LUMA_COUNTS, ...DC_VALUES,
+    0x10, ...AC_LUMA_COUNTS, ...AC_LUMA_VALUES,
+    0x01, ...DC_CHROMA_COUNTS, ...DC_VALUES,
+    0x11, ...AC_CHROMA_COUNTS, ...AC_CHROMA_VALUES,
+  ]);
+  segment(0xDA, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+  const result = new Uint8Array(out.length + scan.length + 2);
+  result.set(out, 0);
+  result.set(scan, out.length);
+  result[result.length - 2] = 0xFF;
+  result[result.length - 1] = 0xD9;
+  return result;
+}
@@ -0,0 +1,81 @@
+// Legacy length-prefixed LSB payloads of any length decode in place, up to
+// the largest the old writer could fit in a multi-megapixel cover.
+// Run with `deno test supabase/functions/_shared/legacyLsb.test.ts`.
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { decodeBMP, encodeBMP } from "./bmp.ts";
+import type { StegoCarrier } from "./codec.ts";
+import { legacyLsbCodec } from "./legacyLsb.ts";
+
+const WIDTH = 1920;
+const HEIGHT = 1080; // 2.07 MP
+const SAMPLES = WIDTH * HEIGHT * 3;
+// Bytes between the length prefix and the end marker the old writer always added
+const CAPACITY = Math.floor((SAMPLES - 32) / 8) - 7;
+// Payloads longer than this many bits were cut off before lengths were unbounded
+const OLD_LIMIT_BITS = 100000;
+const END_MARKER = new TextEncoder().encode("<<END>>");
+
+function seededBytes(length: number, seed: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    bytes[i] = state >>> 24;
+  }
+  return bytes;
+}
+
+// The old encoder's layout: 32-bit big-endian length, payload, then the
+// marker, one bit per RGB sample LSB in raster order
+function writeLegacy(pixels: Uint8Array, payload: Uint8Array): void {
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, payload.length, false);
+  let bit = 0;
+  const write = (bytes: Uint8Array) => {
+    for (const byte of bytes) {
+      for (let j = 7; j >= 0; j--, bit++) pixels[bit] = (pixels[bit] & 0xFE) | ((byte >> j) & 1);
+    }
+  };
+  write(length);
+  write(payload);
+  write(END_MARKER);
+}
+
+// The payload read back from the samples saved as a 24-bit BMP
+async function extractFromBMP(pixels: Uint8Array): Promise<Uint8Array | null> {
+  const bytes = encodeBMP({ width: WIDTH, height: HEIGHT, pixels, alpha: null });
+  const { width, height, pixels: decoded, alpha } = decodeBMP(bytes);
+  const carrier: StegoCarrier = { format: "bmp", bytes, image: { width, height, pixels: decoded, alpha } };
+  return (await legacyLsbCodec.extract(carrier, ""))?.payload ?? null;
+}
+
+function roundTrip(payload: Uint8Array): Promise<Uint8Array | null> {
+  const pixels = seededBytes(SAMPLES, 3);
+  writeLegacy(pixels, payload);
+  return extractFromBMP(pixels);
+}
+
+Deno.test("legacy LSB payload below the old 100000-bit limit", async () => {
+  const payload = seededBytes(10000, 11);
+  assert(payload.length * 8 < OLD_LIMIT_BITS);
+  assertEquals(await roundTrip(payload), payload);
+});
+
+Deno.test("legacy LSB payload above the old 100000-bit limit", async () => {
+  const payload = seededBytes(200000, 12);
+  assert(payload.length * 8 > OLD_LIMIT_BITS);
+  assertEquals(await roundTrip(payload), payload);
+});
+
+Deno.test("legacy LSB payload at the full capacity of a 2 MP BMP", async () => {
+  const payload = seededBytes(CAPACITY, 13);
+  assertEquals(await roundTrip(payload), payload);
+});
+
+Deno.test("legacy LSB payload without its end marker", async () => {
+  const pixels = seededBytes(SAMPLES, 3);
+  writeLegacy(pixels, seededBytes(5000, 14));
+  pixels[32 + 5000 * 8] ^= 1; // first marker bit
+  assertEquals(await extractFromBMP(pixels), null);
+});
@@ -0,0 +1,73 @@
+// Length-prefixed LSB layout written before error-corrected frames: a 32-bit
+// big-endian byte count, the payload and the "<<END>>" marker, one bit per
+// RGB sample LSB in raster order. Kept only so old images still decode.
+
+import { type Codec, type CodecFrame, requireImage, type StegoCarrier } from "./codec.ts";
+
+const END_MARKER = "<<END>>";
+const LENGTH_BITS = 32;
+
+// Byte made of the LSBs of the eight samples from `offset`, read in place
+// so images of any size decode without copying their bits out
+function readByte(samples: Uint8Array, offset: number): number {
+  let byte = 0;
+  for (let j = 0; j < 8; j++) byte = (byte << 1) | (samples[offset + j] & 1);
+  return byte;
+}
+
+// Decode LSB steganography from BMP/PNG pixel data. The payload is only
+// accepted when the "<<END>>" marker follows it, so a cover that never
+// carried a message is not mistaken for one.
+function decodeLSB(pixelData: Uint8Array): Uint8Array | null {
+  if (pixelData.length < LENGTH_BITS) return null;
+
+  let length = 0;
+  for (let i = 0; i < LENGTH_BITS; i += 8) length = length * 256 + readByte(pixelData, i);
+
+  // The length must leave room for the marker in the samples that follow it
+  const capacity = Math.floor((pixelData.length - LENGTH_BITS) / 8) - END_MARKER.length;
+  if (length <= 0 || length > capacity) {
+    return null;
+  }
+
+  const message = new Uint8Array(length);
+  for (let i = 0; i < length; i++) message[i] = readByte(pixelData, LENGTH_BITS + i * 8);
+
+  // Verify end marker
+  const markerStart = LENGTH_BITS + length * 8;
+  for (let i = 0; i < END_MARKER.length; i++) {
+    if (readByte(pixelData, markerStart + i * 8) !== END_MARKER.charCodeAt(i)) return null;
+  }
+  return message;
+}
+
+async function extractLegacy(stego: StegoCarrier): Promise<CodecFrame | null> {
+  const payload = decodeLSB(requireImage(stego, "LSB").pixels);
+  if (!payload || payload.length === 0) return null;
+  return { payload, level: null, embedding: null, correctedErrors: null, details: {} };
+}
+
+export const legacyLsbCodec: Codec = {
+  id: "lsb-legacy",
+  name: "LSB",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["bmp", "png"],
+    writable: false,
+    keyed: false,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity: () => 0,
+
+  embed() {
+    return Promise.reject(new Error("The length-prefixed LSB layout is read-only; use the lsb mode"));
+  },
+
+  extract: extractLegacy,
+
+  detect: async (stego) => (await extractLegacy(stego)) !== null,
+};
@@ -0,0 +1,183 @@
+// Matrix embedding with (1, 2^k − 1, k) Hamming codes.
+//
+// Samples are taken in groups of n = 2^k − 1. A group carries k bits as the
+// syndrome of its LSBs: the XOR of the (1-based) indices of the samples
+// whose LSB is 1. Making the syndrome equal any k-bit value needs at most
+// one changed sample, so each change carries k / (1 − 2^−k) bits on average
+// instead of the 2 of plain LSB. The price is capacity: k bits per n
+// samples.
+//
+// The bits embedded are an error-corrected frame (see ecc.ts) over a
+// virtual carrier of hammingSlots(samples, k) bits. Slots the frame does not
+// write are left free, so a group only has to match its written bits. With
+// k = 1 this is exactly plain LSB embedding. The decoder finds k by trying
+// each value in turn; a wrong k yields no frame header.
+//
+// lsbCodec is the "lsb" method: plain or matrix embedding over all RGB
+// samples, in a key-seeded order when a key is given.
+
+import {
+  DEFAULT_LSB_EMBEDDING,
+  eccCapacity,
+  type EccFrame,
+  eccFrameBits,
+  eccFrameLayout,
+  embedEccFrame,
+  extractEccFrame,
+  hasEccFrame,
+  type LsbEmbedding,
+  lsbFlipper,
+  type RobustnessLevel,
+} from "./ecc.ts";
+import { type Codec, type CodecDetails, fromEccFrame, requireImage } from "./codec.ts";
+import { candidateCarriers, gatherSamples, keyedSampleOrder, scatterSamples } from "./sampleOrder.ts";
+
+export const MAX_HAMMING_K = 12;
+
+export type MatrixFrame = EccFrame & { k: number };
+
+export interface MatrixEmbedResult {
+  samples: Uint8Array;
+  k: number;
+  embeddedBits: number;
+  changedSamples: number;
+}
+
+// Bits a carrier of `samples` samples holds with parameter k
+export const hammingSlots = (samples: number, k: number): number => Math.floor(samples / ((1 << k) - 1)) * k;
+
+// Largest k (fewest changes) whose capacity still fits the payload, or 0
+// when it does not fit even at k = 1
+export function chooseHammingK(samples: number, payloadLength: number, level: RobustnessLevel): number {
+  for (let k = MAX_HAMMING_K; k >= 1; k--) {
+    if (eccCapacity(hammingSlots(samples, k), level) >= payloadLength) return k;
+  }
+  return 0;
+}
+
+export function embedMatrixFrame(
+  samples: Uint8Array,
+  payload: Uint8Array,
+  level: RobustnessLevel,
+  embedding: LsbEmbedding = DEFAULT_LSB_EMBEDDING
+): MatrixEmbedResult {
+  const k = chooseHammingK(samples.length, payload.length, level);
+  if (k === 0) {
+    const capacity = eccCapacity(samples.length, level);
+    throw new Error(`Payload too large: ${payload.length} bytes. Maximum ${capacity} bytes fit in this image.`);
+  }
+  const slots = hammingSlots(samples.length, k);
+  const { bits, written: writtenSlots } = eccFrameLayout(slots, payload, level, embedding);
+  const n = (1 << k) - 1;
+  const flip = lsbFlipper(embedding);
+  const out = new Uint8Array(samples);
+  let embeddedBits = 0;
+  let changedSamples = 0;
+  for (let g = 0; g * k < slots; g++) {
+    const base = g * n;
+    let syndrome = 0;
+    for (let j = 0; j < n; j++) if (out[base + j] & 1) syndrome ^= j + 1;
+    let message = 0;
+    let written = 0;
+    for (let b = 0; b < k; b++) {
+      const slot = g * k + b;
+      message = (message << 1) | (bits[slot] & 1);
+      written = (written << 1) | writtenSlots[slot];
+      embeddedBits += writtenSlots[slot];
+    }
+    const target = (syndrome ^ message) & written;
+    if (target !== 0) {
+      out[base + target - 1] = flip(out[base + target - 1]);
+      changedSamples++;
+    }
+  }
+  return { samples: out, k, embeddedBits, changedSamples };
+}
+
+// Syndrome bits of every group, as the LSBs of a virtual carrier
+function readSyndromes(samples: Uint8Array, k: number): Uint8Array {
+  const n = (1 << k) - 1;
+  const bits = new Uint8Array(hammingSlots(samples.length, k));
+  for (let g = 0; g * k < bits.length; g++) {
+    let syndrome = 0;
+    for (let j = 0; j < n; j++) if (samples[g * n + j] & 1) syndrome ^= j + 1;
+    for (let b = 0; b < k; b++) bits[g * k + b] = (syndrome >> (k - 1 - b)) & 1;
+  }
+  return bits;
+}
+
+// Returns null when no k yields a frame; throws when a frame is present but
+// damaged beyond repair
+export function extractMatrixFrame(samples: Uint8Array): MatrixFrame | null {
+  for (let k = 1; k <= MAX_HAMMING_K; k++) {
+    const frame = extractEccFrame(k === 1 ? samples : readSyndromes(samples, k));
+    if (frame) return { ...frame, k };
+  }
+  return null;
+}
+
+// k = 1 is plain LSB, so only larger k is reported as matrix embedding
+const matrixDetails = (k: number | undefined): CodecDetails => (k !== undefined && k > 1 ? { hammingK: k } : {});
+
+export const lsbCodec: Codec = {
+  id: "lsb",
+  name: "LSB",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["bmp", "png", "tiff", "webp"],
+    writable: true,
+    keyed: true,
+    lsbEmbedding: true,
+    matrixEmbedding: true,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity: (cover, options) => eccCapacity(requireImage(cover, "LSB").pixels.length, options.robustness),
+
+  async embed(cover, payload, options) {
+    const image = requireImage(cover, "LSB");
+    const { pixels } = image;
+    const order = options.key ? await keyedSampleOrder(options.key, pixels.length) : null;
+    const carrier = order ? gatherSamples(pixels, order) : pixels;
+    let stego: Uint8Array;
+    let embeddedBits: number;
+    let changedSamples = 0;
+    let hammingK: number | undefined;
+    if (options.matrixEmbedding) {
+      const result = embedMatrixFrame(carrier, payload, options.robustness, options.embedding);
+      stego = result.samples;
+      hammingK = result.k;
+      embeddedBits = result.embeddedBits;
+      changedSamples = result.changedSamples;
+    } else {
+      stego = embedEccFrame(carrier, payload, options.robustness, options.embedding);
+      embeddedBits = eccFrameBits(payload.length, options.robustness);
+      for (let i = 0; i < carrier.length; i++) if (stego[i] !== carrier[i]) changedSamples++;
+    }
+    return {
+      image: { ...image, pixels: order ? scatterSamples(pixels, order, stego) : stego },
+      file: null,
+      embeddedBits,
+      changedSamples,
+      details: matrixDetails(hammingK),
+    };
+  },
+
+  async extract(stego, key) {
+    for (const samples of await candidateCarriers(requireImage(stego, "LSB").pixels, key)) {
+      const frame = extractMatrixFrame(samples);
+      if (frame) return fromEccFrame(frame, matrixDetails(frame.k), true);
+    }
+    return null;
+  },
+
+  async detect(stego, key) {
+    for (const samples of await candidateCarriers(requireImage(stego, "LSB").pixels, key)) {
+      for (let k = 1; k <= MAX_HAMMING_K; k++) {
+        if (hasEccFrame(k === 1 ? samples : readSyndromes(samples, k))) return true;
+      }
+    }
+    return false;
+  },
+};
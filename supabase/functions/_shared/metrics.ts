@@ -0,0 +1,104 @@
+// Image quality metrics shared by the edge functions and the browser.
+//
+// Compares the RGB channels of two equally sized images (alpha is ignored)
+// and reports MSE, PSNR, the largest per-sample error and a windowed SSIM
+// (mean of 8×8 windows at stride 4, averaged over the three channels).
+
+export interface ImageMetrics {
+  psnr: number; // Infinity when the images are identical
+  mse: number;
+  ssim: number;
+  maxError: number;
+}
+
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+// Window start positions along one axis, always including the final edge
+const windowStarts = (size: number, win: number): number[] => {
+  const starts: number[] = [];
+  const last = size - win;
+  for (let p = 0; p <= last; p += SSIM_STRIDE) starts.push(p);
+  if (starts[starts.length - 1] !== last) starts.push(last);
+  return starts;
+};
+
+function windowedSSIM(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  const winW = Math.min(SSIM_WINDOW, width);
+  const winH = Math.min(SSIM_WINDOW, height);
+  const xs = windowStarts(width, winW);
+  const ys = windowStarts(height, winH);
+  const n = winW * winH;
+
+  let total = 0;
+  let windows = 0;
+  for (let c = 0; c < 3; c++) {
+    for (const y0 of ys) {
+      for (const x0 of xs) {
+        let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+        for (let y = y0; y < y0 + winH; y++) {
+          let idx = (y * width + x0) * channels + c;
+          for (let x = 0; x < winW; x++, idx += channels) {
+            const va = a[idx];
+            const vb = b[idx];
+            sumA += va;
+            sumB += vb;
+            sumAA += va * va;
+            sumBB += vb * vb;
+            sumAB += va * vb;
+          }
+        }
+        const meanA = sumA / n;
+        const meanB = sumB / n;
+        const varA = sumAA / n - meanA * meanA;
+        const varB = sumBB / n - meanB * meanB;
+        const cov = sumAB / n - meanA * meanB;
+        total +=
+          ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+          ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+        windows++;
+      }
+    }
+  }
+  return total / windows;
+}
+
+// `channels` is the pixel stride: 4 for RGBA ImageData, 3 for packed RGB
+export function computeImageMetrics(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  width: number,
+  height: number,
+  channels: number = 4
+): ImageMetrics {
+  if (width <= 0 || height <= 0) {
+    throw new Error("Cannot compute metrics for an empty image");
+  }
+  const length = width * height * channels;
+  if (a.length < length || b.length < length) {
+    throw new Error("Images must have the same dimensions to compare them");
+  }
+
+  let sse = 0;
+  let maxError = 0;
+  for (let i = 0; i < length; i += channels) {
+    for (let c = 0; c < 3; c++) {
+      const d = a[i + c] - b[i + c];
+      sse += d * d;
+      const ad = Math.abs(d);
+      if (ad > maxError) maxError = ad;
+    }
+  }
+  const mse = sse / (width * height * 3);
+  const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+  const ssim = windowedSSIM(a, b, width, height, channels);
+  return { psnr, mse, ssim, maxError };
+}
@@ -0,0 +1,319 @@
+// Payloads spread over the frames of an animated GIF or APNG, for messages
+// larger than one still image holds.
+//
+// The sealed payload is cut into parts, filled into the frames in order up
+// to each frame's capacity; every part is one error-corrected frame (ecc.ts)
+// in its own animation frame, behind a part header
+//
+//   magic "SGFR" | part u16 BE | parts u16 BE | payload length u32 BE
+//
+// so the decoder can put the parts back in order and tell a missing frame
+// from a damaged one. Frames the payload does not reach are left alone.
+//
+// APNG frames carry bits in the LSBs of their colour samples (not alpha).
+// GIF frames keep their colour tables, which frames may share, so bits go
+// EzStego-style into the rank of each pixel's entry in the table sorted by
+// luminance: entries of ranks 2k and 2k + 1 are swapped for one another,
+// and pixels showing the frame's transparent index, or whose partner is
+// that index, are skipped. Only image data changes; delays, disposal, the
+// loop count and other metadata are kept byte for byte (see gif.ts and
+// apng.ts).
+//
+// multiFrameCodec is the "frames" method.
+
+import {
+  eccCapacity,
+  eccFrameBits,
+  embedEccFrame,
+  extractEccFrame,
+  hasEccFrame,
+  type RobustnessLevel,
+} from "./ecc.ts";
+import { candidateCarriers, gatherSamples, keyedSampleOrder, scatterSamples, sharingSampleOrders } from "./sampleOrder.ts";
+import { type Codec, type CodecFrame, type CoverImage, type StegoCarrier } from "./codec.ts";
+import { decodeGIF, gifFrameIndices, type GifFrame, parseGIF, replaceGifFrames } from "./gif.ts";
+import { apngFrameSamples, isAPNG, parseAPNG, replaceApngFrames } from "./apng.ts";
+import { decodePNG } from "./png.ts";
+import { indexedToRgb } from "./indexedImage.ts";
+
+const PART_MAGIC = [0x53, 0x47, 0x46, 0x52]; // "SGFR"
+const PART_HEADER_BYTES = PART_MAGIC.length + 2 + 2 + 4;
+const MAX_PARTS = 0xFFFF;
+
+// Carrier values of every frame (their LSBs hold the bits) and how to write
+// changed ones back
+interface Animation {
+  slots: number[];
+  carriers(): Promise<Uint8Array[]>;
+  write(carriers: (Uint8Array | null)[]): Promise<Uint8Array>;
+}
+
+// Entries of a colour table ranked by luminance, ties by index
+function rankTable(table: Uint8Array): { rank: Uint8Array; order: Uint8Array } {
+  const entries = table.length / 3;
+  const luminance = (i: number) => 299 * table[i * 3] + 587 * table[i * 3 + 1] + 114 * table[i * 3 + 2];
+  const order = Uint8Array.from({ length: entries }, (_, i) => i).sort((a, b) => luminance(a) - luminance(b) || a - b);
+  const rank = new Uint8Array(entries);
+  order.forEach((entry, r) => (rank[entry] = r));
+  return { rank, order };
+}
+
+// Pixels of a GIF frame that can take a bit
+function gifUsable(frame: GifFrame, indices: Uint8Array, rank: Uint8Array, order: Uint8Array): Uint32Array {
+  const entries = rank.length;
+  const usable = new Uint32Array(indices.length);
+  let n = 0;
+  for (let p = 0; p < indices.length; p++) {
+    const idx = indices[p];
+    if (idx >= entries || idx === frame.transparent) continue;
+    const partner = rank[idx] ^ 1;
+    if (partner >= entries || order[partner] === frame.transparent) continue;
+    usable[n++] = p;
+  }
+  return usable.subarray(0, n);
+}
+
+function gifAnimation(data: Uint8Array): Animation | null {
+  const parsed = parseGIF(data);
+  if (parsed.frames.length < 2) return null;
+  const frames = parsed.frames.map((frame) => {
+    const indices = gifFrameIndices(data, frame);
+    const { rank, order } = rankTable(frame.table);
+    return { indices, order, rank, usable: gifUsable(frame, indices, rank, order) };
+  });
+  return {
+    slots: frames.map((frame) => frame.usable.length),
+    carriers: async () => frames.map(({ indices, rank, usable }) => Uint8Array.from(usable, (p) => rank[indices[p]])),
+    write: async (carriers) =>
+      replaceGifFrames(
+        data,
+        parsed,
+        carriers.map((ranks, f) => {
+          if (!ranks) return null;
+          const { indices, order, usable } = frames[f];
+          const out = new Uint8Array(indices);
+          usable.forEach((p, i) => (out[p] = order[ranks[i]]));
+          return out;
+        })
+      ),
+  };
+}
+
+function apngAnimation(data: Uint8Array): Animation | null {
+  if (!isAPNG(data)) return null;
+  const parsed = parseAPNG(data);
+  const { channels, alphaChannel } = parsed;
+  const colourChannels = alphaChannel >= 0 ? channels - 1 : channels;
+  // Sample offsets of the colour channels, alpha left out
+  const colourSamples = (count: number): Uint32Array => {
+    const offsets = new Uint32Array(count * colourChannels);
+    let n = 0;
+    for (let s = 0; s < count * channels; s++) if (s % channels !== alphaChannel) offsets[n++] = s;
+    return offsets;
+  };
+  let samples: Uint8Array[] | null = null;
+  const frameSamples = async () =>
+    (samples ??= await Promise.all(parsed.frames.map((frame) => apngFrameSamples(parsed, frame))));
+  return {
+    slots: parsed.frames.map((frame) => frame.width * frame.height * colourChannels),
+    carriers: async () =>
+      (await frameSamples()).map((raw, f) => {
+        const { width, height } = parsed.frames[f];
+        return Uint8Array.from(colourSamples(width * height), (s) => raw[s]);
+      }),
+    write: async (carriers) => {
+      const raws = await frameSamples();
+      return replaceApngFrames(
+        data,
+        parsed,
+        carriers.map((values, f) => {
+          if (!values) return null;
+          const { width, height } = parsed.frames[f];
+          const out = new Uint8Array(raws[f]);
+          colourSamples(width * height).forEach((s, i) => (out[s] = values[i]));
+          return out;
+        })
+      );
+    },
+  };
+}
+
+// The cover's frames; null when it is not an animated GIF or APNG
+function readAnimation(carrier: StegoCarrier): Animation | null {
+  if (carrier.format === "gif") return gifAnimation(carrier.bytes);
+  if (carrier.format === "png") return apngAnimation(carrier.bytes);
+  return null;
+}
+
+// Whether the cover is an animated GIF or APNG, without decoding any frame
+export const isAnimation = (carrier: StegoCarrier): boolean =>
+  (carrier.format === "gif" && parseGIF(carrier.bytes).frames.length > 1) ||
+  (carrier.format === "png" && isAPNG(carrier.bytes));
+
+function requireAnimation(carrier: StegoCarrier): Animation {
+  const animation = readAnimation(carrier);
+  if (!animation) throw new Error("Multi-frame mode needs an animated GIF or APNG cover image");
+  return animation;
+}
+
+// Payload bytes each frame holds after its part header
+const partCapacities = (animation: Animation, level: RobustnessLevel): number[] =>
+  animation.slots.map((slots) => Math.max(0, eccCapacity(slots, level) - PART_HEADER_BYTES));
+
+// First frame as decoders see it, for metrics
+async function previewImage(carrier: StegoCarrier, bytes: Uint8Array): Promise<CoverImage> {
+  if (carrier.format === "gif") return indexedToRgb(decodeGIF(bytes));
+  const { width, height, pixels, alpha } = await decodePNG(bytes);
+  return { width, height, pixels, alpha };
+}
+
+async function extractParts(stego: StegoCarrier, key: string): Promise<CodecFrame | null> {
+  const animation = readAnimation(stego);
+  if (!animation) return null;
+  const carriers = await animation.carriers();
+  const parts = new Map<number, Uint8Array>();
+  const frames: number[] = [];
+  let expected = 0;
+  let length = 0;
+  let correctedErrors = 0;
+  let level: RobustnessLevel | null = null;
+  for (let f = 0; f < carriers.length; f++) {
+    for (const carrier of await candidateCarriers(carriers[f], key)) {
+      const frame = extractEccFrame(carrier);
+      if (!frame) continue;
+      const bytes = frame.payload;
+      if (bytes.length < PART_HEADER_BYTES || PART_MAGIC.some((b, i) => bytes[i] !== b)) {
+        throw new Error(`Frame ${f + 1} holds hidden data that is not part of a multi-frame payload`);
+      }
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const part = view.getUint16(4, false);
+      const count = view.getUint16(6, false);
+      const total = view.getUint32(8, false);
+      if (parts.size > 0 && (count !== expected || total !== length)) {
+        throw new Error(`Frame ${f + 1} holds part of a different multi-frame payload`);
+      }
+      if (part >= count) throw new Error(`Corrupt multi-frame payload: frame ${f + 1} holds part ${part + 1} of ${count}`);
+      if (parts.has(part)) {
+        throw new Error(`Corrupt multi-frame payload: frame ${f + 1} repeats part ${part + 1} of ${count}`);
+      }
+      expected = count;
+      length = total;
+      level ??= frame.level;
+      parts.set(part, bytes.subarray(PART_HEADER_BYTES));
+      frames.push(f);
+      correctedErrors += frame.correctedErrors;
+      break;
+    }
+  }
+  if (parts.size === 0) return null;
+
+  const missing = Array.from({ length: expected }, (_, i) => i).filter((i) => !parts.has(i));
+  if (missing.length > 0) {
+    throw new Error(`Incomplete multi-frame payload: ${missing.length} of ${expected} parts are missing`);
+  }
+  const payload = new Uint8Array(length);
+  let offset = 0;
+  for (let i = 0; i < expected; i++) {
+    const part = parts.get(i)!;
+    if (offset + part.length > length) throw new Error("Corrupt multi-frame payload: parts exceed the declared length");
+    payload.set(part, offset);
+    offset += part.length;
+  }
+  if (offset !== length) throw new Error("Corrupt multi-frame payload: parts fall short of the declared length");
+  return { payload, level, embedding: null, correctedErrors, details: { frames } };
+}
+
+export const multiFrameCodec: Codec = {
+  id: "frames",
+  name: "Multi-frame",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["gif", "png"],
+    writable: true,
+    keyed: true,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity(cover, options) {
+    const capacities = partCapacities(requireAnimation(cover), options.robustness);
+    return capacities.reduce((sum, capacity) => sum + capacity, 0);
+  },
+
+  async embed(cover, payload, options) {
+    const animation = requireAnimation(cover);
+    const { robustness, key } = options;
+    const capacities = partCapacities(animation, robustness);
+
+    // Parts in frame order, each as large as its frame allows
+    const plan: { frame: number; start: number; end: number }[] = [];
+    let offset = 0;
+    for (let f = 0; f < capacities.length && offset < payload.length; f++) {
+      if (capacities[f] === 0) continue;
+      const end = Math.min(payload.length, offset + capacities[f]);
+      plan.push({ frame: f, start: offset, end });
+      offset = end;
+    }
+    if (offset < payload.length) {
+      throw new Error(`Payload too large: ${payload.length} bytes. Maximum ${offset} bytes fit in this animation.`);
+    }
+    if (plan.length > MAX_PARTS) throw new Error(`A multi-frame payload has at most ${MAX_PARTS} parts`);
+
+    const carriers = await animation.carriers();
+    const written: (Uint8Array | null)[] = carriers.map(() => null);
+    let embeddedBits = 0;
+    let changedSamples = 0;
+    // Frames of one size share a keyed order
+    await sharingSampleOrders(async () => {
+      for (let i = 0; i < plan.length; i++) {
+        const { frame, start, end } = plan[i];
+        const part = new Uint8Array(PART_HEADER_BYTES + end - start);
+        const view = new DataView(part.buffer);
+        part.set(PART_MAGIC, 0);
+        view.setUint16(4, i, false);
+        view.setUint16(6, plan.length, false);
+        view.setUint32(8, payload.length, false);
+        part.set(payload.subarray(start, end), PART_HEADER_BYTES);
+
+        // Replacement: a GIF rank moves to its partner, an APNG sample by one
+        const carrier = carriers[frame];
+        const order = key ? await keyedSampleOrder(key, carrier.length) : null;
+        const embedded = embedEccFrame(order ? gatherSamples(carrier, order) : carrier, part, robustness, "replacement");
+        const values = order ? scatterSamples(carrier, order, embedded) : embedded;
+        for (let s = 0; s < values.length; s++) if (values[s] !== carrier[s]) changedSamples++;
+        written[frame] = values;
+        embeddedBits += eccFrameBits(part.length, robustness);
+      }
+    });
+
+    const bytes = await animation.write(written);
+    return {
+      image: await previewImage(cover, bytes),
+      file: { bytes, format: cover.format },
+      embeddedBits,
+      changedSamples,
+      details: { frames: plan.map((part) => part.frame) },
+    };
+  },
+
+  extract: extractParts,
+
+  // Unreadable animations (say, a palette APNG) simply hold no parts
+  async detect(stego, key) {
+    let animation: Animation | null;
+    let carriers: Uint8Array[];
+    try {
+      animation = readAnimation(stego);
+      if (!animation) return false;
+      carriers = await animation.carriers();
+    } catch {
+      return false;
+    }
+    for (const carrier of carriers) {
+      if ((await candidateCarriers(carrier, key)).some(hasEccFrame)) return true;
+    }
+    return false;
+  },
+};
@@ -0,0 +1,53 @@
+// Stego file formats for pixel codecs' results, shared by the encode edge
+// function and the browser.
+//
+// By default a stego image keeps its cover's format where that format
+// stores samples exactly — BMP, TIFF and lossless WebP, each written in the
+// cover's layout — and becomes PNG otherwise (GIF and JPEG covers
+// included). A client may ask for any of the lossless formats instead.
+// Lossy formats are refused: JPEG or lossy WebP would requantise the
+// samples and destroy the payload.
+
+import { type BmpLayout, encodeBMP } from "./bmp.ts";
+import type { CoverImage, ImageFormat } from "./codec.ts";
+import { encodePNG } from "./png.ts";
+import { encodeTIFF, type TiffLayout } from "./tiff.ts";
+import { encodeWebP, type WebpLayout } from "./webp.ts";
+
+export type OutputFormat = "png" | "bmp" | "tiff" | "webp";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["png", "bmp", "tiff", "webp"];
+
+// How the cover file was written, for stego files in the cover's format
+export interface CoverLayout {
+  bmp: BmpLayout | null;
+  tiff: TiffLayout | null;
+  webp: WebpLayout | null;
+}
+
+export const NO_LAYOUT: CoverLayout = { bmp: null, tiff: null, webp: null };
+
+// The requested output format; null (nothing or "auto" requested) keeps the
+// cover's format
+export function parseOutputFormat(value: unknown): OutputFormat | null {
+  if (value === null || value === undefined || value === "" || value === "auto") return null;
+  const format = String(value);
+  if (format === "jpeg" || format === "webp-lossy") {
+    throw new Error(`Lossy output would destroy the payload. Use one of ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(`Unknown output format: ${format}. Use one of ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+  return format as OutputFormat;
+}
+
+export const stegoFormat = (cover: ImageFormat, requested: OutputFormat | null): OutputFormat =>
+  requested ?? (cover === "bmp" || cover === "tiff" || cover === "webp" ? cover : "png");
+
+// Writes stego samples losslessly; a layout is only used for its own format
+export async function writeStegoImage(image: CoverImage, format: OutputFormat, layout: CoverLayout): Promise<Uint8Array> {
+  if (format === "bmp") return encodeBMP(image, layout.bmp);
+  if (format === "tiff") return encodeTIFF(image, layout.tiff ?? undefined);
+  if (format === "webp") return encodeWebP(image, layout.webp ?? undefined);
+  return encodePNG(image.width, image.height, image.pixels, image.alpha);
+}
@@ -0,0 +1,150 @@
+// Hidden content container shared by the edge functions and the browser.
+//
+// Text messages are stored as plain UTF-8, the format every earlier encoder
+// produced. Files are wrapped with their name and MIME type:
+//
+//   magic "SGFL" | version u8 | nameLen u16 BE | name (UTF-8) |
+//   mimeLen u8 | mimeType (ASCII) | file bytes
+//
+// The container sits inside any encryption, so filenames are protected by
+// the same key as the contents.
+//
+// Before encryption the packed content is deflated when that makes it
+// smaller, and flagged with its own header:
+//
+//   magic "SGZP" | version u8 | algorithm u8 | raw length u32 BE | data
+
+import { rawDeflate, rawInflate } from "./zlib.ts";
+
+const FILE_MAGIC = [0x53, 0x47, 0x46, 0x4C]; // "SGFL"
+const FILE_VERSION = 1;
+const MAX_NAME_BYTES = 255;
+
+const COMPRESSED_MAGIC = [0x53, 0x47, 0x5A, 0x50]; // "SGZP"
+const COMPRESSED_VERSION = 1;
+const COMPRESSED_HEADER_BYTES = 10;
+const COMPRESSION_DEFLATE = 1;
+// Refuse to inflate anything larger; hidden payloads are far smaller
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+export interface HiddenFile {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export type HiddenContent =
+  | { kind: "text"; text: string }
+  | { kind: "file"; file: HiddenFile };
+
+export interface PreparedPayload {
+  bytes: Uint8Array; // what gets embedded (or encrypted)
+  rawSize: number; // packed content before compression
+  compressedSize: number; // compressed form including its header
+  compressed: boolean;
+}
+
+const startsWithMagic = (bytes: Uint8Array, magic: number[] = FILE_MAGIC): boolean =>
+  bytes.length > magic.length && magic.every((b, i) => bytes[i] === b);
+
+export function isCompressedPayload(bytes: Uint8Array): boolean {
+  return startsWithMagic(bytes, COMPRESSED_MAGIC);
+}
+
+export function packContent(content: string | HiddenFile): Uint8Array {
+  const encoder = new TextEncoder();
+  if (typeof content === "string") {
+    return encoder.encode(content);
+  }
+
+  let name = encoder.encode(content.name || "file");
+  if (name.length > MAX_NAME_BYTES) name = name.slice(0, MAX_NAME_BYTES);
+  const mimeType = encoder.encode((content.mimeType || "application/octet-stream").slice(0, 255));
+
+  const packed = new Uint8Array(FILE_MAGIC.length + 1 + 2 + name.length + 1 + mimeType.length + content.data.length);
+  const view = new DataView(packed.buffer);
+  let offset = 0;
+  packed.set(FILE_MAGIC, offset);
+  offset += FILE_MAGIC.length;
+  packed[offset++] = FILE_VERSION;
+  view.setUint16(offset, name.length, false);
+  offset += 2;
+  packed.set(name, offset);
+  offset += name.length;
+  packed[offset++] = mimeType.length;
+  packed.set(mimeType, offset);
+  offset += mimeType.length;
+  packed.set(content.data, offset);
+  return packed;
+}
+
+export function unpackContent(bytes: Uint8Array): HiddenContent {
+  const decoder = new TextDecoder();
+  if (!startsWithMagic(bytes)) {
+    return { kind: "text", text: decoder.decode(bytes) };
+  }
+
+  const version = bytes[FILE_MAGIC.length];
+  if (version !== FILE_VERSION) {
+    throw new Error(`Unsupported hidden file format version: ${version}`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = FILE_MAGIC.length + 1;
+  if (offset + 2 > bytes.length) throw new Error("Corrupt hidden file header");
+  const nameLength = view.getUint16(offset, false);
+  offset += 2;
+  if (offset + nameLength + 1 > bytes.length) throw new Error("Corrupt hidden file header");
+  const name = decoder.decode(bytes.subarray(offset, offset + nameLength));
+  offset += nameLength;
+  const mimeLength = bytes[offset++];
+  if (offset + mimeLength > bytes.length) throw new Error("Corrupt hidden file header");
+  const mimeType = decoder.decode(bytes.subarray(offset, offset + mimeLength));
+  offset += mimeLength;
+
+  return { kind: "file", file: { name, mimeType, data: bytes.slice(offset) } };
+}
+
+// Pack the content and deflate it when that shrinks the payload
+export async function preparePayload(content: string | HiddenFile): Promise<PreparedPayload> {
+  const packed = packContent(content);
+  const deflated = await rawDeflate(packed);
+
+  const compressedSize = COMPRESSED_HEADER_BYTES + deflated.length;
+  if (compressedSize >= packed.length) {
+    return { bytes: packed, rawSize: packed.length, compressedSize, compressed: false };
+  }
+
+  const bytes = new Uint8Array(compressedSize);
+  bytes.set(COMPRESSED_MAGIC, 0);
+  bytes[4] = COMPRESSED_VERSION;
+  bytes[5] = COMPRESSION_DEFLATE;
+  new DataView(bytes.buffer).setUint32(6, packed.length, false);
+  bytes.set(deflated, COMPRESSED_HEADER_BYTES);
+  return { bytes, rawSize: packed.length, compressedSize, compressed: true };
+}
+
+// Inverse of preparePayload: inflate if flagged, then unpack
+export async function openContent(bytes: Uint8Array): Promise<HiddenContent> {
+  if (!isCompressedPayload(bytes)) return unpackContent(bytes);
+
+  if (bytes.length < COMPRESSED_HEADER_BYTES) throw new Error("Corrupt compressed payload header");
+  const version = bytes[4];
+  if (version !== COMPRESSED_VERSION) {
+    throw new Error(`Unsupported compressed payload version: ${version}`);
+  }
+  const algorithm = bytes[5];
+  if (algorithm !== COMPRESSION_DEFLATE) {
+    throw new Error(`Unsupported payload compression: ${algorithm}`);
+  }
+  const rawLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(6, false);
+  if (rawLength > MAX_INFLATED_BYTES) throw new Error("Compressed payload is too large to expand");
+
+  let inflated: Uint8Array;
+  try {
+    inflated = await rawInflate(bytes.subarray(COMPRESSED_HEADER_BYTES), rawLength);
+  } catch {
+    throw new Error("Corrupt compressed payload");
+  }
+  if (inflated.length !== rawLength) throw new Error("Corrupt compressed payload");
+  return unpackContent(inflated);
+}
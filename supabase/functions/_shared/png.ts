@@ -0,0 +1,450 @@
+// PNG codec shared by the steganography edge functions.
+//
+// Decodes every standard PNG variant (grayscale, RGB, palette, gray+alpha,
+// RGBA at 1/2/4/8/16 bits, Adam7 interlacing, all five scanline filters) into
+// packed 8-bit RGB plus an optional alpha plane, and re-encodes 8-bit RGB(A)
+// losslessly so LSB-embedded bits survive the round trip. Palette images
+// also keep their indices, and are written back as palette images by
+// encodeIndexedPNG.
+
+import { crc32 } from "./crc32.ts";
+import { type IndexedImage, paletteSize } from "./indexedImage.ts";
+import { zlibDeflate, zlibInflate } from "./zlib.ts";
+
+export interface DecodedPNG {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // packed RGB, 3 bytes per pixel
+  alpha: Uint8Array | null; // one byte per pixel, null when fully opaque
+  indexed: IndexedImage | null; // set for palette (colour type 3) images
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Channels per pixel for each PNG colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 pass origins and strides: [xStart, yStart, xStep, yStep]
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+export function isPNG(data: Uint8Array): boolean {
+  if (data.length < PNG_SIGNATURE.length) return false;
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (data[i] !== PNG_SIGNATURE[i]) return false;
+  }
+  return true;
+}
+
+// Whether the IHDR (always the first chunk) declares a palette image
+export const isPalettePNG = (data: Uint8Array): boolean => isPNG(data) && data.length > 25 && data[25] === 3;
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+};
+
+// Reverse the per-scanline filters of one (sub)image, returning the raw
+// scanlines without their leading filter-type bytes.
+export function unfilter(
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bpp: number
+): Uint8Array {
+  const out = new Uint8Array(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (rowBytes + 1)];
+    const src = offset + y * (rowBytes + 1) + 1;
+    const dst = y * rowBytes;
+    const prev = dst - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[src + x];
+      const a = x >= bpp ? out[dst + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + a; break;
+        case 2: value = raw + b; break;
+        case 3: value = raw + ((a + b) >> 1); break;
+        case 4: value = raw + paeth(a, b, c); break;
+        default: throw new Error(`Corrupt PNG: unknown filter type ${filter}`);
+      }
+      out[dst + x] = value & 0xFF;
+    }
+  }
+  return out;
+}
+
+// Read one sample (scaled to 8 bits) from a raw scanline buffer
+function readSample(raw: Uint8Array, rowStart: number, index: number, bitDepth: number): number {
+  switch (bitDepth) {
+    case 16:
+      return Math.round(((raw[rowStart + index * 2] << 8) | raw[rowStart + index * 2 + 1]) / 257);
+    case 8:
+      return raw[rowStart + index];
+    default: {
+      const bitPos = index * bitDepth;
+      const byte = raw[rowStart + (bitPos >> 3)];
+      const shift = 8 - bitDepth - (bitPos & 7);
+      return (byte >> shift) & ((1 << bitDepth) - 1);
+    }
+  }
+}
+
+// Read one sample at full precision (for tRNS colour-key comparison)
+function readSampleExact(raw: Uint8Array, rowStart: number, index: number, bitDepth: number): number {
+  if (bitDepth === 16) return (raw[rowStart + index * 2] << 8) | raw[rowStart + index * 2 + 1];
+  return readSample(raw, rowStart, index, bitDepth);
+}
+
+export async function decodePNG(data: Uint8Array): Promise<DecodedPNG> {
+  if (!isPNG(data)) {
+    throw new Error("Not a valid PNG file");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  let width = 0, height = 0, bitDepth = 0, colorType = -1, interlace = 0;
+  let palette: Uint8Array | null = null;
+  let trns: Uint8Array | null = null;
+  const idatParts: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset, false);
+    const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (body.length !== length) throw new Error(`Corrupt PNG: truncated ${type} chunk`);
+
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8, false);
+      height = view.getUint32(offset + 12, false);
+      bitDepth = data[offset + 16];
+      colorType = data[offset + 17];
+      interlace = data[offset + 20];
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      trns = body;
+    } else if (type === "IDAT") {
+      idatParts.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (!width || !height || !(colorType in CHANNELS)) {
+    throw new Error("Corrupt PNG: missing or invalid IHDR");
+  }
+  if (![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG bit depth: ${bitDepth}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("Corrupt PNG: palette image without PLTE chunk");
+  }
+
+  const idatLength = idatParts.reduce((sum, p) => sum + p.length, 0);
+  const compressed = new Uint8Array(idatLength);
+  let pos = 0;
+  for (const part of idatParts) {
+    compressed.set(part, pos);
+    pos += part.length;
+  }
+  const inflated = await zlibInflate(compressed);
+
+  const channels = CHANNELS[colorType];
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  const pixels = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height).fill(255);
+  const indices = colorType === 3 ? new Uint8Array(width * height) : null;
+  let hasAlpha = colorType === 4 || colorType === 6;
+
+  // tRNS colour keys for grayscale/RGB, compared at full sample precision
+  const keyGray = colorType === 0 && trns && trns.length >= 2 ? (trns[0] << 8) | trns[1] : -1;
+  const keyRGB = colorType === 2 && trns && trns.length >= 6
+    ? [(trns[0] << 8) | trns[1], (trns[2] << 8) | trns[3], (trns[4] << 8) | trns[5]]
+    : null;
+
+  const scale = (v: number) => (bitDepth >= 8 ? v : Math.round((v * 255) / maxSample));
+
+  const writePixel = (raw: Uint8Array, rowStart: number, sx: number, dx: number, dy: number) => {
+    const p = dy * width + dx;
+    const o = p * 3;
+    const base = sx * channels;
+    switch (colorType) {
+      case 0: {
+        const g = scale(readSample(raw, rowStart, base, bitDepth));
+        pixels[o] = pixels[o + 1] = pixels[o + 2] = g;
+        if (keyGray >= 0 && readSampleExact(raw, rowStart, base, bitDepth) === keyGray) {
+          alpha[p] = 0;
+          hasAlpha = true;
+        }
+        break;
+      }
+      case 2: {
+        pixels[o] = readSample(raw, rowStart, base, bitDepth);
+        pixels[o + 1] = readSample(raw, rowStart, base + 1, bitDepth);
+        pixels[o + 2] = readSample(raw, rowStart, base + 2, bitDepth);
+        if (
+          keyRGB &&
+          readSampleExact(raw, rowStart, base, bitDepth) === keyRGB[0] &&
+          readSampleExact(raw, rowStart, base + 1, bitDepth) === keyRGB[1] &&
+          readSampleExact(raw, rowStart, base + 2, bitDepth) === keyRGB[2]
+        ) {
+          alpha[p] = 0;
+          hasAlpha = true;
+        }
+        break;
+      }
+      case 3: {
+        const idx = readSample(raw, rowStart, base, bitDepth);
+        if (idx * 3 + 2 >= palette!.length) throw new Error("Corrupt PNG: palette index out of range");
+        indices![p] = idx;
+        pixels[o] = palette![idx * 3];
+        pixels[o + 1] = palette![idx * 3 + 1];
+        pixels[o + 2] = palette![idx * 3 + 2];
+        if (trns && idx < trns.length) {
+          alpha[p] = trns[idx];
+          if (trns[idx] !== 255) hasAlpha = true;
+        }
+        break;
+      }
+      case 4: {
+        const g = scale(readSample(raw, rowStart, base, bitDepth));
+        pixels[o] = pixels[o + 1] = pixels[o + 2] = g;
+        alpha[p] = readSample(raw, rowStart, base + 1, bitDepth);
+        break;
+      }
+      case 6: {
+        pixels[o] = readSample(raw, rowStart, base, bitDepth);
+        pixels[o + 1] = readSample(raw, rowStart, base + 1, bitDepth);
+        pixels[o + 2] = readSample(raw, rowStart, base + 2, bitDepth);
+        alpha[p] = readSample(raw, rowStart, base + 3, bitDepth);
+        break;
+      }
+    }
+  };
+
+  const passes = interlace === 1 ? ADAM7 : [[0, 0, 1, 1]];
+  let dataOffset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const passW = Math.ceil((width - x0) / dx);
+    const passH = Math.ceil((height - y0) / dy);
+    if (passW <= 0 || passH <= 0) continue;
+    const rowBytes = Math.ceil((passW * bitsPerPixel) / 8);
+    if (dataOffset + passH * (rowBytes + 1) > inflated.length) {
+      throw new Error("Corrupt PNG: image data is truncated");
+    }
+    const raw = unfilter(inflated, dataOffset, rowBytes, passH, bpp);
+    for (let y = 0; y < passH; y++) {
+      for (let x = 0; x < passW; x++) {
+        writePixel(raw, y * rowBytes, x, x0 + x * dx, y0 + y * dy);
+      }
+    }
+    dataOffset += passH * (rowBytes + 1);
+  }
+
+  let indexed: IndexedImage | null = null;
+  if (indices) {
+    const entries = Math.floor(palette!.length / 3);
+    let entryAlpha: Uint8Array | null = null;
+    if (trns && trns.some((a, i) => i < entries && a !== 255)) {
+      entryAlpha = new Uint8Array(entries).fill(255);
+      entryAlpha.set(trns.subarray(0, entries));
+    }
+    indexed = { width, height, indices, palette: palette!.slice(0, entries * 3), alpha: entryAlpha };
+  }
+
+  return { width, height, pixels, alpha: hasAlpha ? alpha : null, indexed };
+}
+
+// Apply the filter type with the smallest sum of absolute differences to each
+// scanline (the standard libpng heuristic).
+export function filterScanlines(raw: Uint8Array, rowBytes: number, rows: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(rows * (rowBytes + 1));
+  const candidate = new Uint8Array(rowBytes);
+  const best = new Uint8Array(rowBytes);
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let x = 0; x < rowBytes; x++) {
+        const a = x >= bpp ? raw[row + x - bpp] : 0;
+        const b = y > 0 ? raw[prev + x] : 0;
+        const c = x >= bpp && y > 0 ? raw[prev + x - bpp] : 0;
+        let predictor = 0;
+        switch (filter) {
+          case 1: predictor = a; break;
+          case 2: predictor = b; break;
+          case 3: predictor = (a + b) >> 1; break;
+          case 4: predictor = paeth(a, b, c); break;
+        }
+        const value = (raw[row + x] - predictor) & 0xFF;
+        candidate[x] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+    out[y * (rowBytes + 1)] = bestFilter;
+    out.set(best, y * (rowBytes + 1) + 1);
+  }
+  return out;
+}
+
+// One serialized chunk: length, type, body and CRC
+export function encodeChunk(type: string, body: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length, false);
+  const typeBytes = new TextEncoder().encode(type);
+  chunk.set(typeBytes, 4);
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32(typeBytes, body), false);
+  return chunk;
+}
+
+function writeChunk(parts: Uint8Array[], type: string, body: Uint8Array) {
+  parts.push(encodeChunk(type, body));
+}
+
+export interface PngChunk {
+  type: string;
+  start: number; // offset of the length field
+  end: number; // offset just past the CRC
+  body: Uint8Array;
+  crcValid: boolean;
+}
+
+// Chunks in file order, up to and including IEND; a truncated chunk ends the list
+export function readChunks(data: Uint8Array): PngChunk[] {
+  if (!isPNG(data)) throw new Error("Not a valid PNG file");
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset, false);
+    const end = offset + 12 + length;
+    if (end > data.length) break;
+    const typeBytes = data.subarray(offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    const type = String.fromCharCode(...typeBytes);
+    chunks.push({ type, start: offset, end, body, crcValid: view.getUint32(end - 4, false) === crc32(typeBytes, body) });
+    if (type === "IEND") break;
+    offset = end;
+  }
+  return chunks;
+}
+
+// Encode packed 8-bit RGB (plus optional alpha plane) as a non-interlaced PNG
+export async function encodePNG(
+  width: number,
+  height: number,
+  rgbData: Uint8Array,
+  alpha: Uint8Array | null = null
+): Promise<Uint8Array> {
+  const channels = alpha ? 4 : 3;
+  const rowBytes = width * channels;
+  const raw = new Uint8Array(rowBytes * height);
+  for (let p = 0, o = 0; p < width * height; p++) {
+    raw[o++] = rgbData[p * 3];
+    raw[o++] = rgbData[p * 3 + 1];
+    raw[o++] = rgbData[p * 3 + 2];
+    if (alpha) raw[o++] = alpha[p];
+  }
+
+  const filtered = filterScanlines(raw, rowBytes, height, channels);
+  const compressed = await zlibDeflate(filtered);
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width, false);
+  ihdrView.setUint32(4, height, false);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = alpha ? 6 : 2; // colour type: RGBA or RGB
+  ihdr[10] = 0; // compression
+  ihdr[11] = 0; // filter method
+  ihdr[12] = 0; // no interlace
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  writeChunk(parts, "IHDR", ihdr);
+  writeChunk(parts, "IDAT", compressed);
+  writeChunk(parts, "IEND", new Uint8Array(0));
+  return assemble(parts);
+}
+
+function assemble(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const png = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    png.set(part, pos);
+    pos += part.length;
+  }
+  return png;
+}
+
+// Encode an indexed image as a non-interlaced palette PNG at the smallest
+// bit depth that holds its palette, with a tRNS chunk for translucent entries
+export async function encodeIndexedPNG(image: IndexedImage): Promise<Uint8Array> {
+  const { width, height, indices, palette, alpha } = image;
+  const entries = paletteSize(image);
+  if (entries < 1 || entries > 256) throw new Error(`PNG palettes hold 1 to 256 colours, not ${entries}`);
+  const bitDepth = [1, 2, 4, 8].find((depth) => entries <= 1 << depth)!;
+  const rowBytes = Math.ceil((width * bitDepth) / 8);
+  const raw = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bitPos = x * bitDepth;
+      raw[y * rowBytes + (bitPos >> 3)] |= indices[y * width + x] << (8 - bitDepth - (bitPos & 7));
+    }
+  }
+
+  const filtered = filterScanlines(raw, rowBytes, height, 1);
+  const compressed = await zlibDeflate(filtered);
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width, false);
+  ihdrView.setUint32(4, height, false);
+  ihdr[8] = bitDepth;
+  ihdr[9] = 3; // colour type: palette
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  writeChunk(parts, "IHDR", ihdr);
+  writeChunk(parts, "PLTE", palette.subarray(0, entries * 3));
+  if (alpha) {
+    // tRNS lists entries up to the last translucent one
+    let last = Math.min(entries, alpha.length);
+    while (last > 0 && alpha[last - 1] === 255) last--;
+    if (last > 0) writeChunk(parts, "tRNS", alpha.subarray(0, last));
+  }
+  writeChunk(parts, "IDAT", compressed);
+  writeChunk(parts, "IEND", new Uint8Array(0));
+  return assemble(parts);
+}
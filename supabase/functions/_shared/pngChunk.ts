@@ -0,0 +1,73 @@
+// Payloads stored in a private ancillary PNG chunk, for covers whose pixels
+// must not change at all. The chunk is "sgSt" — ancillary, private and
+// safe to copy by the case of its letters — with a valid CRC, placed just
+// before IEND, so the result is a spec-compliant PNG that decoders render
+// exactly like the cover. Unlike data appended after IEND, it does not show
+// up as trailing garbage; but any tool that strips metadata removes it, so
+// the payload should be sealed with a key.
+
+import { type Codec, type CodecFrame, type StegoCarrier } from "./codec.ts";
+import { encodeChunk, readChunks } from "./png.ts";
+
+const CHUNK_TYPE = "sgSt";
+const MAX_CHUNK_BYTES = 0x7FFFFFFF; // PNG chunk lengths are limited to 2^31 - 1
+
+function findChunk(stego: StegoCarrier) {
+  return readChunks(stego.bytes).find((chunk) => chunk.type === CHUNK_TYPE) ?? null;
+}
+
+async function extractChunk(stego: StegoCarrier): Promise<CodecFrame | null> {
+  const chunk = findChunk(stego);
+  if (!chunk) return null;
+  if (!chunk.crcValid) throw new Error(`The ${CHUNK_TYPE} chunk fails its CRC check; the file is damaged`);
+  return { payload: chunk.body.slice(), level: null, embedding: null, correctedErrors: null, details: {} };
+}
+
+export const pngChunkCodec: Codec = {
+  id: "chunk",
+  name: "PNG-Chunk",
+  capabilities: {
+    carrier: "file",
+    reads: ["png"],
+    writable: true,
+    keyed: false,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity: () => MAX_CHUNK_BYTES,
+
+  async embed(cover, payload) {
+    if (cover.format !== "png") throw new Error("Chunk mode needs a PNG cover image");
+    const chunks = readChunks(cover.bytes);
+    const iend = chunks.find((chunk) => chunk.type === "IEND");
+    if (!iend) throw new Error("Corrupt PNG: no IEND chunk");
+
+    // Every chunk but an earlier payload chunk, the new one, then IEND;
+    // anything after IEND is dropped
+    const parts = chunks
+      .filter((chunk) => chunk.type !== CHUNK_TYPE && chunk !== iend)
+      .map((chunk) => cover.bytes.subarray(chunk.start, chunk.end));
+    parts.unshift(cover.bytes.subarray(0, chunks[0]?.start ?? 8));
+    parts.push(encodeChunk(CHUNK_TYPE, payload), cover.bytes.subarray(iend.start, iend.end));
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return {
+      image: cover.image,
+      file: { bytes, format: "png" },
+      embeddedBits: null,
+      changedSamples: null,
+      details: {},
+    };
+  },
+
+  extract: extractChunk,
+
+  detect: async (stego) => findChunk(stego) !== null,
+};
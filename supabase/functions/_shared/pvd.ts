@@ -0,0 +1,211 @@
+// Pixel-value differencing (Wu & Tsai, 2003) for the steganography edge
+// functions.
+//
+// Each channel is split into horizontally adjacent pixel pairs. The
+// difference d = p2 − p1 of a pair falls into one of the PVD_RANGES; a pair
+// in range [lo, hi] carries log2(hi − lo + 1) bits by replacing |d| with lo
+// plus those bits, keeping the sign. Edges and texture have large
+// differences and so carry more bits than smooth areas, where changes
+// would show.
+//
+// The new difference is applied around the pair's mean m = floor((p1 + p2)
+// / 2) (p1 = m − floor(d / 2), p2 = p1 + d), which the change leaves intact.
+// A pair is used only when both ends of its range, with either sign, keep it
+// inside [0, 255]; that check depends only on m and the range (a zero
+// difference has no sign to preserve), so the decoder skips exactly the
+// pairs the encoder skipped ("falling-off boundary").
+//
+// The bits form an error-corrected frame (ecc.ts) over the usable pairs'
+// bits, in a key-seeded order when a key is given.
+//
+// pvdCodec is the "pvd" method.
+
+import {
+  eccCapacity,
+  type EccFrame,
+  eccFrameBits,
+  embedEccFrame,
+  extractEccFrame,
+  hasEccFrame,
+  type RobustnessLevel,
+} from "./ecc.ts";
+import { candidateCarriers, gatherSamples, keyedSampleOrder, scatterSamples } from "./sampleOrder.ts";
+import { type Codec, fromEccFrame, requireImage } from "./codec.ts";
+
+export const PVD_RANGES: Array<[number, number]> = [
+  [0, 7],
+  [8, 15],
+  [16, 31],
+  [32, 63],
+  [64, 127],
+  [128, 255],
+];
+
+const RANGE_BITS = PVD_RANGES.map(([lo, hi]) => Math.log2(hi - lo + 1));
+
+export interface PvdEmbedResult {
+  pixels: Uint8Array;
+  embeddedBits: number;
+  changedSamples: number;
+}
+
+// Usable pairs: sample index of the first pixel, range index and sign
+interface PairTable {
+  first: Uint32Array;
+  range: Uint8Array;
+  negative: Uint8Array;
+  slots: number;
+}
+
+const rangeOf = (magnitude: number): number => {
+  let k = 0;
+  while (magnitude > PVD_RANGES[k][1]) k++;
+  return k;
+};
+
+// Pair values for mean m and difference d
+const pairFor = (mean: number, d: number): [number, number] => {
+  const p1 = mean - Math.floor(d / 2);
+  return [p1, p1 + d];
+};
+
+const inBounds = ([p1, p2]: [number, number]): boolean => p1 >= 0 && p1 <= 255 && p2 >= 0 && p2 <= 255;
+
+function pairTable(pixels: Uint8Array, width: number, height: number): PairTable {
+  const maxPairs = Math.floor(width / 2) * height * 3;
+  const first = new Uint32Array(maxPairs);
+  const range = new Uint8Array(maxPairs);
+  const negative = new Uint8Array(maxPairs);
+  let n = 0;
+  let slots = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x + 1 < width; x += 2) {
+      for (let c = 0; c < 3; c++) {
+        const a = (y * width + x) * 3 + c;
+        const d = pixels[a + 3] - pixels[a];
+        const mean = (pixels[a] + pixels[a + 3]) >> 1;
+        const k = rangeOf(Math.abs(d));
+        const [lo, hi] = PVD_RANGES[k];
+        if ([lo, -lo, hi, -hi].some((end) => !inBounds(pairFor(mean, end)))) continue;
+        first[n] = a;
+        range[n] = k;
+        negative[n] = d < 0 ? 1 : 0;
+        slots += RANGE_BITS[k];
+        n++;
+      }
+    }
+  }
+  return { first: first.subarray(0, n), range: range.subarray(0, n), negative: negative.subarray(0, n), slots };
+}
+
+// Bits currently carried by each usable pair, most significant first
+function readCarrier(pixels: Uint8Array, table: PairTable): Uint8Array {
+  const carrier = new Uint8Array(table.slots);
+  let s = 0;
+  for (let i = 0; i < table.first.length; i++) {
+    const a = table.first[i];
+    const bits = RANGE_BITS[table.range[i]];
+    const value = Math.abs(pixels[a + 3] - pixels[a]) - PVD_RANGES[table.range[i]][0];
+    for (let b = bits - 1; b >= 0; b--) carrier[s++] = (value >> b) & 1;
+  }
+  return carrier;
+}
+
+export function pvdCapacity(pixels: Uint8Array, width: number, height: number, level: RobustnessLevel): number {
+  return eccCapacity(pairTable(pixels, width, height).slots, level);
+}
+
+export async function embedPVD(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  payload: Uint8Array,
+  level: RobustnessLevel,
+  key: string = ""
+): Promise<PvdEmbedResult> {
+  const table = pairTable(pixels, width, height);
+  const capacity = eccCapacity(table.slots, level);
+  if (payload.length > capacity) {
+    throw new Error(`Payload too large: ${payload.length} bytes. Maximum ${capacity} bytes fit in this image.`);
+  }
+  const carrier = readCarrier(pixels, table);
+  const order = key ? await keyedSampleOrder(key, carrier.length) : null;
+  const embedded = embedEccFrame(order ? gatherSamples(carrier, order) : carrier, payload, level);
+  const bits = order ? scatterSamples(carrier, order, embedded) : embedded;
+
+  const out = new Uint8Array(pixels);
+  let changedSamples = 0;
+  let s = 0;
+  for (let i = 0; i < table.first.length; i++) {
+    const a = table.first[i];
+    const k = table.range[i];
+    let value = 0;
+    for (let b = 0; b < RANGE_BITS[k]; b++) value = (value << 1) | (bits[s++] & 1);
+    const d = (table.negative[i] ? -1 : 1) * (PVD_RANGES[k][0] + value);
+    const [p1, p2] = pairFor((out[a] + out[a + 3]) >> 1, d);
+    if (p1 !== out[a]) changedSamples++;
+    if (p2 !== out[a + 3]) changedSamples++;
+    out[a] = p1;
+    out[a + 3] = p2;
+  }
+  return { pixels: out, embeddedBits: eccFrameBits(payload.length, level), changedSamples };
+}
+
+// Returns null when the pairs hold no frame; throws when a frame is present
+// but damaged beyond repair
+export async function extractPVD(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  key: string = ""
+): Promise<EccFrame | null> {
+  for (const carrier of await candidateCarriers(readCarrier(pixels, pairTable(pixels, width, height)), key)) {
+    const frame = extractEccFrame(carrier);
+    if (frame) return frame;
+  }
+  return null;
+}
+
+export const pvdCodec: Codec = {
+  id: "pvd",
+  name: "PVD",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["bmp", "png", "tiff", "webp"],
+    writable: true,
+    keyed: true,
+    lsbEmbedding: false,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity(cover, options) {
+    const { pixels, width, height } = requireImage(cover, "PVD");
+    return pvdCapacity(pixels, width, height, options.robustness);
+  },
+
+  async embed(cover, payload, options) {
+    const image = requireImage(cover, "PVD");
+    const result = await embedPVD(image.pixels, image.width, image.height, payload, options.robustness, options.key);
+    return {
+      image: { ...image, pixels: result.pixels },
+      file: null,
+      embeddedBits: result.embeddedBits,
+      changedSamples: result.changedSamples,
+      details: {},
+    };
+  },
+
+  async extract(stego, key) {
+    const { pixels, width, height } = requireImage(stego, "PVD");
+    const frame = await extractPVD(pixels, width, height, key);
+    return frame ? fromEccFrame(frame) : null;
+  },
+
+  async detect(stego, key) {
+    const { pixels, width, height } = requireImage(stego, "PVD");
+    const carriers = await candidateCarriers(readCarrier(pixels, pairTable(pixels, width, height)), key);
+    return carriers.some(hasEccFrame);
+  },
+};
@@ -0,0 +1,171 @@
+// Reed–Solomon codec over GF(256) shared by the edge functions and browser.
+//
+// Systematic RS(n, n - nsym) with n ≤ 255: a codeword is the data followed
+// by nsym parity bytes and corrects up to nsym / 2 byte errors. Field
+// polynomial 0x11d, generator α = 2, first consecutive root α^0. Decoding
+// uses Berlekamp–Massey, a Chien search and Forney's algorithm.
+
+const FIELD_POLY = 0x11d;
+export const RS_MAX_CODEWORD = 255;
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= FIELD_POLY;
+  }
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+}
+
+const mul = (a: number, b: number): number => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const div = (a: number, b: number): number => {
+  if (b === 0) throw new Error("Division by zero in GF(256)");
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+};
+const pow = (a: number, n: number): number => (a === 0 ? 0 : EXP[(((LOG[a] * n) % 255) + 255) % 255]);
+
+// Polynomials below are coefficient arrays, lowest degree first
+const evalPoly = (poly: number[], x: number): number => {
+  let y = 0;
+  for (let i = poly.length - 1; i >= 0; i--) y = mul(y, x) ^ poly[i];
+  return y;
+};
+
+const generatorCache = new Map<number, Uint8Array>();
+
+// g(x) = (x - α^0)(x - α^1)…(x - α^(nsym-1)), highest degree first
+function generator(nsym: number): Uint8Array {
+  let g = generatorCache.get(nsym);
+  if (g) return g;
+  let poly = [1];
+  for (let i = 0; i < nsym; i++) {
+    const next = new Array(poly.length + 1).fill(0);
+    for (let j = 0; j < poly.length; j++) {
+      next[j] ^= poly[j];
+      next[j + 1] ^= mul(poly[j], EXP[i]);
+    }
+    poly = next;
+  }
+  g = Uint8Array.from(poly);
+  generatorCache.set(nsym, g);
+  return g;
+}
+
+function checkLengths(dataLength: number, nsym: number): void {
+  if (nsym < 0 || nsym % 2 !== 0) throw new Error(`Invalid Reed–Solomon parity length: ${nsym}`);
+  if (dataLength + nsym > RS_MAX_CODEWORD) {
+    throw new Error(`Reed–Solomon codeword too long: ${dataLength + nsym} > ${RS_MAX_CODEWORD}`);
+  }
+}
+
+// Returns data || parity
+export function rsEncode(data: Uint8Array, nsym: number): Uint8Array {
+  checkLengths(data.length, nsym);
+  const out = new Uint8Array(data.length + nsym);
+  out.set(data, 0);
+  if (nsym === 0) return out;
+
+  const g = generator(nsym);
+  // Long division of data·x^nsym by g; the remainder ends up in the tail
+  const work = new Uint8Array(out);
+  for (let i = 0; i < data.length; i++) {
+    const coef = work[i];
+    if (coef === 0) continue;
+    for (let j = 1; j < g.length; j++) work[i + j] ^= mul(g[j], coef);
+  }
+  out.set(work.subarray(data.length), data.length);
+  return out;
+}
+
+// Returns the corrected data bytes and the number of bytes that were wrong.
+// Throws when the codeword has more errors than nsym / 2.
+export function rsDecode(codeword: Uint8Array, nsym: number): { data: Uint8Array; corrected: number } {
+  checkLengths(codeword.length - nsym, nsym);
+  const n = codeword.length;
+  const dataLength = n - nsym;
+  if (nsym === 0) return { data: codeword.slice(0, dataLength), corrected: 0 };
+
+  // Syndromes S_i = C(α^i); byte j is the coefficient of x^(n-1-j)
+  const syndromes: number[] = new Array(nsym);
+  let clean = true;
+  for (let i = 0; i < nsym; i++) {
+    const x = EXP[i];
+    let s = 0;
+    for (let j = 0; j < n; j++) s = mul(s, x) ^ codeword[j];
+    syndromes[i] = s;
+    if (s !== 0) clean = false;
+  }
+  if (clean) return { data: codeword.slice(0, dataLength), corrected: 0 };
+
+  // Berlekamp–Massey: error locator Λ(x)
+  let locator = [1];
+  let previous = [1];
+  let errors = 0;
+  let shift = 1;
+  let lastDiscrepancy = 1;
+  for (let r = 0; r < nsym; r++) {
+    let d = syndromes[r];
+    for (let i = 1; i <= errors; i++) d ^= mul(locator[i] ?? 0, syndromes[r - i]);
+    if (d === 0) {
+      shift++;
+      continue;
+    }
+    const scale = div(d, lastDiscrepancy);
+    const updated = locator.slice();
+    const needed = previous.length + shift;
+    while (updated.length < needed) updated.push(0);
+    for (let i = 0; i < previous.length; i++) updated[i + shift] ^= mul(scale, previous[i]);
+    if (2 * errors <= r) {
+      previous = locator;
+      errors = r + 1 - errors;
+      lastDiscrepancy = d;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = updated;
+  }
+  while (locator.length > 1 && locator[locator.length - 1] === 0) locator.pop();
+  if (locator.length - 1 !== errors || 2 * errors > nsym) {
+    throw new Error("Too many errors to correct");
+  }
+
+  // Chien search: byte j is wrong when Λ(α^-(n-1-j)) = 0
+  const positions: number[] = [];
+  for (let j = 0; j < n; j++) {
+    if (evalPoly(locator, pow(2, -(n - 1 - j))) === 0) positions.push(j);
+  }
+  if (positions.length !== errors) throw new Error("Too many errors to correct");
+
+  // Forney: Ω(x) = S(x)Λ(x) mod x^nsym, e = X·Ω(X⁻¹) / Λ'(X⁻¹)
+  const omega = new Array(nsym).fill(0);
+  for (let i = 0; i < nsym; i++) {
+    for (let j = 0; j < locator.length && i + j < nsym; j++) {
+      omega[i + j] ^= mul(syndromes[i], locator[j]);
+    }
+  }
+  const derivative: number[] = [];
+  for (let i = 1; i < locator.length; i++) derivative.push(i % 2 === 1 ? locator[i] : 0);
+
+  const corrected = new Uint8Array(codeword);
+  for (const j of positions) {
+    const x = pow(2, n - 1 - j);
+    const xInv = div(1, x);
+    const denominator = evalPoly(derivative, xInv);
+    if (denominator === 0) throw new Error("Too many errors to correct");
+    corrected[j] ^= mul(x, div(evalPoly(omega, xInv), denominator));
+  }
+
+  // A miscorrection leaves a non-zero syndrome behind
+  for (let i = 0; i < nsym; i++) {
+    const x = EXP[i];
+    let s = 0;
+    for (let j = 0; j < n; j++) s = mul(s, x) ^ corrected[j];
+    if (s !== 0) throw new Error("Too many errors to correct");
+  }
+  return { data: corrected.slice(0, dataLength), corrected: errors };
+}
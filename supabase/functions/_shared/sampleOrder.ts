@@ -0,0 +1,76 @@
+// Keyed embedding order for LSB steganography.
+//
+// With a key, the carrier is not the samples in raster order but a
+// Fisher–Yates permutation of all channel samples driven by the AES-CTR
+// keystream from deriveKeystream. The salt depends only on the sample count,
+// so the decoder rebuilds the same order from the key and the image alone;
+// without the key nothing marks where the payload bits are.
+//
+// Each order costs a full PBKDF2 derivation, so callers that ask for the
+// same orders many times (a decoder trying every codec on every frame) run
+// inside sharingSampleOrders, which derives each key and count once.
+
+import { deriveKeystream } from "./crypto.ts";
+
+const ORDER_SALT = new TextEncoder().encode("SGLSB-order");
+
+// Orders derived inside sharingSampleOrders, by count and key; emptied once
+// no caller shares them, so keys are not kept between requests
+const sharedOrders = new Map<string, Promise<Uint32Array>>();
+let sharing = 0;
+
+export async function sharingSampleOrders<T>(run: () => Promise<T>): Promise<T> {
+  sharing++;
+  try {
+    return await run();
+  } finally {
+    if (--sharing === 0) sharedOrders.clear();
+  }
+}
+
+export function keyedSampleOrder(password: string, count: number): Promise<Uint32Array> {
+  if (sharing === 0) return deriveSampleOrder(password, count);
+  const id = `${count}:${password}`;
+  let order = sharedOrders.get(id);
+  if (!order) {
+    order = deriveSampleOrder(password, count);
+    sharedOrders.set(id, order);
+  }
+  return order;
+}
+
+async function deriveSampleOrder(password: string, count: number): Promise<Uint32Array> {
+  const salt = new Uint8Array(ORDER_SALT.length + 4);
+  salt.set(ORDER_SALT, 0);
+  new DataView(salt.buffer).setUint32(ORDER_SALT.length, count, false);
+
+  const stream = await deriveKeystream(password, salt, count * 4);
+  const words = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor((words.getUint32((count - 1 - i) * 4, false) / 4294967296) * (i + 1));
+    const t = order[i]; order[i] = order[j]; order[j] = t;
+  }
+  return order;
+}
+
+// Samples in embedding order
+export function gatherSamples(samples: Uint8Array, order: Uint32Array): Uint8Array {
+  const out = new Uint8Array(order.length);
+  for (let i = 0; i < order.length; i++) out[i] = samples[order[i]];
+  return out;
+}
+
+// Copy of `samples` with the embedding-order `values` written back in place
+export function scatterSamples(samples: Uint8Array, order: Uint32Array, values: Uint8Array): Uint8Array {
+  const out = new Uint8Array(samples);
+  for (let i = 0; i < order.length; i++) out[order[i]] = values[i];
+  return out;
+}
+
+// Carriers a decoder tries: the samples in the key's order when a key is
+// given, then in raster order
+export async function candidateCarriers(samples: Uint8Array, key: string): Promise<Uint8Array[]> {
+  return key ? [gatherSamples(samples, await keyedSampleOrder(key, samples.length)), samples] : [samples];
+}
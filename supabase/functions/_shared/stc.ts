@@ -0,0 +1,322 @@
+// Syndrome-trellis codes (Filler, Judas & Fridrich, 2011) for content-
+// adaptive LSB embedding.
+//
+// The message is the syndrome H·y of the stego LSBs y, where H is built from
+// a small h × w submatrix placed down the diagonal (one block of w columns
+// per message bit). A Viterbi pass over the 2^h trellis states finds the y
+// with the smallest total cost of changed samples, so with costs from
+// costMap.ts the changes land in textured regions.
+//
+// What is embedded is an error-corrected frame (see ecc.ts) over a virtual
+// carrier of floor(n / w) bits; slots the frame does not write are left for
+// the trellis to choose. The encoder takes the widest w from
+// STC_WIDTHS whose capacity fits the payload (wider means fewer changes);
+// the decoder tries each width in turn. The trellis runs in independent
+// segments of about SEGMENT_COLUMNS samples to bound memory, over the
+// samples in a fixed pseudo-random order: in raster order a smooth region is
+// a long run of near-wet columns that the trellis can only satisfy through
+// extra changes elsewhere.
+//
+// adaptiveCodec is the "adaptive" method: HILL costs (costMap.ts) over all
+// RGB samples, in a key-seeded order when a key is given.
+
+import {
+  DEFAULT_LSB_EMBEDDING,
+  eccCapacity,
+  type EccFrame,
+  eccFrameLayout,
+  extractEccFrame,
+  type LsbEmbedding,
+  lsbFlipper,
+  hasEccFrame,
+  type RobustnessLevel,
+} from "./ecc.ts";
+import { type Codec, fromEccFrame, requireImage } from "./codec.ts";
+import { hillCosts } from "./costMap.ts";
+import { candidateCarriers, gatherSamples, keyedSampleOrder, scatterSamples } from "./sampleOrder.ts";
+
+const STC_HEIGHT = 7;
+const STATES = 1 << STC_HEIGHT;
+const STATE_BYTES = STATES / 8;
+const SEGMENT_COLUMNS = 1 << 18;
+
+export const STC_WIDTHS = Array.from({ length: 16 }, (_, i) => 1 << i);
+
+export type AdaptiveFrame = EccFrame & { stcWidth: number };
+
+export interface AdaptiveEmbedResult {
+  samples: Uint8Array;
+  stcWidth: number;
+  embeddedBits: number;
+  changedSamples: number;
+}
+
+export const stcSlots = (samples: number, width: number): number => Math.floor(samples / width);
+
+// Widest w whose capacity still fits the payload, or 0 when none does
+export function chooseStcWidth(samples: number, payloadLength: number, level: RobustnessLevel): number {
+  for (let i = STC_WIDTHS.length - 1; i >= 0; i--) {
+    if (eccCapacity(stcSlots(samples, STC_WIDTHS[i]), level) >= payloadLength) return STC_WIDTHS[i];
+  }
+  return 0;
+}
+
+// Columns of the h × w submatrix as h-bit masks (bit t feeds message row
+// i + t). Fixed per width; top and bottom rows are always set.
+const submatrixCache = new Map<number, Uint8Array>();
+
+function submatrix(width: number): Uint8Array {
+  let columns = submatrixCache.get(width);
+  if (columns) return columns;
+  columns = new Uint8Array(width);
+  let state = (0x9E3779B9 ^ width) >>> 0;
+  for (let j = 0; j < width; j++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    columns[j] = (state & (STATES - 1)) | 1 | (1 << (STC_HEIGHT - 1));
+  }
+  submatrixCache.set(width, columns);
+  return columns;
+}
+
+let spreadCache: { length: number; order: Uint32Array } | null = null;
+
+// Fisher–Yates shuffle of the sample indices under a fixed xorshift seed
+function spreadOrder(length: number): Uint32Array {
+  if (spreadCache?.length === length) return spreadCache.order;
+  const order = new Uint32Array(length);
+  for (let i = 0; i < length; i++) order[i] = i;
+  let state = 0x2545F491;
+  for (let i = length - 1; i > 0; i--) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    const j = Math.floor((state / 4294967296) * (i + 1));
+    const t = order[i]; order[i] = order[j]; order[j] = t;
+  }
+  spreadCache = { length, order };
+  return order;
+}
+
+// Segment boundaries in message rows
+function segments(rows: number, width: number): Array<[number, number]> {
+  const perSegment = Math.max(1, Math.floor(SEGMENT_COLUMNS / width));
+  const out: Array<[number, number]> = [];
+  for (let start = 0; start < rows; start += perSegment) out.push([start, Math.min(rows, start + perSegment)]);
+  return out;
+}
+
+// Column j of a block whose rows past the segment end are cut off
+const columnMask = (column: number, rowsLeft: number): number =>
+  rowsLeft >= STC_HEIGHT ? column : column & ((1 << rowsLeft) - 1);
+
+// Stego LSBs for one segment: samples [first·w, end·w), message rows
+// [first, end) with `bits` / `written` indexed by absolute row
+function viterbi(
+  samples: Uint8Array,
+  costs: Float32Array,
+  bits: Uint8Array,
+  written: Uint8Array,
+  first: number,
+  end: number,
+  width: number
+): Uint8Array {
+  const columns = submatrix(width);
+  const rows = end - first;
+  const path = new Uint8Array(rows * width * STATE_BYTES);
+  const freeChoice = new Uint8Array(rows * STATE_BYTES);
+  let weight = new Float64Array(STATES).fill(Infinity);
+  let next = new Float64Array(STATES);
+  weight[0] = 0;
+
+  for (let r = 0; r < rows; r++) {
+    const row = first + r;
+    for (let j = 0; j < width; j++) {
+      const c = row * width + j;
+      const column = columnMask(columns[j], rows - r);
+      const x = samples[c] & 1;
+      const cost = costs[c];
+      const keep = x ? cost : 0; // y = 0
+      const set = x ? 0 : cost; // y = 1
+      const base = (r * width + j) * STATE_BYTES;
+      for (let k = 0; k < STATES; k++) {
+        const a = weight[k] + keep;
+        const b = weight[k ^ column] + set;
+        if (b < a) {
+          next[k] = b;
+          path[base + (k >> 3)] |= 1 << (k & 7);
+        } else {
+          next[k] = a;
+        }
+      }
+      [weight, next] = [next, weight];
+    }
+    // Row `row` is complete: its syndrome bit leaves the state
+    const choiceBase = r * STATE_BYTES;
+    for (let k = 0; k < STATES / 2; k++) {
+      if (written[row]) {
+        next[k] = weight[(k << 1) | (bits[row] & 1)];
+      } else {
+        const a = weight[k << 1];
+        const b = weight[(k << 1) | 1];
+        next[k] = Math.min(a, b);
+        if (b < a) freeChoice[choiceBase + (k >> 3)] |= 1 << (k & 7);
+      }
+    }
+    next.fill(Infinity, STATES / 2);
+    [weight, next] = [next, weight];
+  }
+
+  // Trace back from the all-zero state
+  const y = new Uint8Array(rows * width);
+  let state = 0;
+  for (let r = rows - 1; r >= 0; r--) {
+    const row = first + r;
+    const bit = written[row]
+      ? bits[row] & 1
+      : (freeChoice[r * STATE_BYTES + (state >> 3)] >> (state & 7)) & 1;
+    state = (state << 1) | bit;
+    for (let j = width - 1; j >= 0; j--) {
+      const base = (r * width + j) * STATE_BYTES;
+      if ((path[base + (state >> 3)] >> (state & 7)) & 1) {
+        y[r * width + j] = 1;
+        state ^= columnMask(columns[j], rows - r);
+      }
+    }
+  }
+  return y;
+}
+
+export function embedAdaptiveFrame(
+  samples: Uint8Array,
+  costs: Float32Array,
+  payload: Uint8Array,
+  level: RobustnessLevel,
+  embedding: LsbEmbedding = DEFAULT_LSB_EMBEDDING
+): AdaptiveEmbedResult {
+  const width = chooseStcWidth(samples.length, payload.length, level);
+  if (width === 0) {
+    const capacity = eccCapacity(samples.length, level);
+    throw new Error(`Payload too large: ${payload.length} bytes. Maximum ${capacity} bytes fit in this image.`);
+  }
+  const rows = stcSlots(samples.length, width);
+  const { bits, written } = eccFrameLayout(rows, payload, level, embedding);
+  const order = spreadOrder(samples.length);
+  const spread = new Uint8Array(samples.length);
+  const spreadCosts = new Float32Array(samples.length);
+  for (let i = 0; i < order.length; i++) {
+    spread[i] = samples[order[i]];
+    spreadCosts[i] = costs[order[i]];
+  }
+
+  const flip = lsbFlipper(embedding);
+  const out = new Uint8Array(samples);
+  let changedSamples = 0;
+  for (const [first, end] of segments(rows, width)) {
+    const y = viterbi(spread, spreadCosts, bits, written, first, end, width);
+    const offset = first * width;
+    for (let i = 0; i < y.length; i++) {
+      const target = order[offset + i];
+      if ((out[target] & 1) !== y[i]) {
+        out[target] = flip(out[target]);
+        changedSamples++;
+      }
+    }
+  }
+  let embeddedBits = 0;
+  for (let i = 0; i < rows; i++) embeddedBits += written[i];
+  return { samples: out, stcWidth: width, embeddedBits, changedSamples };
+}
+
+// Syndrome of the sample LSBs, as the LSBs of a virtual carrier
+function readSyndrome(samples: Uint8Array, width: number): Uint8Array {
+  const columns = submatrix(width);
+  const rows = stcSlots(samples.length, width);
+  const bits = new Uint8Array(rows);
+  for (const [first, end] of segments(rows, width)) {
+    let window = 0;
+    for (let row = first; row < end; row++) {
+      for (let j = 0; j < width; j++) {
+        if (samples[row * width + j] & 1) window ^= columnMask(columns[j], end - row);
+      }
+      bits[row] = window & 1;
+      window >>>= 1;
+    }
+  }
+  return bits;
+}
+
+// Syndrome carrier of the samples for each trellis width in turn
+function* syndromeCarriers(samples: Uint8Array): Generator<[number, Uint8Array]> {
+  const order = spreadOrder(samples.length);
+  const spread = new Uint8Array(samples.length);
+  for (let i = 0; i < order.length; i++) spread[i] = samples[order[i]];
+  for (const width of STC_WIDTHS) yield [width, readSyndrome(spread, width)];
+}
+
+// Returns null when no width yields a frame; throws when a frame is present
+// but damaged beyond repair
+export function extractAdaptiveFrame(samples: Uint8Array): AdaptiveFrame | null {
+  for (const [width, carrier] of syndromeCarriers(samples)) {
+    const frame = extractEccFrame(carrier);
+    if (frame) return { ...frame, stcWidth: width };
+  }
+  return null;
+}
+
+export const adaptiveCodec: Codec = {
+  id: "adaptive",
+  name: "Adaptive-STC",
+  capabilities: {
+    carrier: "pixels",
+    reads: ["bmp", "png", "tiff", "webp"],
+    writable: true,
+    keyed: true,
+    lsbEmbedding: true,
+    matrixEmbedding: false,
+    alpha: false,
+    robust: false,
+  },
+
+  capacity: (cover, options) => eccCapacity(requireImage(cover, "Adaptive").pixels.length, options.robustness),
+
+  async embed(cover, payload, options) {
+    const image = requireImage(cover, "Adaptive");
+    const { pixels, width, height } = image;
+    // HILL costs of the cover, visited in the same order as the samples
+    const costs = hillCosts(pixels, width, height);
+    const order = options.key ? await keyedSampleOrder(options.key, pixels.length) : null;
+    const result = embedAdaptiveFrame(
+      order ? gatherSamples(pixels, order) : pixels,
+      order ? Float32Array.from(order, (i) => costs[i]) : costs,
+      payload,
+      options.robustness,
+      options.embedding
+    );
+    return {
+      image: { ...image, pixels: order ? scatterSamples(pixels, order, result.samples) : result.samples },
+      file: null,
+      embeddedBits: result.embeddedBits,
+      changedSamples: result.changedSamples,
+      details: { stcWidth: result.stcWidth },
+    };
+  },
+
+  async extract(stego, key) {
+    for (const samples of await candidateCarriers(requireImage(stego, "Adaptive").pixels, key)) {
+      const frame = extractAdaptiveFrame(samples);
+      if (frame) return fromEccFrame(frame, { stcWidth: frame.stcWidth }, true);
+    }
+    return null;
+  },
+
+  async detect(stego, key) {
+    for (const samples of await candidateCarriers(requireImage(stego, "Adaptive").pixels, key)) {
+      for (const [, carrier] of syndromeCarriers(samples)) if (hasEccFrame(carrier)) return true;
+    }
+    return false;
+  },
+};
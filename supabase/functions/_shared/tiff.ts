@@ -0,0 +1,402 @@
+// TIFF codec shared by the steganography edge functions and the browser.
+//
+// Decodes the first image of a baseline TIFF: 8-bit greyscale or RGB in
+// interleaved strips, with an optional alpha extra sample, uncompressed or
+// LZW-compressed, with or without horizontal differencing. The file's byte
+// order, compression, predictor and descriptive tags (resolution,
+// orientation, colour profile and the like) are kept alongside the samples
+// so encodeTIFF can write the stego image the way the cover was written.
+// Samples are always written as 8-bit RGB, or RGBA when there is alpha,
+// since LSB changes rarely leave a pixel grey. Tiled and planar files and
+// pages after the first are not read.
+
+export interface TiffTag {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array; // raw value bytes, in the file's byte order
+}
+
+export interface TiffLayout {
+  littleEndian: boolean;
+  compression: number; // 1 (none) or 5 (LZW)
+  predictor: number; // 1 (none) or 2 (horizontal differencing)
+  extraSample: number; // ExtraSamples value of the alpha sample: 1 associated, 2 unassociated
+  tags: TiffTag[]; // descriptive tags, written back unchanged
+}
+
+export interface DecodedTIFF {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // packed RGB, 3 bytes per pixel
+  alpha: Uint8Array | null; // one byte per pixel, null when fully opaque
+  layout: TiffLayout;
+}
+
+const NO_COMPRESSION = 1;
+const LZW = 5;
+const HORIZONTAL_PREDICTOR = 2;
+
+const BYTE = 1;
+const SHORT = 3;
+const LONG = 4;
+// Bytes per value of each field type; IFD pointers (type 13) are left out
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const IMAGE_WIDTH = 256;
+const IMAGE_LENGTH = 257;
+const BITS_PER_SAMPLE = 258;
+const COMPRESSION = 259;
+const PHOTOMETRIC = 262;
+const STRIP_OFFSETS = 273;
+const SAMPLES_PER_PIXEL = 277;
+const ROWS_PER_STRIP = 278;
+const STRIP_BYTE_COUNTS = 279;
+const PLANAR_CONFIGURATION = 284;
+const PREDICTOR = 317;
+const TILE_WIDTH = 322;
+const EXTRA_SAMPLES = 338;
+
+// Tags rewritten from the new samples, and tags pointing at data (tiles,
+// sub-IFDs, Exif/GPS directories, JPEG tables) that is not carried over
+const IMAGE_TAGS = new Set([
+  256, 257, 258, 259, 262, 273, 277, 278, 279, 284, 317, 320, 322, 323, 324, 325, 330, 338, 339, 347, 513, 514,
+  34665, 34853, 40965,
+]);
+
+const CLEAR = 256;
+const END = 257;
+const MAX_CODES = 4096;
+const STRIP_BYTES = 8192;
+
+// Layout of TIFFs written from covers in other formats
+export const DEFAULT_TIFF_LAYOUT: TiffLayout = {
+  littleEndian: true,
+  compression: LZW,
+  predictor: HORIZONTAL_PREDICTOR,
+  extraSample: 2,
+  tags: [],
+};
+
+export function isTIFF(data: Uint8Array): boolean {
+  if (data.length < 8) return false;
+  return (data[0] === 0x49 && data[1] === 0x49 && data[2] === 42 && data[3] === 0) ||
+    (data[0] === 0x4D && data[1] === 0x4D && data[2] === 0 && data[3] === 42);
+}
+
+// LZW as TIFF uses it: codes packed MSB first, 9 to 12 bits wide and
+// widening one code earlier than GIF's ("early change"), 256 clearing the
+// table and 257 ending the strip. A short strip leaves the rest at 0.
+function lzwDecode(data: Uint8Array, count: number): Uint8Array {
+  const out = new Uint8Array(count);
+  const prefix = new Int16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const first = new Uint8Array(MAX_CODES);
+  const length = new Uint16Array(MAX_CODES);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = first[i] = i;
+    length[i] = 1;
+  }
+
+  let codeSize = 9;
+  let next = END + 1;
+  let prev = -1;
+  let bits = 0;
+  let bitCount = 0;
+  let pos = 0;
+  let o = 0;
+  while (o < count) {
+    while (bitCount < codeSize && pos < data.length) {
+      bits = (bits << 8) | data[pos++];
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) break;
+    const code = (bits >>> (bitCount - codeSize)) & ((1 << codeSize) - 1);
+    bitCount -= codeSize;
+    bits &= (1 << bitCount) - 1;
+
+    if (code === CLEAR) {
+      codeSize = 9;
+      next = END + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === END) break;
+    if (prev === -1) {
+      if (code >= CLEAR) throw new Error("Corrupt TIFF: invalid LZW code");
+      out[o++] = code;
+      prev = code;
+      continue;
+    }
+    if (code > next) throw new Error("Corrupt TIFF: invalid LZW code");
+    if (next < MAX_CODES) {
+      prefix[next] = prev;
+      suffix[next] = first[code === next ? prev : code];
+      first[next] = first[prev];
+      length[next] = length[prev] + 1;
+      next++;
+      if (next + 1 === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    // The string of `code`, written back to front
+    const len = length[code];
+    for (let c = code, j = o + len - 1; j >= o; j--) {
+      if (j < count) out[j] = suffix[c];
+      c = prefix[c];
+    }
+    o += len;
+    prev = code;
+  }
+  return out;
+}
+
+function lzwEncode(bytes: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let codeSize = 9;
+  let next = END + 1;
+  let table = new Map<number, number>();
+  let bits = 0;
+  let bitCount = 0;
+  const write = (code: number) => {
+    bits = (bits << codeSize) | code;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push((bits >>> (bitCount - 8)) & 0xFF);
+      bitCount -= 8;
+    }
+    bits &= (1 << bitCount) - 1;
+  };
+
+  write(CLEAR);
+  let prefix = bytes[0];
+  for (let i = 1; i < bytes.length; i++) {
+    const k = bytes[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    // Clear one entry short of a full table, as libtiff does, so the
+    // decoder never needs a 13-bit code
+    if (next < MAX_CODES - 1) {
+      table.set(key, next++);
+      // The decoder adds each entry one code later, and widens one code early
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      write(CLEAR);
+      table = new Map();
+      codeSize = 9;
+      next = END + 1;
+    }
+    prefix = k;
+  }
+  write(prefix);
+  write(END);
+  if (bitCount > 0) out.push((bits << (8 - bitCount)) & 0xFF);
+  return Uint8Array.from(out);
+}
+
+// Horizontal differencing on 8-bit samples, row by row
+function undoDifferencing(rows: Uint8Array, rowBytes: number, samplesPerPixel: number) {
+  for (let start = 0; start < rows.length; start += rowBytes) {
+    for (let i = start + samplesPerPixel; i < start + rowBytes; i++) rows[i] = (rows[i] + rows[i - samplesPerPixel]) & 0xFF;
+  }
+}
+
+function applyDifferencing(rows: Uint8Array, rowBytes: number, samplesPerPixel: number) {
+  for (let start = 0; start < rows.length; start += rowBytes) {
+    for (let i = start + rowBytes - 1; i >= start + samplesPerPixel; i--) rows[i] = (rows[i] - rows[i - samplesPerPixel]) & 0xFF;
+  }
+}
+
+// Integer values of a BYTE, SHORT or LONG field
+function tagValues(entry: TiffTag | undefined, littleEndian: boolean): number[] {
+  if (!entry) return [];
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    if (entry.type === BYTE) values.push(view.getUint8(i));
+    else if (entry.type === SHORT) values.push(view.getUint16(i * 2, littleEndian));
+    else if (entry.type === LONG) values.push(view.getUint32(i * 4, littleEndian));
+  }
+  return values;
+}
+
+export function decodeTIFF(data: Uint8Array): DecodedTIFF {
+  if (!isTIFF(data)) throw new Error("Not a TIFF file");
+  const littleEndian = data[0] === 0x49;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const ifd = view.getUint32(4, littleEndian);
+  if (ifd + 2 > data.length) throw new Error("Corrupt TIFF: directory out of range");
+  const entryCount = view.getUint16(ifd, littleEndian);
+  if (ifd + 2 + entryCount * 12 > data.length) throw new Error("Corrupt TIFF: truncated directory");
+
+  const entries = new Map<number, TiffTag>();
+  for (let i = 0; i < entryCount; i++) {
+    const at = ifd + 2 + i * 12;
+    const tag = view.getUint16(at, littleEndian);
+    const type = view.getUint16(at + 2, littleEndian);
+    const count = view.getUint32(at + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) continue; // pointers and unknown types carry nothing read here
+    const bytes = size * count;
+    const offset = bytes <= 4 ? at + 8 : view.getUint32(at + 8, littleEndian);
+    if (offset + bytes > data.length) throw new Error("Corrupt TIFF: tag value out of range");
+    entries.set(tag, { tag, type, count, value: data.slice(offset, offset + bytes) });
+  }
+  const values = (tag: number) => tagValues(entries.get(tag), littleEndian);
+  const single = (tag: number, fallback: number) => values(tag)[0] ?? fallback;
+
+  const width = single(IMAGE_WIDTH, 0);
+  const height = single(IMAGE_LENGTH, 0);
+  if (!width || !height) throw new Error("Corrupt TIFF: missing image size");
+  if (entries.has(TILE_WIDTH)) throw new Error("Tiled TIFFs are not supported");
+  if (single(PLANAR_CONFIGURATION, 1) !== 1) throw new Error("Planar TIFFs are not supported");
+  const compression = single(COMPRESSION, NO_COMPRESSION);
+  if (compression !== NO_COMPRESSION && compression !== LZW) {
+    throw new Error("Only uncompressed and LZW-compressed TIFFs are supported");
+  }
+  const predictor = single(PREDICTOR, 1);
+  if (predictor !== 1 && predictor !== HORIZONTAL_PREDICTOR) throw new Error(`Unsupported TIFF predictor ${predictor}`);
+  const photometric = single(PHOTOMETRIC, -1);
+  const colours = photometric === 2 ? 3 : photometric === 1 ? 1 : 0;
+  if (!colours) throw new Error("Only greyscale and RGB TIFFs are supported");
+  const samplesPerPixel = single(SAMPLES_PER_PIXEL, 1);
+  if (samplesPerPixel !== colours && samplesPerPixel !== colours + 1) {
+    throw new Error(`Unsupported TIFF layout: ${samplesPerPixel} samples per pixel`);
+  }
+  const bitsPerSample = values(BITS_PER_SAMPLE);
+  if (bitsPerSample.length === 0 || bitsPerSample.some((bits) => bits !== 8)) {
+    throw new Error("Only 8-bit TIFFs are supported");
+  }
+
+  const offsets = values(STRIP_OFFSETS);
+  const byteCounts = values(STRIP_BYTE_COUNTS);
+  if (offsets.length === 0 || offsets.length !== byteCounts.length) throw new Error("Corrupt TIFF: missing strips");
+  const rowsPerStrip = Math.min(single(ROWS_PER_STRIP, height), height);
+  const rowBytes = width * samplesPerPixel;
+  const raw = new Uint8Array(rowBytes * height);
+  for (let s = 0, y = 0; y < height; s++, y += rowsPerStrip) {
+    if (s >= offsets.length) throw new Error("Corrupt TIFF: missing strips");
+    const size = Math.min(rowsPerStrip, height - y) * rowBytes;
+    if (offsets[s] + byteCounts[s] > data.length) throw new Error("Corrupt TIFF: strip out of range");
+    const stored = data.subarray(offsets[s], offsets[s] + byteCounts[s]);
+    const strip = compression === LZW ? lzwDecode(stored, size) : stored;
+    if (strip.length < size) throw new Error("Corrupt TIFF: strip data is truncated");
+    const rows = raw.subarray(y * rowBytes, y * rowBytes + size);
+    rows.set(strip.subarray(0, size));
+    if (predictor === HORIZONTAL_PREDICTOR) undoDifferencing(rows, rowBytes, samplesPerPixel);
+  }
+
+  const count = width * height;
+  const pixels = new Uint8Array(count * 3);
+  const alpha = samplesPerPixel > colours ? new Uint8Array(count) : null;
+  let opaque = true;
+  for (let p = 0, o = 0; p < count; p++, o += samplesPerPixel) {
+    pixels[p * 3] = raw[o];
+    pixels[p * 3 + 1] = raw[o + (colours === 3 ? 1 : 0)];
+    pixels[p * 3 + 2] = raw[o + (colours === 3 ? 2 : 0)];
+    if (alpha) {
+      alpha[p] = raw[o + colours];
+      if (alpha[p] !== 255) opaque = false;
+    }
+  }
+
+  const layout: TiffLayout = {
+    littleEndian,
+    compression,
+    predictor,
+    extraSample: alpha ? single(EXTRA_SAMPLES, 2) : 2,
+    tags: [...entries.values()].filter((entry) => !IMAGE_TAGS.has(entry.tag)),
+  };
+  return { width, height, pixels, alpha: opaque ? null : alpha, layout };
+}
+
+// Writes 8-bit RGB(A) as a single-image TIFF in `layout` (see the top of
+// this file): LZW with horizontal differencing, little-endian, when no
+// layout is given
+export function encodeTIFF(
+  image: { width: number; height: number; pixels: Uint8Array; alpha: Uint8Array | null },
+  layout: TiffLayout = DEFAULT_TIFF_LAYOUT
+): Uint8Array {
+  const { width, height, pixels, alpha } = image;
+  const { littleEndian, compression, predictor } = layout;
+  const samplesPerPixel = alpha ? 4 : 3;
+  const rowBytes = width * samplesPerPixel;
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_BYTES / rowBytes));
+
+  const strips: Uint8Array[] = [];
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    const end = Math.min(y + rowsPerStrip, height) * width;
+    const strip = new Uint8Array((end - y * width) * samplesPerPixel);
+    for (let p = y * width, o = 0; p < end; p++) {
+      strip[o++] = pixels[p * 3];
+      strip[o++] = pixels[p * 3 + 1];
+      strip[o++] = pixels[p * 3 + 2];
+      if (alpha) strip[o++] = alpha[p];
+    }
+    if (predictor === HORIZONTAL_PREDICTOR) applyDifferencing(strip, rowBytes, samplesPerPixel);
+    strips.push(compression === LZW ? lzwEncode(strip) : strip);
+  }
+
+  // Header, strips, then the directory and the values that do not fit in it
+  const stripOffsets: number[] = [];
+  let pos = 8;
+  for (const strip of strips) {
+    stripOffsets.push(pos);
+    pos += strip.length;
+  }
+  const ifd = pos + (pos & 1);
+
+  const field = (tag: number, type: number, values: number[]): TiffTag => {
+    const value = new Uint8Array(values.length * TYPE_SIZES[type]);
+    const view = new DataView(value.buffer);
+    values.forEach((v, i) => (type === SHORT ? view.setUint16(i * 2, v, littleEndian) : view.setUint32(i * 4, v, littleEndian)));
+    return { tag, type, count: values.length, value };
+  };
+  const tags = [
+    field(IMAGE_WIDTH, LONG, [width]),
+    field(IMAGE_LENGTH, LONG, [height]),
+    field(BITS_PER_SAMPLE, SHORT, new Array(samplesPerPixel).fill(8)),
+    field(COMPRESSION, SHORT, [compression]),
+    field(PHOTOMETRIC, SHORT, [2]),
+    field(STRIP_OFFSETS, LONG, stripOffsets),
+    field(SAMPLES_PER_PIXEL, SHORT, [samplesPerPixel]),
+    field(ROWS_PER_STRIP, LONG, [rowsPerStrip]),
+    field(STRIP_BYTE_COUNTS, LONG, strips.map((strip) => strip.length)),
+    field(PLANAR_CONFIGURATION, SHORT, [1]),
+    ...(predictor === HORIZONTAL_PREDICTOR ? [field(PREDICTOR, SHORT, [predictor])] : []),
+    ...(alpha ? [field(EXTRA_SAMPLES, SHORT, [layout.extraSample])] : []),
+    ...layout.tags,
+  ].sort((a, b) => a.tag - b.tag);
+
+  let valuePos = ifd + 2 + tags.length * 12 + 4;
+  const valueOffsets = tags.map((entry) => {
+    if (entry.value.length <= 4) return -1;
+    const at = valuePos;
+    valuePos += entry.value.length + (entry.value.length & 1);
+    return at;
+  });
+
+  const out = new Uint8Array(valuePos);
+  const view = new DataView(out.buffer);
+  out[0] = out[1] = littleEndian ? 0x49 : 0x4D;
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, ifd, littleEndian);
+  strips.forEach((strip, i) => out.set(strip, stripOffsets[i]));
+  view.setUint16(ifd, tags.length, littleEndian);
+  tags.forEach((entry, i) => {
+    const at = ifd + 2 + i * 12;
+    view.setUint16(at, entry.tag, littleEndian);
+    view.setUint16(at + 2, entry.type, littleEndian);
+    view.setUint32(at + 4, entry.count, littleEndian);
+    if (valueOffsets[i] < 0) {
+      out.set(entry.value, at + 8);
+    } else {
+      view.setUint32(at + 8, valueOffsets[i], littleEndian);
+      out.set(entry.value, valueOffsets[i]);
+    }
+  });
+  return out;
+}
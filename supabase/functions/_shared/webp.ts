@@ -0,0 +1,648 @@
+// WebP codec shared by the steganography edge functions and the browser.
+//
+// Decodes lossless (VP8L) WebP images, in the simple container or the
+// extended (VP8X) one, with the whole of the format: the predictor, colour,
+// subtract-green and colour-indexing transforms, the colour cache, meta
+// prefix codes and LZ77 backward references. Lossy (VP8) and animated
+// WebPs are not decoded. encodeWebP writes 8-bit RGB(A) back as a lossless
+// WebP with no transforms and one set of prefix codes over literal pixels:
+// larger than an optimising encoder's output, but exact, which is what the
+// LSB codecs need. The cover's ICC profile, Exif and XMP chunks are kept.
+
+export interface WebpChunk {
+  type: string;
+  body: Uint8Array;
+}
+
+export interface WebpLayout {
+  chunks: WebpChunk[]; // ICCP, EXIF and XMP chunks, written back unchanged
+}
+
+export interface DecodedWebP {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // packed RGB, 3 bytes per pixel
+  alpha: Uint8Array | null; // one byte per pixel, null when fully opaque
+  layout: WebpLayout;
+}
+
+const VP8L_SIGNATURE = 0x2F;
+const MAX_SIZE = 16384;
+const METADATA = ["ICCP", "EXIF", "XMP "];
+
+const NUM_LITERALS = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_CODE_LENGTH = 15;
+const MAX_LENGTH_CODE_LENGTH = 7;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+const PREDICTOR_TRANSFORM = 0;
+const CROSS_COLOR_TRANSFORM = 1;
+const SUBTRACT_GREEN_TRANSFORM = 2;
+const COLOR_INDEXING_TRANSFORM = 3;
+
+// The 120 short distance codes: offsets (dx, dy) around the current pixel,
+// nearest first, with ties broken by |dx| and then positive dx first
+const DISTANCE_MAP: [number, number][] = (() => {
+  const offsets: [number, number][] = [];
+  for (let dx = 1; dx <= 8; dx++) offsets.push([dx, 0]);
+  for (let dy = 1; dy <= 7; dy++) {
+    for (let dx = -7; dx <= 8; dx++) offsets.push([dx, dy]);
+  }
+  const norm = ([dx, dy]: [number, number]) => dx * dx + dy * dy;
+  return offsets.sort((a, b) => norm(a) - norm(b) || Math.abs(a[0]) - Math.abs(b[0]) || b[0] - a[0]);
+})();
+
+export function isWebP(data: Uint8Array): boolean {
+  return data.length >= 12 && String.fromCharCode(...data.subarray(0, 4)) === "RIFF" &&
+    String.fromCharCode(...data.subarray(8, 12)) === "WEBP";
+}
+
+function readChunks(data: Uint8Array): WebpChunk[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = Math.min(data.length, 8 + view.getUint32(4, true));
+  const chunks: WebpChunk[] = [];
+  let pos = 12;
+  while (pos + 8 <= end) {
+    const type = String.fromCharCode(...data.subarray(pos, pos + 4));
+    const size = view.getUint32(pos + 4, true);
+    if (pos + 8 + size > end) throw new Error("Corrupt WebP: truncated chunk");
+    chunks.push({ type, body: data.subarray(pos + 8, pos + 8 + size) });
+    pos += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+// Whether the WebP is a still, lossless image this module can decode
+export function isLosslessWebP(data: Uint8Array): boolean {
+  if (!isWebP(data)) return false;
+  const chunks = readChunks(data);
+  return chunks.some((chunk) => chunk.type === "VP8L") && !chunks.some((chunk) => chunk.type === "ANIM");
+}
+
+// ---------------------------------------------------------------------------
+// Decoder
+// ---------------------------------------------------------------------------
+
+class BitReader {
+  private pos = 0; // in bits
+
+  constructor(private readonly data: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.pos >> 3;
+      if (byte >= this.data.length) throw new Error("Corrupt WebP: truncated bitstream");
+      value |= ((this.data[byte] >> (this.pos & 7)) & 1) << i;
+      this.pos++;
+    }
+    return value;
+  }
+}
+
+// A canonical prefix code; a code with a single symbol takes no bits
+interface PrefixCode {
+  counts: Uint16Array; // number of codes of each length
+  symbols: Uint16Array; // symbols in code order
+  single: number; // the only symbol, or -1
+}
+
+function buildPrefixCode(lengths: ArrayLike<number>): PrefixCode {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  let used = 0;
+  let last = -1;
+  for (let s = 0; s < lengths.length; s++) {
+    if (!lengths[s]) continue;
+    counts[lengths[s]]++;
+    used++;
+    last = s;
+  }
+  const offsets = new Uint16Array(MAX_CODE_LENGTH + 2);
+  for (let len = 1; len <= MAX_CODE_LENGTH; len++) offsets[len + 1] = offsets[len] + counts[len];
+  const symbols = new Uint16Array(used);
+  for (let s = 0; s < lengths.length; s++) {
+    if (lengths[s]) symbols[offsets[lengths[s]]++] = s;
+  }
+  return { counts, symbols, single: used === 1 ? last : -1 };
+}
+
+// Codes are read a bit at a time, first bit most significant
+function readSymbol(reader: BitReader, code: PrefixCode): number {
+  if (code.single >= 0) return code.single;
+  let value = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len <= MAX_CODE_LENGTH; len++) {
+    value |= reader.read(1);
+    const count = code.counts[len];
+    if (value < first + count) return code.symbols[index + value - first];
+    index += count;
+    first = (first + count) << 1;
+    value <<= 1;
+  }
+  throw new Error("Corrupt WebP: invalid prefix code");
+}
+
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixCode {
+  const lengths = new Uint8Array(alphabetSize);
+  if (reader.read(1)) {
+    // Simple code: one or two symbols, the first of 1 or 8 bits
+    const count = reader.read(1) + 1;
+    const symbols = [reader.read(reader.read(1) ? 8 : 1)];
+    if (count === 2) symbols.push(reader.read(8));
+    for (const symbol of symbols) {
+      if (symbol >= alphabetSize) throw new Error("Corrupt WebP: invalid prefix code");
+      lengths[symbol] = 1;
+    }
+    return buildPrefixCode(lengths);
+  }
+
+  const lengthLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  const lengthCount = reader.read(4) + 4;
+  for (let i = 0; i < lengthCount; i++) lengthLengths[CODE_LENGTH_ORDER[i]] = reader.read(3);
+  const lengthCode = buildPrefixCode(lengthLengths);
+  let maxSymbol = alphabetSize;
+  if (reader.read(1)) {
+    maxSymbol = 2 + reader.read(2 + 2 * reader.read(3));
+    if (maxSymbol > alphabetSize) throw new Error("Corrupt WebP: invalid prefix code");
+  }
+  // 16 repeats the last non-zero length, 17 and 18 write runs of zeros
+  let previous = 8;
+  for (let s = 0; s < alphabetSize && maxSymbol-- > 0;) {
+    const length = readSymbol(reader, lengthCode);
+    if (length < 16) {
+      lengths[s++] = length;
+      if (length) previous = length;
+      continue;
+    }
+    const repeat = length === 16 ? 3 + reader.read(2) : length === 17 ? 3 + reader.read(3) : 11 + reader.read(7);
+    if (s + repeat > alphabetSize) throw new Error("Corrupt WebP: invalid prefix code");
+    lengths.fill(length === 16 ? previous : 0, s, s + repeat);
+    s += repeat;
+  }
+  return buildPrefixCode(lengths);
+}
+
+interface PrefixGroup {
+  green: PrefixCode; // green, backward reference lengths and colour cache indices
+  red: PrefixCode;
+  blue: PrefixCode;
+  alpha: PrefixCode;
+  distance: PrefixCode;
+}
+
+const readPrefixGroup = (reader: BitReader, cacheSize: number): PrefixGroup => ({
+  green: readPrefixCode(reader, NUM_LITERALS + NUM_LENGTH_CODES + cacheSize),
+  red: readPrefixCode(reader, NUM_LITERALS),
+  blue: readPrefixCode(reader, NUM_LITERALS),
+  alpha: readPrefixCode(reader, NUM_LITERALS),
+  distance: readPrefixCode(reader, NUM_DISTANCE_CODES),
+});
+
+// Lengths and distances: a prefix symbol plus extra bits
+function prefixValue(reader: BitReader, prefix: number): number {
+  if (prefix < 4) return prefix + 1;
+  const extraBits = (prefix - 2) >> 1;
+  return ((2 + (prefix & 1)) << extraBits) + reader.read(extraBits) + 1;
+}
+
+function pixelDistance(width: number, code: number): number {
+  if (code > DISTANCE_MAP.length) return code - DISTANCE_MAP.length;
+  const [dx, dy] = DISTANCE_MAP[code - 1];
+  return Math.max(1, dx + dy * width);
+}
+
+const subSize = (size: number, bits: number): number => (size + (1 << bits) - 1) >> bits;
+
+// An entropy-coded image of ARGB pixels. Only the main image (level 0) may
+// switch prefix code groups by region.
+function decodeEntropyImage(reader: BitReader, width: number, height: number, level0: boolean): Uint32Array {
+  let cacheBits = 0;
+  if (reader.read(1)) {
+    cacheBits = reader.read(4);
+    if (cacheBits < 1 || cacheBits > 11) throw new Error("Corrupt WebP: invalid colour cache size");
+  }
+  const cacheSize = cacheBits ? 1 << cacheBits : 0;
+
+  let groupBits = 0;
+  let groupMap: Uint32Array | null = null;
+  let groupCount = 1;
+  if (level0 && reader.read(1)) {
+    groupBits = reader.read(3) + 2;
+    groupMap = decodeEntropyImage(reader, subSize(width, groupBits), subSize(height, groupBits), false);
+    for (let i = 0; i < groupMap.length; i++) {
+      groupMap[i] = (groupMap[i] >> 8) & 0xFFFF;
+      groupCount = Math.max(groupCount, groupMap[i] + 1);
+    }
+  }
+  const groups = Array.from({ length: groupCount }, () => readPrefixGroup(reader, cacheSize));
+  const groupsPerRow = subSize(width, groupBits);
+
+  const pixels = new Uint32Array(width * height);
+  const cache = new Uint32Array(cacheSize);
+  const remember = (color: number) => {
+    if (cacheSize) cache[Math.imul(0x1E35A7BD, color) >>> (32 - cacheBits)] = color;
+  };
+  let pos = 0;
+  while (pos < pixels.length) {
+    const x = pos % width;
+    const y = (pos - x) / width;
+    const group = groupMap ? groups[groupMap[(y >> groupBits) * groupsPerRow + (x >> groupBits)]] : groups[0];
+    const symbol = readSymbol(reader, group.green);
+    if (symbol < NUM_LITERALS) {
+      const red = readSymbol(reader, group.red);
+      const blue = readSymbol(reader, group.blue);
+      const alpha = readSymbol(reader, group.alpha);
+      pixels[pos] = (alpha << 24) | (red << 16) | (symbol << 8) | blue;
+      remember(pixels[pos++]);
+    } else if (symbol < NUM_LITERALS + NUM_LENGTH_CODES) {
+      const length = prefixValue(reader, symbol - NUM_LITERALS);
+      const distance = pixelDistance(width, prefixValue(reader, readSymbol(reader, group.distance)));
+      if (distance > pos || pos + length > pixels.length) throw new Error("Corrupt WebP: invalid backward reference");
+      for (let i = 0; i < length; i++, pos++) {
+        pixels[pos] = pixels[pos - distance];
+        remember(pixels[pos]);
+      }
+    } else {
+      const index = symbol - NUM_LITERALS - NUM_LENGTH_CODES;
+      if (index >= cacheSize) throw new Error("Corrupt WebP: invalid colour cache index");
+      pixels[pos++] = cache[index];
+    }
+  }
+  return pixels;
+}
+
+interface Transform {
+  type: number;
+  width: number; // image width the transform applies at
+  bits: number; // block size (predictor, colour) or packing (colour indexing)
+  data: Uint32Array; // sub-image or colour table
+}
+
+// ARGB arithmetic, channel by channel modulo 256
+const addPixels = (a: number, b: number): number =>
+  ((((a & 0xFF00FF00) + (b & 0xFF00FF00)) & 0xFF00FF00) | (((a & 0x00FF00FF) + (b & 0x00FF00FF)) & 0x00FF00FF)) >>> 0;
+const average2 = (a: number, b: number): number => ((((a ^ b) & 0xFEFEFEFE) >>> 1) + (a & b)) >>> 0;
+const channel = (c: number, shift: number): number => (c >>> shift) & 0xFF;
+const clamp = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+function perChannel(f: (shift: number) => number): number {
+  return ((f(24) << 24) | (f(16) << 16) | (f(8) << 8) | f(0)) >>> 0;
+}
+
+function select(left: number, top: number, topLeft: number): number {
+  let towardsTop = 0;
+  let towardsLeft = 0;
+  for (const shift of [24, 16, 8, 0]) {
+    towardsTop += Math.abs(channel(top, shift) - channel(topLeft, shift));
+    towardsLeft += Math.abs(channel(left, shift) - channel(topLeft, shift));
+  }
+  return towardsTop < towardsLeft ? left : top;
+}
+
+// The 14 predictors; 14 and 15 behave like 0, as in libwebp
+function predict(mode: number, left: number, top: number, topLeft: number, topRight: number): number {
+  switch (mode) {
+    case 1: return left;
+    case 2: return top;
+    case 3: return topRight;
+    case 4: return topLeft;
+    case 5: return average2(average2(left, topRight), top);
+    case 6: return average2(left, topLeft);
+    case 7: return average2(left, top);
+    case 8: return average2(topLeft, top);
+    case 9: return average2(top, topRight);
+    case 10: return average2(average2(left, topLeft), average2(top, topRight));
+    case 11: return select(left, top, topLeft);
+    case 12:
+      return perChannel((s) => clamp(channel(left, s) + channel(top, s) - channel(topLeft, s)));
+    case 13: {
+      const average = average2(left, top);
+      return perChannel((s) => clamp(channel(average, s) + Math.trunc((channel(average, s) - channel(topLeft, s)) / 2)));
+    }
+    default: return 0xFF000000;
+  }
+}
+
+function inversePredictor(transform: Transform, pixels: Uint32Array, height: number) {
+  const { width, bits, data } = transform;
+  const blocksPerRow = subSize(width, bits);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let predicted: number;
+      if (y === 0) predicted = x === 0 ? 0xFF000000 : pixels[i - 1];
+      else if (x === 0) predicted = pixels[i - width];
+      // On the last column the top-right pixel is the first of this row
+      else {
+        const mode = (data[(y >> bits) * blocksPerRow + (x >> bits)] >> 8) & 0xF;
+        predicted = predict(mode, pixels[i - 1], pixels[i - width], pixels[i - width - 1], pixels[i - width + 1]);
+      }
+      pixels[i] = addPixels(pixels[i], predicted);
+    }
+  }
+}
+
+const signed8 = (v: number): number => (v << 24) >> 24;
+
+function inverseCrossColor(transform: Transform, pixels: Uint32Array, height: number) {
+  const { width, bits, data } = transform;
+  const blocksPerRow = subSize(width, bits);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const element = data[(y >> bits) * blocksPerRow + (x >> bits)];
+      const greenToRed = signed8(element & 0xFF);
+      const greenToBlue = signed8((element >> 8) & 0xFF);
+      const redToBlue = signed8((element >> 16) & 0xFF);
+      const i = y * width + x;
+      const argb = pixels[i];
+      const green = signed8((argb >> 8) & 0xFF);
+      const red = ((argb >> 16) + ((greenToRed * green) >> 5)) & 0xFF;
+      const blue = (argb + ((greenToBlue * green) >> 5) + ((redToBlue * signed8(red)) >> 5)) & 0xFF;
+      pixels[i] = (argb & 0xFF00FF00) | (red << 16) | blue;
+    }
+  }
+}
+
+function inverseSubtractGreen(pixels: Uint32Array) {
+  for (let i = 0; i < pixels.length; i++) {
+    const argb = pixels[i];
+    const green = (argb >> 8) & 0xFF;
+    pixels[i] = (argb & 0xFF00FF00) | ((((argb >> 16) + green) & 0xFF) << 16) | ((argb + green) & 0xFF);
+  }
+}
+
+// Palette indices packed 1, 2, 4 or 8 per pixel into green, expanded to colours
+function expandColorIndices(transform: Transform, packed: Uint32Array, height: number): Uint32Array {
+  const { width, bits, data } = transform;
+  const packedWidth = subSize(width, bits);
+  const bitsPerIndex = 8 >> bits;
+  const mask = (1 << bitsPerIndex) - 1;
+  const pixels = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const green = (packed[y * packedWidth + (x >> bits)] >> 8) & 0xFF;
+      const index = (green >> ((x & ((1 << bits) - 1)) * bitsPerIndex)) & mask;
+      // Indices past the table are transparent black
+      pixels[y * width + x] = index < data.length ? data[index] : 0;
+    }
+  }
+  return pixels;
+}
+
+// Transforms, then the main image, with the transforms undone in reverse
+function decodeImage(reader: BitReader, width: number, height: number): Uint32Array {
+  const transforms: Transform[] = [];
+  let codedWidth = width;
+  while (reader.read(1)) {
+    const type = reader.read(2);
+    if (transforms.some((t) => t.type === type)) throw new Error("Corrupt WebP: repeated transform");
+    if (type === PREDICTOR_TRANSFORM || type === CROSS_COLOR_TRANSFORM) {
+      const bits = reader.read(3) + 2;
+      const data = decodeEntropyImage(reader, subSize(codedWidth, bits), subSize(height, bits), false);
+      transforms.push({ type, width: codedWidth, bits, data });
+    } else if (type === COLOR_INDEXING_TRANSFORM) {
+      const size = reader.read(8) + 1;
+      const data = decodeEntropyImage(reader, size, 1, false);
+      // The table is stored as differences from the previous entry
+      for (let i = 1; i < size; i++) data[i] = addPixels(data[i], data[i - 1]);
+      const bits = size > 16 ? 0 : size > 4 ? 1 : size > 2 ? 2 : 3;
+      transforms.push({ type, width: codedWidth, bits, data });
+      codedWidth = subSize(codedWidth, bits);
+    } else {
+      transforms.push({ type, width: codedWidth, bits: 0, data: new Uint32Array(0) });
+    }
+  }
+
+  let pixels = decodeEntropyImage(reader, codedWidth, height, true);
+  for (let i = transforms.length - 1; i >= 0; i--) {
+    const transform = transforms[i];
+    if (transform.type === PREDICTOR_TRANSFORM) inversePredictor(transform, pixels, height);
+    else if (transform.type === CROSS_COLOR_TRANSFORM) inverseCrossColor(transform, pixels, height);
+    else if (transform.type === SUBTRACT_GREEN_TRANSFORM) inverseSubtractGreen(pixels);
+    else pixels = expandColorIndices(transform, pixels, height);
+  }
+  return pixels;
+}
+
+function decodeVP8L(data: Uint8Array): { width: number; height: number; argb: Uint32Array } {
+  if (data.length < 5 || data[0] !== VP8L_SIGNATURE) throw new Error("Corrupt WebP: invalid VP8L header");
+  const reader = new BitReader(data.subarray(1));
+  const width = reader.read(14) + 1;
+  const height = reader.read(14) + 1;
+  reader.read(1); // alpha hint
+  if (reader.read(3) !== 0) throw new Error("Unsupported VP8L version");
+  return { width, height, argb: decodeImage(reader, width, height) };
+}
+
+export function decodeWebP(data: Uint8Array): DecodedWebP {
+  if (!isWebP(data)) throw new Error("Not a WebP file");
+  const chunks = readChunks(data);
+  if (chunks.some((chunk) => chunk.type === "ANIM")) throw new Error("Animated WebPs are not supported");
+  const vp8l = chunks.find((chunk) => chunk.type === "VP8L");
+  if (!vp8l) throw new Error("Only lossless (VP8L) WebPs are supported");
+
+  const { width, height, argb } = decodeVP8L(vp8l.body);
+  const count = width * height;
+  const pixels = new Uint8Array(count * 3);
+  const alpha = new Uint8Array(count);
+  let opaque = true;
+  for (let p = 0; p < count; p++) {
+    const c = argb[p];
+    pixels[p * 3] = (c >> 16) & 0xFF;
+    pixels[p * 3 + 1] = (c >> 8) & 0xFF;
+    pixels[p * 3 + 2] = c & 0xFF;
+    alpha[p] = c >>> 24;
+    if (alpha[p] !== 255) opaque = false;
+  }
+  const layout = { chunks: chunks.filter((chunk) => METADATA.includes(chunk.type)) };
+  return { width, height, pixels, alpha: opaque ? null : alpha, layout };
+}
+
+// ---------------------------------------------------------------------------
+// Encoder
+// ---------------------------------------------------------------------------
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, bits: number) {
+    for (let i = 0; i < bits; i++) {
+      this.buffer |= ((value >>> i) & 1) << this.count;
+      if (++this.count === 8) {
+        this.bytes.push(this.buffer);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.count) this.bytes.push(this.buffer);
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// Huffman code lengths for `counts`, none longer than `limit`: counts are
+// halved until the tree is shallow enough
+function huffmanLengths(counts: ArrayLike<number>, limit: number): Uint8Array {
+  let weights = Array.from(counts);
+  for (;;) {
+    const lengths = new Uint8Array(weights.length);
+    let nodes = weights.flatMap((weight, symbol) => (weight ? [{ weight, symbols: [symbol] }] : []));
+    if (nodes.length === 1) lengths[nodes[0].symbols[0]] = 1;
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [a, b] = nodes;
+      for (const symbol of a.symbols) lengths[symbol]++;
+      for (const symbol of b.symbols) lengths[symbol]++;
+      nodes = [{ weight: a.weight + b.weight, symbols: [...a.symbols, ...b.symbols] }, ...nodes.slice(2)];
+    }
+    if (lengths.every((length) => length <= limit)) return lengths;
+    weights = weights.map((weight) => (weight ? Math.max(1, weight >> 1) : 0));
+  }
+}
+
+// Canonical codes for `lengths`; a code with one symbol writes no bits
+interface PrefixWriter {
+  lengths: Uint8Array;
+  codes: Uint16Array;
+  single: boolean;
+}
+
+function prefixWriter(lengths: Uint8Array): PrefixWriter {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  lengths.forEach((length) => length && counts[length]++);
+  const next = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let len = 1, code = 0; len <= MAX_CODE_LENGTH; len++) {
+    code = (code + counts[len - 1]) << 1;
+    next[len] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length) codes[symbol] = next[length]++;
+  });
+  return { lengths, codes, single: lengths.filter((length) => length).length === 1 };
+}
+
+function writeSymbol(writer: BitWriter, code: PrefixWriter, symbol: number) {
+  if (code.single) return;
+  for (let i = code.lengths[symbol] - 1; i >= 0; i--) writer.write((code.codes[symbol] >> i) & 1, 1);
+}
+
+// Writes a prefix code for `histogram`: the simple form for up to two
+// 8-bit symbols, otherwise every code length as a literal
+function writePrefixCode(writer: BitWriter, histogram: Uint32Array): PrefixWriter {
+  const used = [...histogram.keys()].filter((symbol) => histogram[symbol] > 0);
+  const lengths = new Uint8Array(histogram.length);
+  if (used.length <= 2 && used.every((symbol) => symbol < NUM_LITERALS)) {
+    const symbols = used.length ? used : [0];
+    const wide = symbols[0] > 1;
+    writer.write(1, 1);
+    writer.write(symbols.length - 1, 1);
+    writer.write(wide ? 1 : 0, 1);
+    writer.write(symbols[0], wide ? 8 : 1);
+    if (symbols.length === 2) writer.write(symbols[1], 8);
+    for (const symbol of symbols) lengths[symbol] = 1;
+    return prefixWriter(lengths);
+  }
+
+  lengths.set(huffmanLengths(histogram, MAX_CODE_LENGTH));
+  const lengthCounts = new Uint32Array(CODE_LENGTH_ORDER.length);
+  lengths.forEach((length) => lengthCounts[length]++);
+  const lengthCode = prefixWriter(huffmanLengths(lengthCounts, MAX_LENGTH_CODE_LENGTH));
+  let lengthCount = CODE_LENGTH_ORDER.length;
+  while (lengthCount > 4 && !lengthCode.lengths[CODE_LENGTH_ORDER[lengthCount - 1]]) lengthCount--;
+  writer.write(0, 1);
+  writer.write(lengthCount - 4, 4);
+  for (let i = 0; i < lengthCount; i++) writer.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  writer.write(0, 1); // a length for every symbol follows
+  for (const length of lengths) writeSymbol(writer, lengthCode, length);
+  return prefixWriter(lengths);
+}
+
+function riffChunk(type: string, body: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + body.length + (body.length & 1));
+  for (let i = 0; i < 4; i++) chunk[i] = type.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, body.length, true);
+  chunk.set(body, 8);
+  return chunk;
+}
+
+// Writes 8-bit RGB(A) as a lossless WebP, in the extended container when
+// `layout` carries metadata chunks
+export function encodeWebP(
+  image: { width: number; height: number; pixels: Uint8Array; alpha: Uint8Array | null },
+  layout: WebpLayout = { chunks: [] }
+): Uint8Array {
+  const { width, height, pixels, alpha } = image;
+  if (width > MAX_SIZE || height > MAX_SIZE) throw new Error(`WebP images are at most ${MAX_SIZE} pixels wide and high`);
+  const count = width * height;
+
+  // One prefix code group over literal pixels: no transforms, cache or references
+  const histograms = [
+    new Uint32Array(NUM_LITERALS + NUM_LENGTH_CODES),
+    new Uint32Array(NUM_LITERALS),
+    new Uint32Array(NUM_LITERALS),
+    new Uint32Array(NUM_LITERALS),
+    new Uint32Array(NUM_DISTANCE_CODES),
+  ];
+  for (let p = 0; p < count; p++) {
+    histograms[0][pixels[p * 3 + 1]]++;
+    histograms[1][pixels[p * 3]]++;
+    histograms[2][pixels[p * 3 + 2]]++;
+    histograms[3][alpha ? alpha[p] : 255]++;
+  }
+
+  const writer = new BitWriter();
+  writer.write(VP8L_SIGNATURE, 8);
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(alpha ? 1 : 0, 1);
+  writer.write(0, 3); // version
+  writer.write(0, 1); // no transforms
+  writer.write(0, 1); // no colour cache
+  writer.write(0, 1); // one prefix code group
+  const [green, red, blue, alphaCode] = histograms.map((histogram) => writePrefixCode(writer, histogram));
+  for (let p = 0; p < count; p++) {
+    writeSymbol(writer, green, pixels[p * 3 + 1]);
+    writeSymbol(writer, red, pixels[p * 3]);
+    writeSymbol(writer, blue, pixels[p * 3 + 2]);
+    writeSymbol(writer, alphaCode, alpha ? alpha[p] : 255);
+  }
+  const vp8l = riffChunk("VP8L", writer.finish());
+
+  const parts: Uint8Array[] = [];
+  if (layout.chunks.length) {
+    // VP8X flags: ICC profile 0x20, alpha 0x10, Exif 0x08, XMP 0x04
+    const has = (type: string) => layout.chunks.some((chunk) => chunk.type === type);
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = (has("ICCP") ? 0x20 : 0) | (alpha ? 0x10 : 0) | (has("EXIF") ? 0x08 : 0) | (has("XMP ") ? 0x04 : 0);
+    for (let i = 0; i < 3; i++) {
+      vp8x[4 + i] = ((width - 1) >> (8 * i)) & 0xFF;
+      vp8x[7 + i] = ((height - 1) >> (8 * i)) & 0xFF;
+    }
+    parts.push(riffChunk("VP8X", vp8x));
+    for (const chunk of layout.chunks.filter((c) => c.type === "ICCP")) parts.push(riffChunk(chunk.type, chunk.body));
+    parts.push(vp8l);
+    for (const chunk of layout.chunks.filter((c) => c.type !== "ICCP")) parts.push(riffChunk(chunk.type, chunk.body));
+  } else {
+    parts.push(vp8l);
+  }
+
+  const size = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(12 + size);
+  out.set([0x52, 0x49, 0x46, 0x46], 0); // "RIFF"
+  new DataView(out.buffer).setUint32(4, 4 + size, true);
+  out.set([0x57, 0x45, 0x42, 0x50], 8); // "WEBP"
+  let pos = 12;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
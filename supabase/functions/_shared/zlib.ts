@@ -0,0 +1,57 @@
+// Deflate helpers built on the platform CompressionStream/DecompressionStream,
+// available in Deno and browsers. "deflate" is the zlib-wrapped format PNG
+// uses; "deflate-raw" drops the 6-byte wrapper for hidden payloads, which
+// carry their own integrity checks.
+
+async function runStream(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxBytes = Infinity
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const written = writer.write(data).then(() => writer.close());
+  const [output] = await Promise.all([readLimited(stream.readable, maxBytes), written]);
+  return output;
+}
+
+// Reads a stream to the end, cancelling it as soon as it yields more than
+// maxBytes so a small deflate bomb never expands in full
+async function readLimited(readable: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array> {
+  const reader = readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Inflated data exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  const output = new Uint8Array(total);
+  let pos = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return output;
+}
+
+export function zlibInflate(data: Uint8Array): Promise<Uint8Array> {
+  return runStream(data, new DecompressionStream("deflate"));
+}
+
+export function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  return runStream(data, new CompressionStream("deflate"));
+}
+
+// Fails once the output passes maxBytes, for payloads that declare their size
+export function rawInflate(data: Uint8Array, maxBytes = Infinity): Promise<Uint8Array> {
+  return runStream(data, new DecompressionStream("deflate-raw"), maxBytes);
+}
+
+export function rawDeflate(data: Uint8Array): Promise<Uint8Array> {
+  return runStream(data, new CompressionStream("deflate-raw"));
+}
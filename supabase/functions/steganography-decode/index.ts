@@ -1,12 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decodePNG } from "../_shared/png.ts";
+import { decodeBMP } from "../_shared/bmp.ts";
+import { decryptPayload, isEncryptedEnvelope } from "../_shared/crypto.ts";
+import { type HiddenContent, isCompressedPayload, openContent } from "../_shared/payload.ts";
+import { decodeJPEG } from "../_shared/jpeg.ts";
+import { decodeGIF } from "../_shared/gif.ts";
+import { decodeTIFF } from "../_shared/tiff.ts";
+import { decodeWebP, isLosslessWebP } from "../_shared/webp.ts";
+import { indexedToRgb } from "../_shared/indexedImage.ts";
+import { type CoverImage, detectImageFormat, type ImageFormat, type StegoCarrier } from "../_shared/codec.ts";
+import { findPayload, unsealPayload } from "../_shared/codecs.ts";
+import type { ContainerHeader } from "../_shared/container.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Simple XOR decryption for the message
+// Legacy XOR decryption for messages encoded before AES-GCM envelopes
 function decryptMessage(encrypted: string, key: string): string {
   if (!key) return encrypted;
   let result = "";
@@ -16,116 +28,53 @@ function decryptMessage(encrypted: string, key: string): string {
   return result;
 }
 
-// Decode LSB steganography from BMP pixel data
-function decodeLSB(pixelData: Uint8Array): string | null {
-  // Extract bits from LSB
-  const bits: number[] = [];
-  for (let i = 0; i < Math.min(pixelData.length, 100000); i++) {
-    bits.push(pixelData[i] & 1);
-  }
-  
-  // Convert first 32 bits to length
-  let length = 0;
-  for (let i = 0; i < 32; i++) {
-    length = (length << 1) | bits[i];
-  }
-  
-  // Sanity check
-  if (length <= 0 || length > 100000) {
-    return null;
-  }
-  
-  // Extract message bytes
-  const messageBytes: number[] = [];
-  for (let i = 0; i < length; i++) {
-    let byte = 0;
-    for (let j = 0; j < 8; j++) {
-      const bitIndex = 32 + i * 8 + j;
-      if (bitIndex >= bits.length) return null;
-      byte = (byte << 1) | bits[bitIndex];
+// Recover the hidden content from an extracted payload. AES-GCM envelopes are
+// authenticated against the key (throwing on a wrong key or tampering).
+// Payloads in a container (container.ts) say whether they are encrypted;
+// older ones are sniffed, and may be in the legacy XOR format.
+async function openPayload(payload: Uint8Array, key: string, header: ContainerHeader | null): Promise<HiddenContent> {
+  if (header) {
+    if (!header.encrypted) return openContent(payload);
+    if (!key) throw new Error("This message is encrypted. Enter the key used during encoding.");
+    if (!isEncryptedEnvelope(payload)) {
+      throw new Error("Corrupt payload: the container is marked encrypted but holds no AES-GCM envelope");
     }
-    messageBytes.push(byte);
+    return openContent(await decryptPayload(payload, key));
   }
-  
-  // Verify end marker
-  const endMarkerBits = 32 + length * 8;
-  if (endMarkerBits + 56 <= bits.length) { // 7 bytes for "<<END>>"
-    const markerBytes: number[] = [];
-    for (let i = 0; i < 7; i++) {
-      let byte = 0;
-      for (let j = 0; j < 8; j++) {
-        byte = (byte << 1) | bits[endMarkerBits + i * 8 + j];
-      }
-      markerBytes.push(byte);
-    }
-    const marker = String.fromCharCode(...markerBytes);
-    if (marker !== "<<END>>") {
-      // Marker not found but we still have message data
-      console.log("End marker not found, attempting to decode anyway");
-    }
+  if (isEncryptedEnvelope(payload)) {
+    return openContent(await decryptPayload(payload, key));
   }
-  
-  return new TextDecoder().decode(new Uint8Array(messageBytes));
+  const content = await openContent(payload);
+  if (content.kind === "file" || isCompressedPayload(payload) || !key) return content;
+  return { kind: "text", text: decryptMessage(content.text, key) };
 }
 
-// Parse BMP and return pixel data
-function parseBMP(data: Uint8Array): { width: number; height: number; pixels: Uint8Array } | null {
-  if (data[0] !== 0x42 || data[1] !== 0x4D) {
-    return null;
-  }
-  
-  const view = new DataView(data.buffer);
-  
-  const pixelOffset = view.getUint32(10, true);
-  const width = view.getInt32(18, true);
-  const height = Math.abs(view.getInt32(22, true));
-  const bitsPerPixel = view.getUint16(28, true);
-  const isBottomUp = view.getInt32(22, true) > 0;
-  
-  if (bitsPerPixel !== 24 && bitsPerPixel !== 32) {
-    return null;
-  }
-  
-  const bytesPerPixel = bitsPerPixel / 8;
-  const rowSize = Math.ceil((width * bytesPerPixel) / 4) * 4;
-  
-  const pixels = new Uint8Array(width * height * 3);
-  
-  for (let y = 0; y < height; y++) {
-    const srcY = isBottomUp ? (height - 1 - y) : y;
-    const rowOffset = pixelOffset + srcY * rowSize;
-    
-    for (let x = 0; x < width; x++) {
-      const srcIdx = rowOffset + x * bytesPerPixel;
-      const dstIdx = (y * width + x) * 3;
-      
-      if (srcIdx + 2 < data.length) {
-        pixels[dstIdx] = data[srcIdx + 2];     // R
-        pixels[dstIdx + 1] = data[srcIdx + 1]; // G
-        pixels[dstIdx + 2] = data[srcIdx];     // B
-      }
+// Decoded samples of a BMP, PNG, GIF, TIFF, lossless WebP or JPEG image;
+// null when the format is anything else or fails to decode, leaving only appended data to look for
+async function decodeStego(data: Uint8Array, format: ImageFormat): Promise<CoverImage | null> {
+  try {
+    if (format === "bmp") {
+      const { width, height, pixels, alpha } = decodeBMP(data);
+      return { width, height, pixels, alpha };
     }
-  }
-  
-  return { width, height, pixels };
-}
-
-// Find marker in byte array
-function findMarker(data: Uint8Array, marker: string): number {
-  const markerBytes = new TextEncoder().encode(marker);
-  
-  // Search from end of file backwards
-  for (let i = data.length - markerBytes.length; i >= 0; i--) {
-    let found = true;
-    for (let j = 0; j < markerBytes.length; j++) {
-      if (data[i + j] !== markerBytes[j]) {
-        found = false;
-        break;
-      }
+    if (format === "png") {
+      const { width, height, pixels, alpha } = await decodePNG(data);
+      return { width, height, pixels, alpha };
+    }
+    if (format === "gif") return indexedToRgb(decodeGIF(data));
+    if (format === "tiff") {
+      const { width, height, pixels, alpha } = decodeTIFF(data);
+      return { width, height, pixels, alpha };
+    }
+    if (format === "webp" && isLosslessWebP(data)) {
+      const { width, height, pixels, alpha } = decodeWebP(data);
+      return { width, height, pixels, alpha };
     }
-    if (found) return i;
+    if (format === "jpeg") return { ...decodeJPEG(data), alpha: null };
+  } catch (e) {
+    console.log(`${format.toUpperCase()} decode failed, trying appended data:`, e);
   }
-  return -1;
+  return null;
 }
 
 serve(async (req) => {
@@ -172,73 +121,12 @@ serve(async (req) => {
     const arrayBuffer = await imageFile.arrayBuffer();
     const imageData = new Uint8Array(arrayBuffer);
 
-    let decryptedMessage: string | null = null;
-    let method = "";
-
-    // Try Method 1: BMP LSB steganography
-    const bmpData = parseBMP(imageData);
-    if (bmpData) {
-      const lsbMessage = decodeLSB(bmpData.pixels);
-      if (lsbMessage && lsbMessage.length > 0) {
-        decryptedMessage = decryptMessage(lsbMessage, decryptionKey);
-        method = "LSB";
-      }
-    }
-
-    // Try Method 2: Appended data with new marker format
-    if (!decryptedMessage) {
-      const startMarkerIdx = findMarker(imageData, "<<STEGO_START>>");
-      const endMarkerIdx = findMarker(imageData, "<<STEGO_END>>");
-      
-      if (startMarkerIdx !== -1 && endMarkerIdx !== -1 && endMarkerIdx > startMarkerIdx) {
-        const markerLen = "<<STEGO_START>>".length;
-        const lengthStart = startMarkerIdx + markerLen;
-        
-        if (lengthStart + 4 <= imageData.length) {
-          const view = new DataView(imageData.buffer);
-          const messageLength = view.getUint32(lengthStart, false);
-          
-          const messageStart = lengthStart + 4;
-          const messageEnd = messageStart + messageLength;
-          
-          if (messageEnd <= endMarkerIdx) {
-            const messageBytes = imageData.slice(messageStart, messageEnd);
-            const encryptedMessage = new TextDecoder().decode(messageBytes);
-            decryptedMessage = decryptMessage(encryptedMessage, decryptionKey);
-            method = "Append-New";
-          }
-        }
-      }
-    }
-
-    // Try Method 3: Old marker format (backward compatibility)
-    if (!decryptedMessage) {
-      const oldMarker = "STEGO";
-      const oldMarkerIdx = findMarker(imageData, oldMarker);
-      
-      if (oldMarkerIdx !== -1) {
-        const lengthStart = oldMarkerIdx + oldMarker.length;
-        
-        if (lengthStart + 4 <= imageData.length) {
-          const view = new DataView(imageData.buffer);
-          const messageLength = view.getUint32(lengthStart, false);
-          
-          if (messageLength > 0 && messageLength < 100000) {
-            const messageStart = lengthStart + 4;
-            const messageEnd = messageStart + messageLength;
-            
-            if (messageEnd <= imageData.length) {
-              const messageBytes = imageData.slice(messageStart, messageEnd);
-              const encryptedMessage = new TextDecoder().decode(messageBytes);
-              decryptedMessage = decryptMessage(encryptedMessage, decryptionKey);
-              method = "Append-Old";
-            }
-          }
-        }
-      }
-    }
-
-    if (!decryptedMessage) {
+    // Every registered codec that reads this kind of file is tried in turn
+    // (see codecs.ts); the first whose signature is present wins
+    const format = detectImageFormat(imageData);
+    const carrier: StegoCarrier = { format, bytes: imageData, image: await decodeStego(imageData, format) };
+    const match = await findPayload(carrier, decryptionKey);
+    if (!match) {
       return new Response(JSON.stringify({ 
         error: "No hidden message found in this image. Make sure you're using an image that was encoded with this tool.",
         success: false 
@@ -247,6 +135,69 @@ serve(async (req) => {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    if (match.frame === null) {
+      return new Response(JSON.stringify({
+        error: match.error,
+        success: false,
+        method: match.codec.name,
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { codec, frame } = match;
+    const method = codec.name;
+
+    let content: HiddenContent;
+    let header: ContainerHeader | null = null;
+    try {
+      const unsealed = unsealPayload(codec, frame);
+      header = unsealed.header;
+      content = await openPayload(unsealed.payload, decryptionKey, header);
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: error instanceof Error ? error.message : "Failed to decrypt the hidden message",
+        success: false,
+        method: method,
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Extracted files are stored so they can be downloaded again from history
+    let file: { name: string; mimeType: string; size: number; url: string } | null = null;
+    if (content.kind === "file") {
+      const hidden = content.file;
+      const safeName = hidden.name.replace(/[^\w.-]+/g, "_") || "file";
+      const storagePath = `${user.id}/extracted_${Date.now()}_${safeName}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("stego-images")
+        .upload(storagePath, hidden.data, {
+          contentType: hidden.mimeType || "application/octet-stream",
+          upsert: true,
+        });
+
+      if (uploadError) {
+        console.error("Upload error:", uploadError);
+        return new Response(JSON.stringify({ error: "Failed to store the extracted file" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: urlData } = supabase.storage.from("stego-images").getPublicUrl(storagePath);
+      file = {
+        name: hidden.name,
+        mimeType: hidden.mimeType,
+        size: hidden.data.length,
+        url: urlData.publicUrl,
+      };
+    }
+
+    const message = content.kind === "text" ? content.text : null;
 
     const endTime = Date.now();
     const decodingTime = endTime - startTime;
@@ -256,16 +207,39 @@ serve(async (req) => {
       user_id: user.id,
       operation_type: "decode",
       filename: imageFile.name,
-      message: decryptedMessage.substring(0, 100),
+      message: message?.substring(0, 100) ?? null,
+      payload_type: content.kind,
+      payload_filename: file?.name ?? null,
+      payload_mime_type: file?.mimeType || null,
+      payload_size_bytes: file ? file.size : new TextEncoder().encode(message ?? "").length,
+      payload_url: file?.url ?? null,
       encoding_time_ms: decodingTime,
       status: "success",
     });
 
     return new Response(JSON.stringify({
       success: true,
-      message: decryptedMessage,
+      message,
+      file,
       decodingTimeMs: decodingTime,
       method: method,
+      codec: codec.id,
+      robustness: frame.level,
+      embedding: frame.embedding,
+      hammingK: frame.details.hammingK ?? null,
+      stcWidth: frame.details.stcWidth ?? null,
+      classic: frame.details.classic ?? null,
+      dwtStep: frame.details.dwtStep ?? null,
+      frames: frame.details.frames ?? null,
+      correctedErrors: frame.correctedErrors,
+      container: header && {
+        version: header.version,
+        compressed: header.compressed,
+        encrypted: header.encrypted,
+        errorCorrected: header.errorCorrected,
+        keyOrdered: header.keyOrdered,
+        params: header.params,
+      },
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
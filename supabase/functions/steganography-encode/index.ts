@@ -1,178 +1,116 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decodePNG } from "../_shared/png.ts";
+import { decodeBMP } from "../_shared/bmp.ts";
+import { computeImageMetrics } from "../_shared/metrics.ts";
+import { encryptPayload } from "../_shared/crypto.ts";
+import { preparePayload } from "../_shared/payload.ts";
+import { type LsbEmbedding, parseLsbEmbedding, parseRobustness, type RobustnessLevel } from "../_shared/ecc.ts";
+import { decodeJPEG } from "../_shared/jpeg.ts";
+import { decodeGIF } from "../_shared/gif.ts";
+import { indexedToRgb } from "../_shared/indexedImage.ts";
+import { decodeTIFF } from "../_shared/tiff.ts";
+import { decodeWebP, isLosslessWebP } from "../_shared/webp.ts";
+import { type ClassicLsbParams, parseClassicParams } from "../_shared/classicLsb.ts";
+import { parseDwtStep } from "../_shared/dwtQim.ts";
+import {
+  type Codec,
+  type CodecEmbedResult,
+  type CoverImage,
+  detectImageFormat,
+  type ImageFormat,
+  type StegoCarrier,
+} from "../_shared/codec.ts";
+import { getCodec, sealPayload } from "../_shared/codecs.ts";
+import { isPaletteImage } from "../_shared/ezStego.ts";
+import { isAnimation } from "../_shared/multiFrame.ts";
+import {
+  type CoverLayout,
+  NO_LAYOUT,
+  type OutputFormat,
+  parseOutputFormat,
+  stegoFormat,
+  writeStegoImage,
+} from "../_shared/outputFormat.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Simple XOR encryption for the message
-function encryptMessage(message: string, key: string): string {
-  if (!key) return message;
-  let result = "";
-  for (let i = 0; i < message.length; i++) {
-    result += String.fromCharCode(message.charCodeAt(i) ^ key.charCodeAt(i % key.length));
-  }
-  return result;
+// Round a metric for storage; metrics that could not be measured (or are
+// unbounded, like the PSNR of identical images) are stored as NULL
+function roundMetric(value: number | null, digits: number): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
 }
 
-// Encode message into BMP image data using LSB steganography
-function encodeLSB(pixelData: Uint8Array, message: string): Uint8Array {
-  // Create message with length prefix and end marker
-  const encoder = new TextEncoder();
-  const messageBytes = encoder.encode(message);
-  
-  // Format: [4 bytes length][message bytes][END marker]
-  const endMarker = encoder.encode("<<END>>");
-  const fullMessage = new Uint8Array(4 + messageBytes.length + endMarker.length);
-  
-  // Write length as 4 bytes (big endian)
-  fullMessage[0] = (messageBytes.length >> 24) & 0xFF;
-  fullMessage[1] = (messageBytes.length >> 16) & 0xFF;
-  fullMessage[2] = (messageBytes.length >> 8) & 0xFF;
-  fullMessage[3] = messageBytes.length & 0xFF;
-  fullMessage.set(messageBytes, 4);
-  fullMessage.set(endMarker, 4 + messageBytes.length);
-  
-  // Convert to bits
-  const bits: number[] = [];
-  for (const byte of fullMessage) {
-    for (let i = 7; i >= 0; i--) {
-      bits.push((byte >> i) & 1);
-    }
-  }
-  
-  // Check capacity
-  if (bits.length > pixelData.length) {
-    throw new Error(`Message too long. Maximum ${Math.floor(pixelData.length / 8)} characters allowed.`);
-  }
-  
-  // Clone pixel data
-  const result = new Uint8Array(pixelData);
-  
-  // Embed bits in LSB
-  for (let i = 0; i < bits.length; i++) {
-    result[i] = (result[i] & 0xFE) | bits[i];
-  }
-  
-  return result;
+// The embedding mode is the id of a writable codec (see codecs.ts): "lsb",
+// "classic", "pvd", "adaptive", "dct", "dwt", "ezstego" (GIF and palette PNG
+// only), "frames" (animated GIF and APNG only), "chunk" (PNG only) or
+// "append". "auto" picks multi-frame for animations, EzStego for other
+// palette covers, LSB for other BMP, PNG, TIFF and lossless WebP covers,
+// DCT for JPEG covers and appended data for anything that cannot be decoded.
+function parseMode(value: unknown): Codec | "auto" {
+  if (value === null || value === undefined || value === "" || value === "auto") return "auto";
+  return getCodec(String(value));
 }
 
-// Create a simple BMP image from raw RGB data
-function createBMP(width: number, height: number, rgbData: Uint8Array): Uint8Array {
-  const rowSize = Math.ceil((width * 3) / 4) * 4; // Rows must be 4-byte aligned
-  const pixelDataSize = rowSize * height;
-  const fileSize = 54 + pixelDataSize;
-  
-  const bmp = new Uint8Array(fileSize);
-  const view = new DataView(bmp.buffer);
-  
-  // BMP Header
-  bmp[0] = 0x42; // 'B'
-  bmp[1] = 0x4D; // 'M'
-  view.setUint32(2, fileSize, true); // File size
-  view.setUint32(10, 54, true); // Pixel data offset
-  
-  // DIB Header
-  view.setUint32(14, 40, true); // DIB header size
-  view.setInt32(18, width, true); // Width
-  view.setInt32(22, height, true); // Height (positive = bottom-up)
-  view.setUint16(26, 1, true); // Color planes
-  view.setUint16(28, 24, true); // Bits per pixel
-  view.setUint32(30, 0, true); // No compression
-  view.setUint32(34, pixelDataSize, true); // Image size
-  view.setUint32(38, 2835, true); // Horizontal resolution (72 DPI)
-  view.setUint32(42, 2835, true); // Vertical resolution (72 DPI)
-  
-  // Pixel data (BGR format, bottom-up)
-  let offset = 54;
-  for (let y = height - 1; y >= 0; y--) {
-    for (let x = 0; x < width; x++) {
-      const srcIdx = (y * width + x) * 3;
-      bmp[offset++] = rgbData[srcIdx + 2]; // B
-      bmp[offset++] = rgbData[srcIdx + 1]; // G
-      bmp[offset++] = rgbData[srcIdx];     // R
-    }
-    // Padding
-    while ((offset - 54) % 4 !== 0) {
-      bmp[offset++] = 0;
-    }
-  }
-  
-  return bmp;
+function autoCodec(cover: StegoCarrier): Codec {
+  if (cover.image && isAnimation(cover)) return getCodec("frames");
+  if (cover.image && isPaletteImage(cover)) return getCodec("ezstego");
+  return getCodec(cover.format === "jpeg" ? "dct" : cover.image ? "lsb" : "append");
 }
 
-// Parse BMP and return pixel data
-function parseBMP(data: Uint8Array): { width: number; height: number; pixels: Uint8Array } {
-  const view = new DataView(data.buffer);
-  
-  if (data[0] !== 0x42 || data[1] !== 0x4D) {
-    throw new Error("Not a valid BMP file");
-  }
-  
-  const pixelOffset = view.getUint32(10, true);
-  const width = view.getInt32(18, true);
-  const height = Math.abs(view.getInt32(22, true));
-  const bitsPerPixel = view.getUint16(28, true);
-  const isBottomUp = view.getInt32(22, true) > 0;
-  
-  if (bitsPerPixel !== 24 && bitsPerPixel !== 32) {
-    throw new Error(`Unsupported BMP format: ${bitsPerPixel} bits per pixel`);
+// Why `codec` cannot embed in this cover, or null when it can
+function coverProblem(codec: Codec, cover: StegoCarrier): string | null {
+  if (codec.capabilities.carrier === "pixels" && !cover.image) {
+    return `${codec.name} needs a BMP, PNG, GIF, TIFF, lossless WebP or JPEG cover image`;
   }
-  
-  const bytesPerPixel = bitsPerPixel / 8;
-  const rowSize = Math.ceil((width * bytesPerPixel) / 4) * 4;
-  
-  const pixels = new Uint8Array(width * height * 3);
-  
-  for (let y = 0; y < height; y++) {
-    const srcY = isBottomUp ? (height - 1 - y) : y;
-    const rowOffset = pixelOffset + srcY * rowSize;
-    
-    for (let x = 0; x < width; x++) {
-      const srcIdx = rowOffset + x * bytesPerPixel;
-      const dstIdx = (y * width + x) * 3;
-      
-      pixels[dstIdx] = data[srcIdx + 2];     // R
-      pixels[dstIdx + 1] = data[srcIdx + 1]; // G
-      pixels[dstIdx + 2] = data[srcIdx];     // B
-    }
+  // File codecs write into the cover file itself, so only formats they read
+  if (codec.capabilities.carrier === "file" && !codec.capabilities.reads.includes(cover.format)) {
+    return `${codec.name} needs a ${codec.capabilities.reads.map((format) => format.toUpperCase()).join(" or ")} cover image`;
   }
-  
-  return { width, height, pixels };
+  if (codec.id === "ezstego" && !isPaletteImage(cover)) return "EzStego mode needs a GIF or palette PNG cover image";
+  if (codec.id === "frames" && !isAnimation(cover)) return "Multi-frame mode needs an animated GIF or APNG cover image";
+  return null;
 }
 
-// Simple PNG decoder for basic images
-function decodePNGSimple(data: Uint8Array): { width: number; height: number; pixels: Uint8Array } | null {
-  // Check PNG signature
-  const signature = [137, 80, 78, 71, 13, 10, 26, 10];
-  for (let i = 0; i < 8; i++) {
-    if (data[i] !== signature[i]) return null;
+const OUTPUT_TYPES: Record<Exclude<ImageFormat, "other">, { extension: string; contentType: string }> = {
+  bmp: { extension: "bmp", contentType: "image/bmp" },
+  png: { extension: "png", contentType: "image/png" },
+  gif: { extension: "gif", contentType: "image/gif" },
+  tiff: { extension: "tiff", contentType: "image/tiff" },
+  webp: { extension: "webp", contentType: "image/webp" },
+  jpeg: { extension: "jpg", contentType: "image/jpeg" },
+};
+
+// Decoded samples of a BMP, PNG, GIF, TIFF, lossless WebP or JPEG cover;
+// null for other formats. BMP, TIFF and WebP layouts are kept so the stego
+// file can be written the same way (see outputFormat.ts).
+async function decodeCover(data: Uint8Array, format: ImageFormat): Promise<{ image: CoverImage | null; layout: CoverLayout }> {
+  if (format === "bmp") {
+    const { layout, ...image } = decodeBMP(data);
+    return { image, layout: { ...NO_LAYOUT, bmp: layout } };
   }
-  
-  // For now, we'll convert PNG to a simple format by reading dimensions
-  // and creating a placeholder - proper PNG decoding requires zlib
-  const view = new DataView(data.buffer);
-  
-  // Find IHDR chunk
-  let offset = 8;
-  while (offset < data.length - 12) {
-    const chunkLength = view.getUint32(offset, false);
-    const chunkType = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
-    
-    if (chunkType === "IHDR") {
-      const width = view.getUint32(offset + 8, false);
-      const height = view.getUint32(offset + 12, false);
-      
-      // Create a simple pixel array - we'll use the raw PNG data for encoding
-      // This is a workaround since we can't fully decode PNG without zlib
-      return { width, height, pixels: new Uint8Array(width * height * 3) };
-    }
-    
-    offset += 12 + chunkLength;
+  if (format === "png") {
+    // PNG: decode to raw pixels so the result can be re-encoded losslessly
+    const { width, height, pixels, alpha } = await decodePNG(data);
+    return { image: { width, height, pixels, alpha }, layout: NO_LAYOUT };
   }
-  
-  return null;
+  if (format === "gif") return { image: indexedToRgb(decodeGIF(data)), layout: NO_LAYOUT };
+  if (format === "tiff") {
+    const { layout, ...image } = decodeTIFF(data);
+    return { image, layout: { ...NO_LAYOUT, tiff: layout } };
+  }
+  // Lossy WebPs are left to the file codecs
+  if (format === "webp" && isLosslessWebP(data)) {
+    const { layout, ...image } = decodeWebP(data);
+    return { image, layout: { ...NO_LAYOUT, webp: layout } };
+  }
+  if (format === "jpeg") return { image: { ...decodeJPEG(data), alpha: null }, layout: NO_LAYOUT };
+  return { image: null, layout: NO_LAYOUT };
 }
 
 serve(async (req) => {
@@ -208,10 +146,49 @@ serve(async (req) => {
     const formData = await req.formData();
     const imageFile = formData.get("image") as File;
     const message = formData.get("message") as string;
+    const secretFile = formData.get("file") as File | null;
     const encryptionKey = formData.get("encryptionKey") as string || "";
+    // Hamming-code matrix embedding trades capacity for fewer changed samples
+    const matrixEmbedding = formData.get("matrixEmbedding") === "true";
+
+    let robustness: RobustnessLevel;
+    let mode: Codec | "auto";
+    let embedding: LsbEmbedding;
+    let classicParams: ClassicLsbParams;
+    let dwtStep: number;
+    let outputFormat: OutputFormat | null;
+    try {
+      robustness = parseRobustness(formData.get("robustness"));
+      mode = parseMode(formData.get("mode"));
+      embedding = parseLsbEmbedding(formData.get("embedding"));
+      classicParams = parseClassicParams(
+        formData.get("bitsPerChannel"),
+        formData.get("channels"),
+        formData.get("luminance")
+      );
+      dwtStep = parseDwtStep(formData.get("dwtStep"));
+      // Pixel codecs' stego files default to the cover's format (PNG for
+      // GIF and JPEG covers); only lossless formats are accepted
+      outputFormat = parseOutputFormat(formData.get("outputFormat"));
+      // "auto" ignores options its codec does not support
+      if (mode !== "auto") {
+        if (embedding !== "replacement" && !mode.capabilities.lsbEmbedding) {
+          throw new Error(`${mode.name} writes its bits directly and cannot be combined with LSB matching`);
+        }
+        if (matrixEmbedding && !mode.capabilities.matrixEmbedding) {
+          throw new Error(`${mode.name} cannot be combined with matrix embedding`);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid embedding options";
+      return new Response(JSON.stringify({ error: errorMessage }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    if (!imageFile || !message) {
-      return new Response(JSON.stringify({ error: "Image and message are required" }), {
+    if (!imageFile || (!message && !secretFile)) {
+      return new Response(JSON.stringify({ error: "Image and a message or file are required" }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
@@ -220,128 +197,122 @@ serve(async (req) => {
     const arrayBuffer = await imageFile.arrayBuffer();
     const imageData = new Uint8Array(arrayBuffer);
 
-    // Encrypt message if key provided
-    const processedMessage = encryptMessage(message, encryptionKey);
-
-    let width: number, height: number, pixels: Uint8Array;
-    let isBMP = imageData[0] === 0x42 && imageData[1] === 0x4D;
-    
-    if (isBMP) {
-      const parsed = parseBMP(imageData);
-      width = parsed.width;
-      height = parsed.height;
-      pixels = parsed.pixels;
-    } else {
-      // For non-BMP images, use a simple embedding approach
-      // We'll embed the message at the end of the file with a marker
-      // This works for most formats but may be stripped on re-save
-      
-      // Try to get dimensions from PNG
-      const pngInfo = decodePNGSimple(imageData);
-      if (pngInfo) {
-        width = pngInfo.width;
-        height = pngInfo.height;
-      } else {
-        width = 100;
-        height = 100;
+    // Text is hidden as UTF-8; files carry their name and MIME type. Either
+    // is deflated first when that makes it smaller.
+    const prepared = await preparePayload(secretFile
+      ? {
+        name: secretFile.name,
+        mimeType: secretFile.type,
+        data: new Uint8Array(await secretFile.arrayBuffer()),
       }
-      
-      // For non-BMP, we'll use the append method with a stronger marker
-      const encoder = new TextEncoder();
-      const markerStart = encoder.encode("<<STEGO_START>>");
-      const markerEnd = encoder.encode("<<STEGO_END>>");
-      const messageBytes = encoder.encode(processedMessage);
-      const lengthBytes = new Uint8Array(4);
-      new DataView(lengthBytes.buffer).setUint32(0, messageBytes.length, false);
-      
-      const stegoData = new Uint8Array(
-        imageData.length + markerStart.length + lengthBytes.length + messageBytes.length + markerEnd.length
-      );
-      stegoData.set(imageData, 0);
-      stegoData.set(markerStart, imageData.length);
-      stegoData.set(lengthBytes, imageData.length + markerStart.length);
-      stegoData.set(messageBytes, imageData.length + markerStart.length + lengthBytes.length);
-      stegoData.set(markerEnd, imageData.length + markerStart.length + lengthBytes.length + messageBytes.length);
-      
-      // Calculate metrics
-      const psnrValue = 48 + Math.random() * 7;
-      const ssimScore = 0.985 + Math.random() * 0.01;
-      const endTime = Date.now();
-      const encodingTime = endTime - startTime;
-      
-      // Upload
-      const timestamp = Date.now();
-      const ext = imageFile.name.split('.').pop() || 'png';
-      const filename = `stego_${timestamp}.${ext}`;
-      const storagePath = `${user.id}/${filename}`;
+      : message);
+    const content = prepared.bytes;
+    const payloadInfo = secretFile
+      ? {
+        payload_type: "file",
+        payload_filename: secretFile.name,
+        payload_mime_type: secretFile.type || null,
+        payload_size_bytes: secretFile.size,
+      }
+      : { payload_type: "text", payload_size_bytes: new TextEncoder().encode(message).length };
+    const historyMessage = secretFile ? null : message.substring(0, 100);
 
-      const { error: uploadError } = await supabase.storage
-        .from("stego-images")
-        .upload(storagePath, stegoData, {
-          contentType: imageFile.type || "image/png",
-          upsert: true,
-        });
+    // Seal the payload with AES-GCM if a key was provided
+    const payload = encryptionKey
+      ? await encryptPayload(content, encryptionKey)
+      : content;
+    const format = detectImageFormat(imageData);
+    const { image: coverImage, layout } = await decodeCover(imageData, format);
+    const cover: StegoCarrier = { format, bytes: imageData, image: coverImage };
+    const codec = mode === "auto" ? autoCodec(cover) : mode;
+    const options = { robustness, key: encryptionKey, embedding, matrixEmbedding, classic: classicParams, dwtStep };
 
-      if (uploadError) {
-        console.error("Upload error:", uploadError);
-        return new Response(JSON.stringify({ error: "Failed to upload stego image" }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+    // Pixel codecs carry an error-corrected frame; parity for the chosen
+    // robustness level comes out of their capacity. A cover the codec cannot
+    // take fails here, as a bad request.
+    let capacityBytes: number;
+    try {
+      const problem = coverProblem(codec, cover);
+      if (problem) throw new Error(problem);
+      capacityBytes = codec.capacity(cover, options);
+    } catch (error) {
+      return new Response(JSON.stringify({
+        error: error instanceof Error ? error.message : "Unsupported cover image",
+        method: codec.name,
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-      const { data: urlData } = supabase.storage.from("stego-images").getPublicUrl(storagePath);
+    // The container header records the codec, its options and the payload
+    // flags, so any decoder can tell what it is looking at
+    const sealed = sealPayload(codec, options, payload, prepared.compressed);
+    const payloadSizes = {
+      rawBytes: prepared.rawSize,
+      compressedBytes: prepared.compressedSize,
+      compressed: prepared.compressed,
+      embeddedBytes: sealed.length,
+    };
 
-      await supabase.from("encryption_history").insert({
-        user_id: user.id,
-        operation_type: "encode",
-        filename: imageFile.name,
-        message: message.substring(0, 100),
-        encoding_time_ms: encodingTime,
-        psnr_value: Math.round(psnrValue * 100) / 100,
-        ssim_score: Math.round(ssimScore * 1000) / 1000,
-        stego_image_url: urlData.publicUrl,
-        status: "success",
+    if (sealed.length > capacityBytes) {
+      return new Response(JSON.stringify({
+        error: `Payload too large: ${sealed.length} bytes to embed (${prepared.rawSize} bytes raw, ` +
+          `${prepared.compressedSize} bytes compressed). Maximum ${capacityBytes} bytes fit in this image ` +
+          `at ${robustness} robustness.`,
+        payload: { ...payloadSizes, capacityBytes },
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
+    }
 
+    let result: CodecEmbedResult;
+    try {
+      result = await codec.embed(cover, sealed, options);
+    } catch (error) {
       return new Response(JSON.stringify({
-        success: true,
-        stegoImageUrl: urlData.publicUrl,
-        metrics: {
-          psnrValue: Math.round(psnrValue * 100) / 100,
-          ssimScore: Math.round(ssimScore * 1000) / 1000,
-          encodingTimeMs: encodingTime,
-        },
+        error: error instanceof Error ? error.message : "Embedding failed",
+        method: codec.name,
       }), {
+        status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
-    
-    // BMP: Use true LSB steganography
-    const encodedPixels = encodeLSB(pixels, processedMessage);
-    const stegoBMP = createBMP(width, height, encodedPixels);
-    
-    // Calculate actual metrics
-    let mse = 0;
-    for (let i = 0; i < pixels.length; i++) {
-      const diff = pixels[i] - encodedPixels[i];
-      mse += diff * diff;
+    if (result.file && outputFormat && result.file.format !== outputFormat) {
+      return new Response(JSON.stringify({
+        error: `${codec.name} writes its own ${result.file.format.toUpperCase()} file and cannot save it as ${outputFormat.toUpperCase()}`,
+        method: codec.name,
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
-    mse /= pixels.length;
-    const psnrValue = mse === 0 ? 100 : 10 * Math.log10((255 * 255) / mse);
-    const ssimScore = 0.999; // Near-perfect for LSB
+    const stegoAs = stegoFormat(format, outputFormat);
+    const output = result.file ?? { bytes: await writeStegoImage(result.image!, stegoAs, layout), format: stegoAs };
+    const { extension, contentType } = output.format === "other"
+      ? { extension: imageFile.name.split(".").pop() || "png", contentType: imageFile.type || "image/png" }
+      : OUTPUT_TYPES[output.format];
+
+    // Metrics from the decoded cover and stego pixels; unknown when the
+    // cover could not be decoded
+    const quality = cover.image && result.image
+      ? computeImageMetrics(cover.image.pixels, result.image.pixels, cover.image.width, cover.image.height, 3)
+      : null;
+    const psnrValue = quality?.psnr ?? null;
+    const ssimScore = quality?.ssim ?? null;
 
     const endTime = Date.now();
     const encodingTime = endTime - startTime;
 
     const timestamp = Date.now();
-    const filename = `stego_${timestamp}.bmp`;
+    const filename = `stego_${timestamp}.${extension}`;
     const storagePath = `${user.id}/${filename}`;
 
     const { error: uploadError } = await supabase.storage
       .from("stego-images")
-      .upload(storagePath, stegoBMP, {
-        contentType: "image/bmp",
+      .upload(storagePath, output.bytes, {
+        contentType,
         upsert: true,
       });
 
@@ -359,22 +330,41 @@ serve(async (req) => {
       user_id: user.id,
       operation_type: "encode",
       filename: imageFile.name,
-      message: message.substring(0, 100),
+      message: historyMessage,
+      ...payloadInfo,
       encoding_time_ms: encodingTime,
-      psnr_value: Math.round(psnrValue * 100) / 100,
-      ssim_score: Math.round(ssimScore * 1000) / 1000,
+      psnr_value: roundMetric(psnrValue, 2),
+      ssim_score: roundMetric(ssimScore, 4),
       stego_image_url: urlData.publicUrl,
       status: "success",
     });
 
+    const { changedSamples, embeddedBits } = result;
+    const pixelCodec = codec.capabilities.carrier === "pixels";
     return new Response(JSON.stringify({
       success: true,
       stegoImageUrl: urlData.publicUrl,
       metrics: {
-        psnrValue: Math.round(psnrValue * 100) / 100,
-        ssimScore: Math.round(ssimScore * 1000) / 1000,
+        psnrValue: roundMetric(psnrValue, 2),
+        ssimScore: roundMetric(ssimScore, 4),
+        mse: roundMetric(quality?.mse ?? null, 6),
         encodingTimeMs: encodingTime,
+        // Hidden bits per changed sample (plain LSB averages 2)
+        changedSamples,
+        embeddingEfficiency: changedSamples === null || embeddedBits === null
+          ? null
+          : roundMetric(embeddedBits / changedSamples, 3),
       },
+      payload: { ...payloadSizes, capacityBytes: Number.isFinite(capacityBytes) ? capacityBytes : null },
+      method: codec.name,
+      codec: codec.id,
+      robustness: pixelCodec ? robustness : null,
+      embedding: codec.capabilities.lsbEmbedding ? embedding : null,
+      classic: result.details.classic ?? null,
+      hammingK: result.details.hammingK ?? null,
+      stcWidth: result.details.stcWidth ?? null,
+      dwtStep: result.details.dwtStep ?? null,
+      frames: result.details.frames ?? null,
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -0,0 +1,36 @@
+-- PSNR and SSIM are now measured independently and either may be NULL when it
+-- cannot be computed, so average each metric over the rows that carry it.
+CREATE OR REPLACE FUNCTION public.admin_get_quality_over_time()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT json_agg(row_to_json(t)) INTO result
+  FROM (
+    SELECT
+      to_char(d.day, 'YYYY-MM-DD') AS date,
+      ROUND(AVG(eh.psnr_value)::numeric, 2) AS avg_psnr,
+      ROUND(AVG(eh.ssim_score)::numeric, 4) AS avg_ssim
+    FROM generate_series(
+      CURRENT_DATE - INTERVAL '29 days',
+      CURRENT_DATE,
+      '1 day'
+    ) AS d(day)
+    LEFT JOIN public.encryption_history eh
+      ON DATE(eh.created_at) = d.day
+      AND (eh.psnr_value IS NOT NULL OR eh.ssim_score IS NOT NULL)
+    GROUP BY d.day
+    ORDER BY d.day
+  ) t;
+
+  RETURN COALESCE(result, '[]'::json);
+END;
+$$;
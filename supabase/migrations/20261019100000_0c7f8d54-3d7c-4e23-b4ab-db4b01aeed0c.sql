@@ -0,0 +1,9 @@
+-- Hidden payloads can be files as well as text messages. Record what kind of
+-- payload an operation handled and, for decoded files, where the extracted
+-- file was stored so it can be downloaded again from history.
+ALTER TABLE public.encryption_history
+  ADD COLUMN payload_type TEXT NOT NULL DEFAULT 'text',
+  ADD COLUMN payload_filename TEXT,
+  ADD COLUMN payload_mime_type TEXT,
+  ADD COLUMN payload_size_bytes INTEGER,
+  ADD COLUMN payload_url TEXT;